@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import { LockTimeoutError, withLock, writeFileAtomic } from "./atomic";
+
+const TEST_DIR = join(import.meta.dir, "..", ".test-atomic-tmp");
+const LOCK = join(TEST_DIR, ".lock");
+
+beforeEach(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+function writeLock(pid: number, host = hostname()) {
+  writeFileSync(
+    LOCK,
+    JSON.stringify({ pid, host, acquired: new Date().toISOString() }),
+  );
+}
+
+test("writeFileAtomic replaces content and leaves no temp files", () => {
+  const path = join(TEST_DIR, "record.json");
+  writeFileAtomic(path, "old");
+  writeFileAtomic(path, "new");
+  expect(readFileSync(path, "utf-8")).toBe("new");
+  expect(readdirSync(TEST_DIR)).toEqual(["record.json"]);
+});
+
+test("writeFileAtomic leaves the original intact when the write fails", () => {
+  const path = join(TEST_DIR, "record.json");
+  writeFileAtomic(path, "old");
+  expect(() =>
+    writeFileAtomic(join(TEST_DIR, "missing", "record.json"), "x"),
+  ).toThrow();
+  expect(readFileSync(path, "utf-8")).toBe("old");
+});
+
+test("withLock holds the lock file while running", () => {
+  const result = withLock(TEST_DIR, () => {
+    expect(existsSync(LOCK)).toBe(true);
+    return 42;
+  });
+  expect(result).toBe(42);
+  expect(existsSync(LOCK)).toBe(false);
+});
+
+test("withLock is reentrant", () => {
+  withLock(TEST_DIR, () => {
+    withLock(TEST_DIR, () => {
+      expect(existsSync(LOCK)).toBe(true);
+    });
+    // Inner release must not drop the outer hold
+    expect(existsSync(LOCK)).toBe(true);
+  });
+  expect(existsSync(LOCK)).toBe(false);
+});
+
+test("withLock releases when fn throws", () => {
+  expect(() =>
+    withLock(TEST_DIR, () => {
+      throw new Error("boom");
+    }),
+  ).toThrow("boom");
+  expect(existsSync(LOCK)).toBe(false);
+});
+
+test("withLock times out while a live process holds the lock", () => {
+  writeLock(process.pid);
+  expect(() => withLock(TEST_DIR, () => {}, { timeoutMs: 100 })).toThrow(
+    LockTimeoutError,
+  );
+  expect(existsSync(LOCK)).toBe(true);
+});
+
+test("withLock takes over a lock whose holder has exited", () => {
+  const { pid } = Bun.spawnSync(["true"]);
+  writeLock(pid);
+  expect(withLock(TEST_DIR, () => "ran", { timeoutMs: 100 })).toBe("ran");
+});
+
+test("withLock takes over a lock from another host older than staleMs", () => {
+  writeLock(process.pid, "another-host");
+  const old = new Date(Date.now() - 120_000);
+  utimesSync(LOCK, old, old);
+  expect(withLock(TEST_DIR, () => "ran", { timeoutMs: 100 })).toBe("ran");
+  expect(readdirSync(TEST_DIR)).toEqual([]);
+});
+
+test("withLock never takes over from a live holder on this host", () => {
+  writeLock(process.pid);
+  const old = new Date(Date.now() - 120_000);
+  utimesSync(LOCK, old, old);
+  expect(() => withLock(TEST_DIR, () => {}, { timeoutMs: 100 })).toThrow(
+    LockTimeoutError,
+  );
+});
+
+test("withLock keeps its lock fresh while fn runs", () => {
+  withLock(
+    TEST_DIR,
+    () => {
+      const old = new Date(Date.now() - 120_000);
+      utimesSync(LOCK, old, old);
+      Bun.sleepSync(20);
+      withLock(TEST_DIR, () => {}); // e.g. each record written
+      expect(Date.now() - statSync(LOCK).mtimeMs).toBeLessThan(1000);
+    },
+    { staleMs: 40 },
+  );
+});
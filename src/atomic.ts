@@ -0,0 +1,244 @@
+import {
+  closeSync,
+  existsSync,
+  linkSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  type Stats,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { hostname } from "node:os";
+import { basename, dirname, join } from "node:path";
+
+const LOCK_FILE = ".lock";
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 60_000;
+const POLL_MS = 25;
+
+/**
+ * Write a file so readers see either the old or the new content, never a
+ * partial write: write a temp file alongside, then rename it into place.
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  const tmp = join(
+    dirname(path),
+    `.${basename(path)}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`,
+  );
+  try {
+    writeFileSync(tmp, data);
+    renameSync(tmp, path);
+  } catch (err) {
+    try {
+      unlinkSync(tmp);
+    } catch {}
+    throw err;
+  }
+}
+
+export interface LockOptions {
+  timeoutMs?: number;
+  /**
+   * A lock held on another host is taken over once it has gone this long
+   * without being refreshed; holders refresh it while they work
+   */
+  staleMs?: number;
+}
+
+interface LockInfo {
+  pid: number;
+  host: string;
+  acquired: string;
+}
+
+/**
+ * Thrown when another process holds the catalog lock for too long.
+ */
+export class LockTimeoutError extends Error {
+  constructor(
+    readonly path: string,
+    readonly holder: LockInfo | null,
+  ) {
+    super(
+      `Timed out waiting for ${path}${holder ? ` (held by pid ${holder.pid} on ${holder.host} since ${holder.acquired})` : ""}. If no yp process is running, delete the file`,
+    );
+    this.name = "LockTimeoutError";
+  }
+}
+
+interface HeldLock {
+  depth: number;
+  staleMs: number;
+  refreshed: number;
+}
+
+// Locks this process holds, keyed by lock path
+const held = new Map<string, HeldLock>();
+
+process.on("exit", () => {
+  for (const path of held.keys()) release(path);
+});
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function readLock(path: string): LockInfo | null {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return null; // missing, or mid-write by its holder
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+interface StaleLock {
+  stat: Stats;
+  content: string;
+}
+
+/**
+ * The lock as it was when found stale, or null while it is live. A lock
+ * is stale when its holder on this host has exited. The pid of a holder
+ * on another host cannot be checked, so its lock is stale once it has
+ * not been refreshed for staleMs, as is a lock that cannot be read.
+ */
+function findStale(path: string, staleMs: number): StaleLock | null {
+  let stat: Stats;
+  let content: string;
+  try {
+    stat = statSync(path);
+    content = readFileSync(path, "utf-8");
+  } catch {
+    return null; // released in the meantime
+  }
+  const info = readLock(path);
+  if (info?.host === hostname()) {
+    return isAlive(info.pid) ? null : { stat, content };
+  }
+  return Date.now() - stat.mtimeMs > staleMs ? { stat, content } : null;
+}
+
+/**
+ * Remove a stale lock, unless it is no longer the one found stale: move
+ * it aside, where no other process can take or remove it, compare, and
+ * only then delete it. A fresh lock moved aside by mistake is put back.
+ */
+function takeOver(path: string, stale: StaleLock): void {
+  const aside = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.stale`;
+  try {
+    renameSync(path, aside);
+  } catch {
+    return; // taken over or released in the meantime
+  }
+  try {
+    const stat = statSync(aside);
+    const same =
+      stat.ino === stale.stat.ino &&
+      stat.mtimeMs === stale.stat.mtimeMs &&
+      readFileSync(aside, "utf-8") === stale.content;
+    if (!same) linkSync(aside, path); // fails if yet another lock exists
+  } catch {}
+  try {
+    unlinkSync(aside);
+  } catch {}
+}
+
+/**
+ * Mark a held lock as in use, so other hosts do not take it over. Called
+ * on every nested withLock, as fn is synchronous and no timer can fire
+ * while it runs.
+ */
+function refresh(path: string, lock: HeldLock): void {
+  const now = Date.now();
+  if (now - lock.refreshed < lock.staleMs / 4) return;
+  lock.refreshed = now;
+  try {
+    utimesSync(path, new Date(now), new Date(now));
+  } catch {}
+}
+
+function tryAcquire(path: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(path, "wx");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw err;
+  }
+  const info: LockInfo = {
+    pid: process.pid,
+    host: hostname(),
+    acquired: new Date().toISOString(),
+  };
+  writeFileSync(fd, JSON.stringify(info));
+  closeSync(fd);
+  return true;
+}
+
+function release(path: string): void {
+  held.delete(path);
+  try {
+    unlinkSync(path);
+  } catch {}
+}
+
+/**
+ * Run fn while holding the advisory lock on a catalog root
+ * (.yellowpages/.lock). Reentrant within a process, so locked helpers can
+ * call each other. Waits up to timeoutMs for another process to finish,
+ * taking over locks left behind by processes that died.
+ */
+export function withLock<T>(
+  root: string,
+  fn: () => T,
+  options: LockOptions = {},
+): T {
+  // Nothing on disk to protect, e.g. an in-memory store in tests
+  if (!existsSync(root)) return fn();
+
+  const path = join(root, LOCK_FILE);
+  const lock = held.get(path);
+  if (lock) {
+    refresh(path, lock);
+    lock.depth++;
+    try {
+      return fn();
+    } finally {
+      lock.depth--;
+    }
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  while (!tryAcquire(path)) {
+    const stale = findStale(path, staleMs);
+    if (stale) {
+      takeOver(path, stale);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(path, readLock(path));
+    }
+    sleep(POLL_MS);
+  }
+
+  held.set(path, { depth: 1, staleMs, refreshed: Date.now() });
+  try {
+    return fn();
+  } finally {
+    release(path);
+  }
+}
@@ -0,0 +1,225 @@
+import { describe, expect, test } from "bun:test";
+import { AmbiguousIdError, createCatalogIndex } from "./catalog-index.js";
+import { createMemoryStore } from "./catalog-store.js";
+import { loadLocalCatalog, resolveService } from "./relations.js";
+import { useStore } from "./store.js";
+import type { Collection, Owner, Service, System } from "./types.js";
+
+const now = "2026-01-01T00:00:00Z";
+
+function makeService(
+  overrides: Partial<Service> & { id: string; name: string },
+): Service {
+  return { created: now, updated: now, ...overrides };
+}
+
+function indexOf(records: Partial<Record<Collection, object[]>>) {
+  return createCatalogIndex((collection) => records[collection] ?? []);
+}
+
+describe("createCatalogIndex", () => {
+  const services = [
+    makeService({ id: "s1", name: "Payments", aliases: ["billing"] }),
+    makeService({
+      id: "s2",
+      name: "checkout",
+      owner: "o1",
+      system: "sys1",
+      dependsOn: [
+        { service: "s1", api: "charges" },
+        { service: "s1", api: "refunds" },
+        { service: "s1", api: "charges" },
+      ],
+    }),
+    makeService({ id: "s3", name: "billing", owner: "o1" }),
+  ];
+
+  test("finds records by id, name and alias", () => {
+    const index = indexOf({ services });
+    expect(index.get<Service>("services", "s2")?.name).toBe("checkout");
+    expect(index.findByName<Service>("services", "PAYMENTS")?.id).toBe("s1");
+    expect(index.resolve("services", "s3")).toBe("s3");
+    expect(index.resolve("services", "nope")).toBeUndefined();
+  });
+
+  test("a name wins over another record's alias", () => {
+    const index = indexOf({ services });
+    expect(index.resolve("services", "billing")).toBe("s3");
+  });
+
+  test("resolves a unique id prefix", () => {
+    const index = indexOf({
+      services: [
+        makeService({ id: "EvoX12ab", name: "payments" }),
+        makeService({ id: "EvpQ34cd", name: "checkout" }),
+      ],
+    });
+    expect(index.resolve("services", "Evo")).toBe("EvoX12ab");
+    expect(index.resolve("services", "evo")).toBeUndefined(); // ids are case-sensitive
+    expect(index.resolve("services", "Ev")).toBeUndefined(); // too short
+  });
+
+  test("throws when an input matches several records", () => {
+    const index = indexOf({
+      services: [
+        makeService({ id: "abc11111", name: "payments" }),
+        makeService({ id: "abc22222", name: "Payments" }),
+        makeService({ id: "xyz33333", name: "cart", aliases: ["basket"] }),
+        makeService({ id: "xyz44444", name: "bag", aliases: ["Basket"] }),
+      ],
+    });
+    const candidates = (input: string) => {
+      try {
+        index.resolve("services", input);
+      } catch (err) {
+        if (err instanceof AmbiguousIdError) return err.candidates;
+      }
+      return [];
+    };
+    expect(candidates("PAYMENTS")).toEqual([
+      { id: "abc11111", name: "payments" },
+      { id: "abc22222", name: "Payments" },
+    ]);
+    expect(candidates("basket").map((c) => c.id)).toEqual([
+      "xyz33333",
+      "xyz44444",
+    ]);
+    expect(candidates("abc").map((c) => c.id)).toEqual([
+      "abc11111",
+      "abc22222",
+    ]);
+    expect(() => index.resolve("services", "abc1")).not.toThrow();
+    expect(index.resolve("services", "abc1")).toBe("abc11111");
+  });
+
+  test("answers reverse lookups", () => {
+    const index = indexOf({ services });
+    // One entry per API, however often it is listed
+    expect(index.dependents("s1")).toEqual([
+      { service: services[1], api: "charges", description: undefined },
+      { service: services[1], api: "refunds", description: undefined },
+    ]);
+    expect(index.ownedBy<Service>("services", "o1").map((s) => s.id)).toEqual([
+      "s2",
+      "s3",
+    ]);
+    expect(index.inSystem<Service>("services", "sys1")).toEqual([services[1]]);
+    expect(index.ownedBy("systems", "o1")).toEqual([]);
+  });
+
+  test("put and remove keep every map current", () => {
+    const index = indexOf({ services });
+    expect(index.dependents("s1")).toHaveLength(2);
+
+    index.put("services", { ...services[1], name: "cart", dependsOn: [] });
+    expect(index.resolve("services", "checkout")).toBeUndefined();
+    expect(index.resolve("services", "cart")).toBe("s2");
+    expect(index.dependents("s1")).toEqual([]);
+
+    index.remove("services", "s3");
+    expect(index.resolve("services", "billing")).toBe("s1");
+    expect(index.ownedBy<Service>("services", "o1").map((s) => s.id)).toEqual([
+      "s2",
+    ]);
+    expect(index.all<Service>("services").map((s) => s.id)).toEqual([
+      "s1",
+      "s2",
+    ]);
+  });
+
+  test("leaves out names and aliases that are not strings", () => {
+    const odd = { id: "s9", name: 42, aliases: ["odd", null] };
+    const index = indexOf({ services: [...services, odd] });
+    expect(index.get("services", "s9")).toBe(odd);
+    expect(index.resolve("services", "odd")).toBe("s9");
+    expect(index.resolve("services", "42")).toBeUndefined();
+    index.remove("services", "s9");
+    expect(index.resolve("services", "odd")).toBeUndefined();
+  });
+
+  test("loads a collection only when it is first looked up", () => {
+    const loaded: Collection[] = [];
+    const index = createCatalogIndex((collection) => {
+      loaded.push(collection);
+      return [];
+    });
+    index.resolve("owners", "platform");
+    index.resolve("owners", "infra");
+    expect(loaded).toEqual(["owners"]);
+  });
+});
+
+// --- benchmark ---
+
+const SERVICES = 10_000;
+
+function generateCatalog() {
+  const owners: Owner[] = Array.from({ length: 100 }, (_, i) => ({
+    id: `o${i}`,
+    name: `team-${i}`,
+    type: "team",
+    created: now,
+    updated: now,
+  }));
+  const systems: System[] = Array.from({ length: 500 }, (_, i) => ({
+    id: `sys${i}`,
+    name: `system-${i}`,
+    owner: `o${i % 100}`,
+    created: now,
+    updated: now,
+  }));
+  const services: Service[] = Array.from({ length: SERVICES }, (_, i) =>
+    makeService({
+      id: `s${i}`,
+      name: `service-${i}`,
+      aliases: [`svc-${i}`],
+      owner: `o${i % 100}`,
+      system: `sys${i % 500}`,
+      dependsOn: [1, 7, 31]
+        .filter((step) => i + step < SERVICES)
+        .map((step) => ({ service: `s${i + step}` })),
+    }),
+  );
+  return { services, systems, owners, resources: [], domains: [], apis: [] };
+}
+
+describe(`benchmark: ${SERVICES} services`, () => {
+  const catalog = generateCatalog();
+
+  // Linear scans per lookup took tens of seconds here; indexed lookups
+  // take well under a second even on a slow machine
+  const BUDGET_MS = 3000;
+
+  test("resolves every name, alias and dependent within budget", () => {
+    const started = performance.now();
+    const index = createCatalogIndex((collection) => catalog[collection]);
+    let dependents = 0;
+    for (let i = 0; i < SERVICES; i++) {
+      expect(index.resolve("services", `SERVICE-${i}`)).toBe(`s${i}`);
+      expect(index.resolve("services", `svc-${i}`)).toBe(`s${i}`);
+      dependents += index.dependents(`s${i}`).length;
+    }
+    expect(dependents).toBe(3 * SERVICES - 1 - 7 - 31);
+    expect(performance.now() - started).toBeLessThan(BUDGET_MS);
+  });
+
+  test("resolves every service of a loaded catalog within budget", () => {
+    const root = "/benchmark/.yellowpages";
+    const store = createMemoryStore();
+    for (const collection of ["services", "systems", "owners"] as const) {
+      for (const record of catalog[collection]) store.write(collection, record);
+    }
+    useStore(root, store);
+    try {
+      const loaded = loadLocalCatalog(root);
+      const started = performance.now();
+      for (let i = 0; i < SERVICES; i++) {
+        const resolved = resolveService(`s${i}`, loaded);
+        expect(resolved?.responsible?.owner.id).toBe(`o${i % 100}`);
+      }
+      expect(performance.now() - started).toBeLessThan(BUDGET_MS);
+    } finally {
+      useStore(root, null);
+    }
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  type Api,
+  type Collection,
+  KIND_LABELS,
+  type Service,
+} from "./types.js";
+
+type AnyRecord = {
+  id: string;
+  name: string;
+  aliases?: string[];
+} & Record<string, unknown>;
+
+// Shorter id prefixes are too likely to be a mistyped name
+export const MIN_ID_PREFIX = 3;
+
+/**
+ * Thrown when an input names more than one record: several records share
+ * the name or alias, or it is the start of several ids.
+ */
+export class AmbiguousIdError extends Error {
+  constructor(
+    readonly collection: Collection,
+    readonly input: string,
+    readonly candidates: { id: string; name: string }[],
+  ) {
+    super(
+      `"${input}" matches ${candidates.length} ${KIND_LABELS[collection]}s: ${candidates.map((c) => `${c.name} (${c.id})`).join(", ")}`,
+    );
+    this.name = "AmbiguousIdError";
+  }
+}
+
+export interface Dependent {
+  service: Service;
+  api?: string;
+  description?: string;
+}
+
+/**
+ * Lookups over a loaded catalog without rescanning it: records by id,
+ * by lowercase name and by alias, plus the reverse relations (who
+ * depends on a service, what an owner owns, what a system contains).
+ */
+export interface CatalogIndex {
+  /** All records of a collection, in load order. */
+  all<T>(collection: Collection): T[];
+  get<T>(collection: Collection, id: string): T | undefined;
+  /**
+   * A record with the name, else with the alias (case-insensitive). When
+   * several share it, the one indexed first is returned: enough to tell
+   * whether a name is taken. Resolve user input with `resolve`, which
+   * reports them as ambiguous instead.
+   */
+  findByName<T>(collection: Collection, name: string): T | undefined;
+  /**
+   * Id of the record an input refers to: an exact id, then a name, then
+   * an alias (case-insensitive), then the start of an id, as in git.
+   * Throws AmbiguousIdError when the first of these to match finds more
+   * than one record.
+   */
+  resolve(collection: Collection, idOrName: string): string | undefined;
+  /** Services whose dependsOn names a service. */
+  dependents(serviceId: string): Dependent[];
+  /** Records of a collection whose owner is the given owner. */
+  ownedBy<T>(collection: Collection, ownerId: string): T[];
+  /** Services or resources that belong to a system. */
+  inSystem<T>(collection: "services" | "resources", systemId: string): T[];
+  /** APIs a service provides. */
+  providedBy(serviceId: string): Api[];
+  /** Add or replace a record. */
+  put(collection: Collection, record: { id: string }): void;
+  remove(collection: Collection, id: string): void;
+}
+
+interface CollectionIndex {
+  records: Map<string, AnyRecord>;
+  names: Map<string, Set<string>>; // lowercase name → ids
+  aliases: Map<string, Set<string>>; // lowercase alias → ids
+  sortedIds: string[] | null; // for prefix lookups, built on first use
+  // Field value → records, built on first use, dropped on writes
+  byField: Map<string, Map<string, AnyRecord[]>>;
+}
+
+function addKey(map: Map<string, Set<string>>, key: string, id: string) {
+  const ids = map.get(key);
+  if (ids) ids.add(id);
+  else map.set(key, new Set([id]));
+}
+
+function removeKey(map: Map<string, Set<string>>, key: string, id: string) {
+  const ids = map.get(key);
+  ids?.delete(id);
+  if (ids?.size === 0) map.delete(key);
+}
+
+// Lookup keys of a name or alias list. Hand-edited records may hold
+// anything here; what is not a string cannot be looked up by name.
+function nameKeys(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.toLowerCase());
+}
+
+function first(ids: Set<string> | undefined): string | undefined {
+  return ids?.values().next().value;
+}
+
+/**
+ * Index a catalog. Collections are loaded on first use, so a lookup in
+ * one collection never reads the others. Records are indexed as they
+ * are, not copied: callers that change a record must put() it again.
+ */
+export function createCatalogIndex(
+  load: (collection: Collection) => object[],
+): CatalogIndex {
+  const collections = new Map<Collection, CollectionIndex>();
+  let dependents: Map<string, Dependent[]> | null = null;
+
+  const index = (record: AnyRecord, c: CollectionIndex) => {
+    c.records.set(record.id, record);
+    for (const key of nameKeys(record.name)) addKey(c.names, key, record.id);
+    for (const key of nameKeys(record.aliases)) {
+      addKey(c.aliases, key, record.id);
+    }
+  };
+
+  const unindex = (record: AnyRecord, c: CollectionIndex) => {
+    for (const key of nameKeys(record.name)) {
+      removeKey(c.names, key, record.id);
+    }
+    for (const key of nameKeys(record.aliases)) {
+      removeKey(c.aliases, key, record.id);
+    }
+  };
+
+  const open = (collection: Collection): CollectionIndex => {
+    let c = collections.get(collection);
+    if (!c) {
+      c = {
+        records: new Map(),
+        names: new Map(),
+        aliases: new Map(),
+        sortedIds: null,
+        byField: new Map(),
+      };
+      for (const record of load(collection)) index(record as AnyRecord, c);
+      collections.set(collection, c);
+    }
+    return c;
+  };
+
+  const byField = (collection: Collection, field: string) => {
+    const c = open(collection);
+    let groups = c.byField.get(field);
+    if (!groups) {
+      groups = new Map();
+      for (const record of c.records.values()) {
+        const value = record[field];
+        if (typeof value !== "string") continue;
+        const list = groups.get(value);
+        if (list) list.push(record);
+        else groups.set(value, [record]);
+      }
+      c.byField.set(field, groups);
+    }
+    return groups;
+  };
+
+  const findByName = (collection: Collection, name: string) => {
+    const c = open(collection);
+    const lower = name.toLowerCase();
+    const id = first(c.names.get(lower)) ?? first(c.aliases.get(lower));
+    return id === undefined ? undefined : c.records.get(id);
+  };
+
+  // Ids starting with a prefix, found by binary search in the sorted ids
+  const withPrefix = (c: CollectionIndex, prefix: string): string[] => {
+    c.sortedIds ??= [...c.records.keys()].sort();
+    const ids = c.sortedIds;
+    let low = 0;
+    let high = ids.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (ids[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const found: string[] = [];
+    for (let i = low; i < ids.length && ids[i].startsWith(prefix); i++) {
+      found.push(ids[i]);
+    }
+    return found;
+  };
+
+  const changed = (collection: Collection, c: CollectionIndex) => {
+    c.sortedIds = null;
+    c.byField.clear();
+    if (collection === "services") dependents = null;
+  };
+
+  return {
+    all: <T>(collection: Collection) =>
+      [...open(collection).records.values()] as T[],
+
+    get: <T>(collection: Collection, id: string) =>
+      open(collection).records.get(id) as T | undefined,
+
+    findByName: <T>(collection: Collection, name: string) =>
+      findByName(collection, name) as T | undefined,
+
+    resolve(collection: Collection, idOrName: string): string | undefined {
+      const c = open(collection);
+      if (c.records.has(idOrName)) return idOrName;
+      const lower = idOrName.toLowerCase();
+      const ids =
+        c.names.get(lower) ??
+        c.aliases.get(lower) ??
+        (idOrName.length >= MIN_ID_PREFIX ? withPrefix(c, idOrName) : []);
+      const matches = [...ids];
+      if (matches.length > 1) {
+        throw new AmbiguousIdError(
+          collection,
+          idOrName,
+          matches.map((id) => {
+            const { name } = c.records.get(id) as AnyRecord;
+            return { id, name };
+          }),
+        );
+      }
+      return matches[0];
+    },
+
+    dependents(serviceId: string): Dependent[] {
+      if (!dependents) {
+        dependents = new Map();
+        const seen = new Set<string>(); // dependent id/target id/api id
+        for (const record of open("services").records.values()) {
+          const service = record as unknown as Service;
+          for (const dep of service.dependsOn ?? []) {
+            const list = dependents.get(dep.service) ?? [];
+            // The same edge listed twice counts once; edges to different
+            // APIs of the target are kept apart
+            const key = `${service.id}/${dep.service}/${dep.api ?? ""}`;
+            if (!seen.has(key)) {
+              seen.add(key);
+              list.push({
+                service,
+                api: dep.api,
+                description: dep.description,
+              });
+            }
+            dependents.set(dep.service, list);
+          }
+        }
+      }
+      return [...(dependents.get(serviceId) ?? [])];
+    },
+
+    ownedBy: <T>(collection: Collection, ownerId: string) =>
+      [...(byField(collection, "owner").get(ownerId) ?? [])] as unknown as T[],
+
+    inSystem: <T>(collection: "services" | "resources", systemId: string) =>
+      [
+        ...(byField(collection, "system").get(systemId) ?? []),
+      ] as unknown as T[],
+
+    providedBy: (serviceId: string) =>
+      [
+        ...(byField("apis", "provider").get(serviceId) ?? []),
+      ] as unknown as Api[],
+
+    put(collection: Collection, record: { id: string }): void {
+      const c = open(collection);
+      const before = c.records.get(record.id);
+      if (before) unindex(before, c);
+      index(record as AnyRecord, c);
+      changed(collection, c);
+    },
+
+    remove(collection: Collection, id: string): void {
+      const c = open(collection);
+      const before = c.records.get(id);
+      if (!before) return;
+      unindex(before, c);
+      c.records.delete(id);
+      changed(collection, c);
+    },
+  };
+}
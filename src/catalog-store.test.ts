@@ -0,0 +1,225 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  type CatalogStore,
+  createFileStore,
+  createMemoryStore,
+} from "./catalog-store.js";
+import { createSqliteStore } from "./sqlite-store.js";
+import type { HistoryEntry, Service } from "./types.js";
+
+const TEST_DIR = join(import.meta.dir, "..", ".test-backends-tmp");
+
+beforeAll(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+function makeEntry(id: string, at: string): HistoryEntry {
+  return { at, actor: "alice", action: "update", id, name: id, changes: [] };
+}
+
+function makeService(id: string, name: string): Service {
+  return {
+    id,
+    name,
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+  };
+}
+
+const backends: [string, () => CatalogStore][] = [
+  ["memory", () => createMemoryStore()],
+  [
+    "file",
+    () => {
+      const root = join(
+        TEST_DIR,
+        `file-${Math.random().toString(36).slice(2)}`,
+      );
+      mkdirSync(root, { recursive: true });
+      return createFileStore(root);
+    },
+  ],
+  [
+    "sqlite",
+    () =>
+      createSqliteStore(
+        join(TEST_DIR, `${Math.random().toString(36).slice(2)}.db`),
+      ),
+  ],
+];
+
+for (const [name, create] of backends) {
+  describe(`${name} backend`, () => {
+    test("write and readOne roundtrip", () => {
+      const store = create();
+      store.write("services", makeService("s1", "checkout"));
+      expect(store.readOne<Service>("services", "s1")?.name).toBe("checkout");
+    });
+
+    test("readOne returns null for unknown id", () => {
+      expect(create().readOne("services", "ghost")).toBeNull();
+    });
+
+    test("readAll returns every record in a collection", () => {
+      const store = create();
+      store.write("services", makeService("s2", "b"));
+      store.write("services", makeService("s1", "a"));
+      const names = store
+        .readAll<Service>("services")
+        .map((s) => s.name)
+        .sort();
+      expect(names).toEqual(["a", "b"]);
+      expect(store.readAll("owners")).toEqual([]);
+    });
+
+    test("write replaces an existing record", () => {
+      const store = create();
+      store.write("services", makeService("s1", "old"));
+      store.write("services", makeService("s1", "new"));
+      expect(store.readAll("services")).toHaveLength(1);
+      expect(store.readOne<Service>("services", "s1")?.name).toBe("new");
+    });
+
+    test("delete removes a record", () => {
+      const store = create();
+      store.write("services", makeService("s1", "checkout"));
+      expect(store.delete("services", "s1")).toBe(true);
+      expect(store.readOne("services", "s1")).toBeNull();
+      expect(store.delete("services", "s1")).toBe(false);
+    });
+
+    test("collections are independent", () => {
+      const store = create();
+      store.write("services", makeService("shared", "svc"));
+      expect(store.readOne("owners", "shared")).toBeNull();
+    });
+
+    test("drops undefined fields", () => {
+      const store = create();
+      store.write("services", { ...makeService("s1", "x"), owner: undefined });
+      const record = store.readOne<Service>("services", "s1");
+      expect(record && "owner" in record).toBe(false);
+    });
+
+    test("history is per record and outlives it", () => {
+      const store = create();
+      store.write("services", makeService("s1", "x"));
+      store.appendHistory("services", makeEntry("s1", "2026-01-01T00:00:01Z"));
+      store.appendHistory("services", makeEntry("s2", "2026-01-01T00:00:02Z"));
+      store.appendHistory("services", makeEntry("s1", "2026-01-01T00:00:03Z"));
+      store.delete("services", "s1");
+
+      const s1 = store.readHistory("services", "s1");
+      expect(s1.map((e) => e.at)).toEqual([
+        "2026-01-01T00:00:01Z",
+        "2026-01-01T00:00:03Z",
+      ]);
+      expect(store.readHistory("services")).toHaveLength(3);
+      expect(store.readHistory("owners")).toEqual([]);
+      expect(store.readHistory("services", "ghost")).toEqual([]);
+    });
+
+    test("trash roundtrip", () => {
+      const store = create();
+      const entry = {
+        collection: "services" as const,
+        record: makeService("s1", "x"),
+        deletedAt: "2026-01-01T00:00:00Z",
+        deletedBy: "alice",
+      };
+      store.writeTrash(entry);
+      store.writeTrash({ ...entry, deletedBy: "bob" });
+      expect(store.readTrash("services")).toEqual([
+        { ...entry, deletedBy: "bob" },
+      ]);
+      expect(store.readTrash("owners")).toEqual([]);
+      expect(store.deleteTrash("services", "s1")).toBe(true);
+      expect(store.deleteTrash("services", "s1")).toBe(false);
+      expect(store.readTrash("services")).toEqual([]);
+    });
+
+    test("revision changes on write and delete", () => {
+      const store = create();
+      const r0 = store.revision();
+      store.write("services", makeService("s1", "x"));
+      const r1 = store.revision();
+      expect(r1).not.toBe(r0);
+      store.delete("services", "s1");
+      expect(store.revision()).not.toBe(r1);
+    });
+  });
+}
+
+describe("file backend", () => {
+  test("sets aside record files it cannot use", () => {
+    const root = join(TEST_DIR, "broken");
+    mkdirSync(join(root, "services"), { recursive: true });
+    const store = createFileStore(root);
+    store.write("services", makeService("good", "checkout"));
+    writeFileSync(
+      join(root, "services", "bad1.json"),
+      '{"id":"bad1","name":"b",',
+    );
+    writeFileSync(join(root, "services", "bad2.json"), '{"id":"bad2"}');
+
+    expect(store.readAll<Service>("services").map((s) => s.id)).toEqual([
+      "good",
+    ]);
+    expect(store.readOne("services", "bad1")).toBeNull();
+    expect(
+      store.unreadable("services").map((r) => [r.path, r.message]),
+    ).toEqual([
+      [join(root, "services", "bad1.json"), expect.any(String)],
+      [join(root, "services", "bad2.json"), "name must be a string"],
+    ]);
+  });
+
+  test("sets aside trash files it cannot use", () => {
+    const root = join(TEST_DIR, "broken-trash");
+    const store = createFileStore(root);
+    store.writeTrash({
+      collection: "services",
+      record: makeService("good", "checkout"),
+      deletedAt: "2026-01-02T00:00:00Z",
+      deletedBy: "alice",
+    });
+    writeFileSync(join(root, "trash", "services", "bad.json"), "{");
+
+    expect(store.readTrash("services").map((e) => e.record.id)).toEqual([
+      "good",
+    ]);
+    expect(store.unreadable("services")).toEqual([
+      {
+        collection: "services",
+        path: join(root, "trash", "services", "bad.json"),
+        message: expect.any(String),
+        trashed: true,
+      },
+    ]);
+  });
+});
+
+describe("memory backend", () => {
+  test("returns copies, not stored references", () => {
+    const store = createMemoryStore();
+    store.write("services", makeService("s1", "checkout"));
+    const record = store.readOne<Service>("services", "s1");
+    if (record) record.name = "mutated";
+    expect(store.readOne<Service>("services", "s1")?.name).toBe("checkout");
+  });
+});
+
+describe("sqlite backend", () => {
+  test("persists across connections", () => {
+    const path = join(TEST_DIR, "persist.db");
+    createSqliteStore(path).write("services", makeService("s1", "checkout"));
+    const reopened = createSqliteStore(path);
+    expect(reopened.readOne<Service>("services", "s1")?.name).toBe("checkout");
+  });
+});
@@ -0,0 +1,347 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+} from "node:fs";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic.js";
+import { SCHEMA_DIR, schemaFile } from "./schemas.js";
+import type { Collection, HistoryEntry, TrashEntry } from "./types.js";
+import { COLLECTIONS } from "./types.js";
+
+/**
+ * A storage backend for catalog records.
+ * Commands never use a backend directly — they go through store.ts,
+ * which picks the backend named in config.json.
+ */
+export interface CatalogStore {
+  readAll<T>(collection: Collection): T[];
+  readOne<T>(collection: Collection, id: string): T | null;
+  write<T extends { id: string }>(collection: Collection, record: T): void;
+  delete(collection: Collection, id: string): boolean;
+  /** Append to a record's change history. History outlives the record. */
+  appendHistory(collection: Collection, entry: HistoryEntry): void;
+  /**
+   * Change history, oldest first: of one record, or of every record in
+   * the collection (including deleted ones) when id is omitted.
+   */
+  readHistory(collection: Collection, id?: string): HistoryEntry[];
+  /** Keep a removed record in the trash, replacing any earlier entry. */
+  writeTrash(entry: TrashEntry): void;
+  readTrash(collection: Collection): TrashEntry[];
+  deleteTrash(collection: Collection, id: string): boolean;
+  /**
+   * Records readAll and readOne left out because they cannot be used:
+   * a truncated or hand-broken file, or one without a string id or name.
+   * Includes the trash entries readTrash left out, flagged `trashed`.
+   */
+  unreadable(collection: Collection): UnreadableRecord[];
+  /**
+   * Opaque token that changes whenever any record changes.
+   * Used to invalidate caches such as the search index.
+   */
+  revision(): string;
+}
+
+export interface UnreadableRecord {
+  collection: Collection;
+  path: string;
+  message: string;
+  trashed?: boolean; // a trash entry rather than a live record
+}
+
+const HISTORY_DIR = "history";
+const TRASH_DIR = "trash";
+
+// Record files point editors at their schema; records in memory do not
+// carry the reference. Throws when the file cannot be used as a record.
+function parseRecord<T>(content: string): T {
+  const parsed = JSON.parse(content);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Not a JSON object");
+  }
+  const { $schema: _, ...record } = parsed;
+  for (const key of ["id", "name"]) {
+    if (typeof record[key] !== "string") {
+      throw new Error(`${key} must be a string`);
+    }
+  }
+  return record as T;
+}
+
+function tryParseRecord<T>(
+  path: string,
+): { record: T; message?: never } | { record?: never; message: string } {
+  try {
+    return { record: parseRecord<T>(readFileSync(path, "utf-8")) };
+  } catch (err) {
+    return { message: (err as Error).message };
+  }
+}
+
+function parseTrashEntry(content: string): TrashEntry {
+  const parsed = JSON.parse(content);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Not a JSON object");
+  }
+  if (typeof parsed.deletedAt !== "string") {
+    throw new Error("deletedAt must be a string");
+  }
+  const record = parsed.record;
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    throw new Error("record must be an object");
+  }
+  for (const key of ["id", "name"]) {
+    if (typeof record[key] !== "string") {
+      throw new Error(`record.${key} must be a string`);
+    }
+  }
+  return parsed as TrashEntry;
+}
+
+function tryParseTrashEntry(
+  path: string,
+): { entry: TrashEntry; message?: never } | { entry?: never; message: string } {
+  try {
+    return { entry: parseTrashEntry(readFileSync(path, "utf-8")) };
+  } catch (err) {
+    return { message: (err as Error).message };
+  }
+}
+
+function byTime(a: HistoryEntry, b: HistoryEntry): number {
+  return a.at < b.at ? -1 : a.at > b.at ? 1 : 0;
+}
+
+/**
+ * The default backend: one JSON file per record,
+ * at .yellowpages/<collection>/<id>.json, with history as JSON lines at
+ * .yellowpages/history/<collection>/<id>.jsonl.
+ */
+export function createFileStore(root: string): CatalogStore {
+  const readHistoryFile = (path: string): HistoryEntry[] =>
+    readFileSync(path, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          return []; // torn final line from an interrupted append
+        }
+      });
+
+  return {
+    readAll<T>(collection: Collection): T[] {
+      const dir = join(root, collection);
+      if (!existsSync(dir)) return [];
+      const files = readdirSync(dir).filter((f) => f.endsWith(".json"));
+      return files.flatMap((f) => {
+        const { record } = tryParseRecord<T>(join(dir, f));
+        return record ? [record] : [];
+      });
+    },
+
+    readOne<T>(collection: Collection, id: string): T | null {
+      const filePath = join(root, collection, `${id}.json`);
+      if (!existsSync(filePath)) return null;
+      return tryParseRecord<T>(filePath).record ?? null;
+    },
+
+    unreadable(collection: Collection): UnreadableRecord[] {
+      const files = (dir: string) =>
+        existsSync(dir)
+          ? readdirSync(dir)
+              .filter((f) => f.endsWith(".json"))
+              .sort()
+              .map((f) => join(dir, f))
+          : [];
+      return [
+        ...files(join(root, collection)).flatMap((path) => {
+          const { message } = tryParseRecord(path);
+          return message ? [{ collection, path, message }] : [];
+        }),
+        ...files(join(root, TRASH_DIR, collection)).flatMap((path) => {
+          const { message } = tryParseTrashEntry(path);
+          return message ? [{ collection, path, message, trashed: true }] : [];
+        }),
+      ];
+    },
+
+    write<T extends { id: string }>(collection: Collection, record: T): void {
+      const dir = join(root, collection);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const $schema = `../${SCHEMA_DIR}/${schemaFile(collection)}`;
+      writeFileAtomic(
+        join(dir, `${record.id}.json`),
+        `${JSON.stringify({ $schema, ...record }, null, 2)}\n`,
+      );
+    },
+
+    delete(collection: Collection, id: string): boolean {
+      const filePath = join(root, collection, `${id}.json`);
+      if (!existsSync(filePath)) return false;
+      unlinkSync(filePath);
+      return true;
+    },
+
+    appendHistory(collection: Collection, entry: HistoryEntry): void {
+      const dir = join(root, HISTORY_DIR, collection);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      appendFileSync(
+        join(dir, `${entry.id}.jsonl`),
+        `${JSON.stringify(entry)}\n`,
+      );
+    },
+
+    readHistory(collection: Collection, id?: string): HistoryEntry[] {
+      const dir = join(root, HISTORY_DIR, collection);
+      if (id !== undefined) {
+        const path = join(dir, `${id}.jsonl`);
+        return existsSync(path) ? readHistoryFile(path) : [];
+      }
+      if (!existsSync(dir)) return [];
+      return readdirSync(dir)
+        .filter((f) => f.endsWith(".jsonl"))
+        .flatMap((f) => readHistoryFile(join(dir, f)))
+        .sort(byTime);
+    },
+
+    writeTrash(entry: TrashEntry): void {
+      const dir = join(root, TRASH_DIR, entry.collection);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      writeFileAtomic(
+        join(dir, `${entry.record.id}.json`),
+        `${JSON.stringify(entry, null, 2)}\n`,
+      );
+    },
+
+    readTrash(collection: Collection): TrashEntry[] {
+      const dir = join(root, TRASH_DIR, collection);
+      if (!existsSync(dir)) return [];
+      return readdirSync(dir)
+        .filter((f) => f.endsWith(".json"))
+        .flatMap((f) => {
+          const { entry } = tryParseTrashEntry(join(dir, f));
+          return entry ? [entry] : [];
+        });
+    },
+
+    deleteTrash(collection: Collection, id: string): boolean {
+      const filePath = join(root, TRASH_DIR, collection, `${id}.json`);
+      if (!existsSync(filePath)) return false;
+      unlinkSync(filePath);
+      return true;
+    },
+
+    // Hash of all record files' mtimes + sizes
+    revision(): string {
+      const parts: string[] = [];
+      for (const collection of COLLECTIONS) {
+        const dir = join(root, collection);
+        if (!existsSync(dir)) continue;
+        const files = readdirSync(dir)
+          .filter((f) => f.endsWith(".json"))
+          .sort();
+        for (const file of files) {
+          const stat = statSync(join(dir, file));
+          parts.push(`${collection}/${file}:${stat.mtimeMs}:${stat.size}`);
+        }
+      }
+      return parts.join("|");
+    },
+  };
+}
+
+/**
+ * Process-local backend for tests. Records are copied on the way in and
+ * out, so callers cannot mutate stored state by accident.
+ */
+export function createMemoryStore(): CatalogStore {
+  const data = new Map<Collection, Map<string, unknown>>();
+  const history: { collection: Collection; entry: HistoryEntry }[] = [];
+  const trash = new Map<string, TrashEntry>(); // keyed by collection/id
+  const instance = Math.random().toString(36).slice(2);
+  let revision = 0;
+
+  const collectionMap = (collection: Collection) => {
+    let map = data.get(collection);
+    if (!map) {
+      map = new Map();
+      data.set(collection, map);
+    }
+    return map;
+  };
+
+  return {
+    readAll<T>(collection: Collection): T[] {
+      return [...collectionMap(collection).entries()]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([, record]) => structuredClone(record) as T);
+    },
+
+    readOne<T>(collection: Collection, id: string): T | null {
+      const record = collectionMap(collection).get(id);
+      return record === undefined ? null : (structuredClone(record) as T);
+    },
+
+    write<T extends { id: string }>(collection: Collection, record: T): void {
+      // Round-trip through JSON so undefined fields vanish, as on disk
+      collectionMap(collection).set(
+        record.id,
+        JSON.parse(JSON.stringify(record)),
+      );
+      revision++;
+    },
+
+    delete(collection: Collection, id: string): boolean {
+      const deleted = collectionMap(collection).delete(id);
+      if (deleted) revision++;
+      return deleted;
+    },
+
+    appendHistory(collection: Collection, entry: HistoryEntry): void {
+      history.push({ collection, entry: structuredClone(entry) });
+    },
+
+    readHistory(collection: Collection, id?: string): HistoryEntry[] {
+      return history
+        .filter(
+          (h) =>
+            h.collection === collection &&
+            (id === undefined || h.entry.id === id),
+        )
+        .map((h) => structuredClone(h.entry));
+    },
+
+    writeTrash(entry: TrashEntry): void {
+      trash.set(
+        `${entry.collection}/${entry.record.id}`,
+        JSON.parse(JSON.stringify(entry)),
+      );
+    },
+
+    readTrash(collection: Collection): TrashEntry[] {
+      return [...trash.values()]
+        .filter((e) => e.collection === collection)
+        .map((e) => structuredClone(e));
+    },
+
+    deleteTrash(collection: Collection, id: string): boolean {
+      return trash.delete(`${collection}/${id}`);
+    },
+
+    // Records are written through this store only, never by hand
+    unreadable(): UnreadableRecord[] {
+      return [];
+    },
+
+    revision(): string {
+      return `memory:${instance}:${revision}`;
+    },
+  };
+}
@@ -0,0 +1,262 @@
+import { Command } from "commander";
+import { matchApis } from "../embedded.js";
+import { sourceOf } from "../federation.js";
+import {
+  ApiSpecError,
+  type ApiSpecSummary,
+  loadApiSpec,
+  operationLabel,
+} from "../openapi.js";
+import {
+  catalogIndex,
+  loadCatalog,
+  resolveApi,
+  resolveCatalogId,
+} from "../relations.js";
+import { requireRoot } from "../store.js";
+import type { Service } from "../types.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, bullet, dim, error, output } from "../utils/output.js";
+import { addRemoveCommand } from "./remove.js";
+
+function getOutputOptions(cmd: Command): OutputOptions {
+  const root = cmd.optsWithGlobals();
+  return { json: root.json, quiet: root.quiet };
+}
+
+export const apiCommand = new Command("api").description(
+  "Inspect the APIs services provide and who consumes them (add them with `yp service api-add`)",
+);
+
+// --- list ---
+apiCommand
+  .command("list")
+  .option("--provider <id-or-name>", "Filter by providing service")
+  .option("--owner <id-or-name>", "Filter by owner")
+  .option("--type <type>", "Filter by type")
+  .option("--lifecycle <stage>", "Filter by lifecycle")
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+    const catalog = loadCatalog(root);
+    const index = catalogIndex(catalog);
+
+    let apis = catalog.apis;
+    if (opts.provider) {
+      const providerId = resolveCatalogId(catalog, "services", opts.provider);
+      apis = apis.filter((a) => a.provider === providerId);
+    }
+    if (opts.owner) {
+      const ownerId = resolveCatalogId(catalog, "owners", opts.owner);
+      apis = apis.filter((a) => a.owner === ownerId);
+    }
+    if (opts.type) {
+      apis = apis.filter((a) => a.type === opts.type);
+    }
+    if (opts.lifecycle) {
+      apis = apis.filter((a) => a.lifecycle === opts.lifecycle);
+    }
+
+    output(options, {
+      json: () => ({ apis }),
+      human: () => {
+        if (apis.length === 0) {
+          console.log(dim("No APIs found."));
+          return;
+        }
+        for (const a of apis) {
+          const provider = a.provider
+            ? (index.get<Service>("services", a.provider)?.name ?? a.provider)
+            : "third-party";
+          const parts = [bold(a.name), dim(a.id), dim(`[${a.type}]`)];
+          if (a.lifecycle) parts.push(dim(`[${a.lifecycle}]`));
+          parts.push(dim(`by ${provider}`));
+          if (sourceOf(a)) parts.push(dim(`from ${sourceOf(a)}`));
+          bullet(parts.join("  "));
+          if (a.description) console.log(`    ${dim(a.description)}`);
+        }
+      },
+    });
+  });
+
+// --- show ---
+apiCommand
+  .command("show <id-or-name>")
+  .action((idOrName: string, _opts: unknown, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "apis", idOrName);
+    const resolved = resolveApi(id, catalog);
+
+    if (!resolved) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`API not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const { api, provider, owner, responsible, consumers } = resolved;
+
+    output(options, {
+      json: () => ({
+        api,
+        provider,
+        owner,
+        responsible: responsible
+          ? {
+              id: responsible.owner.id,
+              name: responsible.owner.name,
+              via: responsible.via,
+            }
+          : null,
+        consumers: consumers.map((c) => ({
+          id: c.service.id,
+          name: c.service.name,
+          description: c.description,
+        })),
+      }),
+      human: () => {
+        console.log();
+        console.log(bold(api.name), dim(api.id));
+        if (api.description) console.log(dim(api.description));
+        console.log();
+        console.log(`  Type:      ${api.type}`);
+        console.log(
+          `  Provider:  ${provider?.name ?? api.provider ?? "third-party"}`,
+        );
+        if (responsible) {
+          console.log(
+            `  Owner:     ${responsible.owner.name}${responsible.via === "provider" ? dim(" (owner of the provider)") : ""}`,
+          );
+        } else if (api.owner) {
+          console.log(`  Owner:     ${api.owner}`);
+        }
+        if (api.lifecycle) console.log(`  Lifecycle: ${api.lifecycle}`);
+        if (api.spec) console.log(`  Spec:      ${api.spec}`);
+        if (api.aliases?.length)
+          console.log(`  Aliases:   ${api.aliases.join(", ")}`);
+        if (sourceOf(api))
+          console.log(`  Source:    ${sourceOf(api)} (read-only)`);
+
+        console.log();
+        if (consumers.length === 0) {
+          console.log(dim("  No services consume this API"));
+        } else {
+          console.log(bold("  Consumers"));
+          for (const c of consumers) {
+            console.log(
+              `    ← ${c.service.name}${c.description ? ` — ${c.description}` : ""}`,
+            );
+          }
+        }
+
+        console.log();
+      },
+    });
+  });
+
+// --- inspect ---
+apiCommand
+  .command("inspect <service-id-or-name> <api-id-or-name>")
+  .description("Read the OpenAPI or Swagger spec of an API")
+  .action(
+    (
+      serviceIdOrName: string,
+      apiIdOrName: string,
+      _opts: unknown,
+      cmd: Command,
+    ) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      const catalog = loadCatalog(root);
+      const serviceId = resolveCatalogId(catalog, "services", serviceIdOrName);
+      const service = catalogIndex(catalog).get<Service>("services", serviceId);
+      if (!service) {
+        output(options, {
+          json: () => ({ success: false, error: "service_not_found" }),
+          human: () => error(`Service not found: ${serviceIdOrName}`),
+        });
+        process.exit(1);
+      }
+
+      // API names are only unique within their provider
+      const provided = catalog.apis.filter((a) => a.provider === service.id);
+      const matches = matchApis(provided, apiIdOrName);
+      if (matches.length !== 1) {
+        const ambiguous = matches.length > 1;
+        output(options, {
+          json: () => ({
+            success: false,
+            error: ambiguous ? "ambiguous" : "api_not_found",
+            matches: matches.map((i) => provided[i]),
+          }),
+          human: () =>
+            error(
+              ambiguous
+                ? `Ambiguous API "${apiIdOrName}" matches ${matches.length} APIs of ${service.name}`
+                : `${service.name} provides no API matching: ${apiIdOrName}`,
+            ),
+        });
+        process.exit(ambiguous ? EXIT_USER_ERROR : 1);
+      }
+      const api = provided[matches[0]];
+
+      let spec: ApiSpecSummary;
+      try {
+        spec = loadApiSpec(root, api);
+      } catch (err) {
+        if (!(err instanceof ApiSpecError)) throw err;
+        output(options, {
+          json: () => ({
+            success: false,
+            error: `spec_${err.reason}`,
+            message: err.message,
+          }),
+          human: () => error(err.message),
+        });
+        process.exit(1);
+      }
+
+      output(options, {
+        json: () => ({ api, spec }),
+        human: () => {
+          console.log();
+          console.log(
+            bold(spec.title ?? api.name),
+            spec.version ? dim(spec.version) : "",
+          );
+          console.log(
+            dim(
+              `${spec.format === "openapi" ? "OpenAPI" : "Swagger"} ${spec.formatVersion} · ${api.spec}`,
+            ),
+          );
+          if (spec.servers.length > 0) {
+            console.log();
+            console.log(bold("  Servers"));
+            for (const url of spec.servers) console.log(`    ${url}`);
+          }
+          console.log();
+          if (spec.operations.length === 0) {
+            console.log(dim("  No operations"));
+          } else {
+            console.log(bold("  Operations"));
+            for (const op of spec.operations) {
+              const parts = [operationLabel(op)];
+              if (op.operationId) parts.push(dim(op.operationId));
+              if (op.summary) parts.push(dim(`— ${op.summary}`));
+              console.log(`    ${parts.join("  ")}`);
+            }
+          }
+          console.log();
+        },
+      });
+    },
+  );
+
+// --- rm ---
+addRemoveCommand(apiCommand, "apis");
@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from "node:fs";
+import { withLock } from "../atomic.js";
+import { type PlannedChange, parseManifest, planApply } from "../manifest.js";
+import { loadLocalCatalog } from "../relations.js";
+import { readConfig, requireRoot, trashRecord, writeRecord } from "../store.js";
+import { KIND_LABELS } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import {
+  bold,
+  dim,
+  error,
+  hint,
+  info,
+  output,
+  success,
+  warn,
+} from "../utils/output.js";
+
+interface ApplyOptions extends OutputOptions {
+  file?: string;
+  prune?: boolean;
+  dryRun?: boolean;
+}
+
+function summarize(change: PlannedChange) {
+  return {
+    kind: KIND_LABELS[change.collection],
+    id: change.record.id,
+    name: change.record.name,
+    ...(change.fields ? { fields: change.fields } : {}),
+  };
+}
+
+export async function apply(
+  _args: string[],
+  options: ApplyOptions,
+): Promise<void> {
+  const root = requireRoot();
+  const file = options.file as string;
+
+  if (file !== "-" && !existsSync(file)) {
+    output(options, {
+      json: () => ({ success: false, error: "file_not_found" }),
+      human: () => error(`Manifest not found: ${file}`),
+    });
+    process.exit(1);
+  }
+
+  const content = readFileSync(file === "-" ? 0 : file, "utf-8");
+  const { manifest, errors: parseErrors } = parseManifest(content, file);
+  if (parseErrors.length > 0) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "invalid_manifest",
+        errors: parseErrors,
+      }),
+      human: () => {
+        error(`Invalid manifest ${file}:`);
+        for (const e of parseErrors) console.log(`    ${e}`);
+      },
+    });
+    process.exit(1);
+  }
+
+  // Plan under the lock, so the catalog cannot change before it is written
+  const plan = withLock(root, () => {
+    const plan = planApply(manifest, loadLocalCatalog(root), {
+      prune: options.prune,
+      customFields: readConfig(root).customFields,
+    });
+    if (plan.errors.length > 0) {
+      output(options, {
+        json: () => ({
+          success: false,
+          error: "invalid_manifest",
+          errors: plan.errors,
+        }),
+        human: () => {
+          error(`Manifest ${file} cannot be applied:`);
+          for (const e of plan.errors) console.log(`    ${e}`);
+        },
+      });
+      process.exit(1);
+    }
+
+    // Pruning must not leave references dangling, as rm would not
+    if (plan.referenced.length > 0) {
+      output(options, {
+        json: () => ({
+          success: false,
+          error: "referenced",
+          referenced: plan.referenced.map(({ change, references }) => ({
+            ...summarize(change),
+            references,
+          })),
+        }),
+        human: () => {
+          for (const { change, references } of plan.referenced) {
+            error(
+              `Cannot prune ${KIND_LABELS[change.collection]} ${bold(change.record.name)}: still referenced by ${references.length} record(s):`,
+            );
+            for (const r of references) {
+              console.log(`    ${r.kind} ${r.name}  ${dim(r.field)}`);
+            }
+          }
+          hint(
+            `Keep them in ${file}, or remove them first with rm --reassign or --cascade`,
+          );
+        },
+      });
+      process.exit(1);
+    }
+
+    if (!options.dryRun) {
+      for (const c of [...plan.create, ...plan.update]) {
+        writeRecord(root, c.collection, c.record);
+      }
+      for (const c of plan.delete) {
+        trashRecord(root, c.collection, c.record.id);
+      }
+    }
+    return plan;
+  });
+
+  const total = plan.create.length + plan.update.length + plan.delete.length;
+
+  output(options, {
+    json: () => ({
+      success: true,
+      dryRun: options.dryRun ?? false,
+      created: plan.create.map(summarize),
+      updated: plan.update.map(summarize),
+      deleted: plan.delete.map(summarize),
+      unchanged: plan.unchanged,
+    }),
+    human: () => {
+      if (total === 0) {
+        info(`Catalog already matches ${file} (${plan.unchanged} unchanged)`);
+        return;
+      }
+      console.log();
+      for (const c of plan.create) {
+        console.log(`  + ${KIND_LABELS[c.collection]} ${bold(c.record.name)}`);
+      }
+      for (const c of plan.update) {
+        console.log(
+          `  ~ ${KIND_LABELS[c.collection]} ${bold(c.record.name)}  ${dim((c.fields ?? []).join(", "))}`,
+        );
+      }
+      for (const c of plan.delete) {
+        console.log(
+          `  - ${KIND_LABELS[c.collection]} ${bold(c.record.name)}  ${dim(c.record.id)}`,
+        );
+      }
+      console.log();
+      const counts = `${plan.create.length} to create, ${plan.update.length} to update, ${plan.delete.length} to delete, ${plan.unchanged} unchanged`;
+      if (options.dryRun) {
+        info(counts);
+        warn("Dry run — no changes made. Remove --dry-run to apply.");
+      } else {
+        success(
+          `Applied ${file}: ${plan.create.length} created, ${plan.update.length} updated, ${plan.delete.length} deleted`,
+        );
+      }
+    },
+  });
+}
@@ -1,5 +1,11 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdirSync, rmSync } from "node:fs";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
 import { join } from "node:path";
 
 const TEST_DIR = join(import.meta.dir, "..", "..", ".test-cli-tmp");
@@ -44,6 +50,25 @@ describe("init", () => {
     expect(data.success).toBe(true);
     expect(data.created).toBe(false);
   });
+
+  test("--storage sqlite keeps records in one database file", () => {
+    rmSync(join(TEST_DIR, ".yellowpages"), { recursive: true, force: true });
+    const { data } = runJson("init", "--storage", "sqlite");
+    expect(data.created).toBe(true);
+
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.owner.name).toBe("platform");
+    expect(existsSync(join(TEST_DIR, ".yellowpages", "catalog.db"))).toBe(true);
+    expect(existsSync(join(TEST_DIR, ".yellowpages", "services"))).toBe(false);
+  });
+
+  test("--storage rejects unknown backends", () => {
+    rmSync(join(TEST_DIR, ".yellowpages"), { recursive: true, force: true });
+    const { exitCode } = run("init", "--storage", "mongo");
+    expect(exitCode).not.toBe(0);
+  });
 });
 
 // --- owner ---
@@ -135,6 +160,100 @@ describe("owner", () => {
     expect(people.owners).toHaveLength(1);
     expect(people.owners[0].name).toBe("alice");
   });
+
+  test("update patches fields in place", () => {
+    const { data: added } = runJson(
+      "owner",
+      "add",
+      "--name",
+      "platform",
+      "--type",
+      "team",
+      "--email",
+      "old@co.com",
+    );
+    const { data } = runJson(
+      "owner",
+      "update",
+      "platform",
+      "--slack",
+      "#platform",
+      "--clear",
+      "email",
+    );
+    expect(data.success).toBe(true);
+    expect(data.changed).toBe(true);
+    expect(data.owner.id).toBe(added.owner.id);
+    expect(data.owner.slack).toBe("#platform");
+    expect(data.owner.email).toBeUndefined();
+  });
+
+  test("update nonexistent fails", () => {
+    const { exitCode } = run("owner", "update", "ghost", "--slack", "#x");
+    expect(exitCode).not.toBe(0);
+  });
+
+  test("rm refuses while owner is referenced", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("system", "add", "--name", "payments", "--owner", "platform");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+
+    const { data, exitCode } = runJson("owner", "rm", "platform");
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("referenced");
+    expect(data.references).toHaveLength(2);
+
+    const { data: list } = runJson("owner", "list");
+    expect(list.owners).toHaveLength(1);
+  });
+
+  test("rm --reassign moves references to another owner", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    const { data: infra } = runJson(
+      "owner",
+      "add",
+      "--name",
+      "infra",
+      "--type",
+      "team",
+    );
+    runJson("system", "add", "--name", "payments", "--owner", "platform");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+
+    const { data } = runJson("owner", "rm", "platform", "--reassign", "infra");
+    expect(data.success).toBe(true);
+    expect(data.reassignedTo).toBe(infra.owner.id);
+
+    const { data: shown } = runJson("owner", "show", "infra");
+    expect(shown.services).toHaveLength(1);
+    expect(shown.systems).toHaveLength(1);
+  });
+
+  test("rm --cascade clears references", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+
+    const { data } = runJson("owner", "rm", "platform", "--cascade");
+    expect(data.success).toBe(true);
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.owner).toBeUndefined();
+    const { data: lint } = runJson("lint");
+    expect(lint.errors).toBe(0);
+  });
+
+  test("rm --reassign to unknown owner fails", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    const { data, exitCode } = runJson(
+      "owner",
+      "rm",
+      "platform",
+      "--reassign",
+      "ghost",
+    );
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("reassign_target_not_found");
+  });
 });
 
 // --- system ---
@@ -180,6 +299,56 @@ describe("system", () => {
     const { data: list } = runJson("system", "list");
     expect(list.systems).toHaveLength(0);
   });
+
+  test("update moves system to another owner", () => {
+    runJson("owner", "add", "--name", "team-a", "--type", "team");
+    const { data: teamB } = runJson(
+      "owner",
+      "add",
+      "--name",
+      "team-b",
+      "--type",
+      "team",
+    );
+    runJson("system", "add", "--name", "payments", "--owner", "team-a");
+    const { data } = runJson(
+      "system",
+      "update",
+      "payments",
+      "--owner",
+      "team-b",
+      "--description",
+      "Money",
+    );
+    expect(data.system.owner).toBe(teamB.owner.id);
+    expect(data.system.description).toBe("Money");
+  });
+
+  test("update rejects unknown --clear fields", () => {
+    runJson("system", "add", "--name", "payments");
+    const { data, exitCode } = runJson(
+      "system",
+      "update",
+      "payments",
+      "--clear",
+      "id",
+    );
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("invalid_arguments");
+  });
+
+  test("rm refuses while system has services, --cascade unassigns them", () => {
+    runJson("system", "add", "--name", "payments");
+    runJson("service", "add", "--name", "checkout", "--system", "payments");
+
+    const { exitCode } = run("system", "rm", "payments");
+    expect(exitCode).not.toBe(0);
+
+    const { data } = runJson("system", "rm", "payments", "--cascade");
+    expect(data.success).toBe(true);
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.system).toBeUndefined();
+  });
 });
 
 // --- service ---
@@ -281,6 +450,51 @@ describe("service", () => {
     expect(list.services).toHaveLength(0);
   });
 
+  test("rm refuses while service has dependents", () => {
+    runJson("service", "add", "--name", "auth");
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "dep-add", "gateway", "--on", "auth");
+
+    const { data, exitCode } = runJson("service", "rm", "auth");
+    expect(exitCode).not.toBe(0);
+    expect(data.references[0].name).toBe("gateway");
+    expect(data.references[0].field).toBe("dependsOn");
+  });
+
+  test("rm --reassign repoints dependents", () => {
+    runJson("service", "add", "--name", "auth");
+    runJson("service", "add", "--name", "auth-v2");
+    runJson("service", "add", "--name", "gateway");
+    const { data: added } = runJson(
+      "service",
+      "api-add",
+      "auth",
+      "--name",
+      "OAuth",
+      "--type",
+      "rest",
+    );
+    runJson("service", "dep-add", "gateway", "--on", "auth", "--api", "OAuth");
+
+    runJson("service", "rm", "auth", "--reassign", "auth-v2");
+    const { data } = runJson("deps", "auth-v2");
+    expect(data.dependents).toHaveLength(1);
+    expect(data.dependents[0].api).toBeUndefined();
+
+    // The API went to the trash with the service that provides it
+    expect(runJson("api", "show", added.api.id).exitCode).toBe(1);
+  });
+
+  test("rm --cascade drops dependencies on the service", () => {
+    runJson("service", "add", "--name", "auth");
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "dep-add", "gateway", "--on", "auth");
+
+    runJson("service", "rm", "auth", "--cascade");
+    const { data } = runJson("service", "show", "gateway");
+    expect(data.service.dependsOn).toEqual([]);
+  });
+
   test("list filters by system", () => {
     runJson("system", "add", "--name", "payments");
     runJson("system", "add", "--name", "identity");
@@ -323,7 +537,7 @@ describe("service", () => {
   });
 
   test("api-add adds API to service", () => {
-    runJson("service", "add", "--name", "checkout");
+    const { data: checkout } = runJson("service", "add", "--name", "checkout");
     const { data } = runJson(
       "service",
       "api-add",
@@ -336,9 +550,9 @@ describe("service", () => {
       "Public endpoints",
     );
     expect(data.success).toBe(true);
-    expect(data.service.apis).toHaveLength(1);
-    expect(data.service.apis[0].name).toBe("REST API");
-    expect(data.service.apis[0].type).toBe("rest");
+    expect(data.api.name).toBe("REST API");
+    expect(data.api.type).toBe("rest");
+    expect(data.api.provider).toBe(checkout.service.id);
   });
 
   test("api-add to nonexistent service fails", () => {
@@ -397,7 +611,10 @@ describe("service", () => {
     );
 
     const { data } = runJson("service", "show", "gateway");
-    expect(data.service.apis).toHaveLength(2);
+    expect(data.apis.map((a: { name: string }) => a.name).sort()).toEqual([
+      "REST",
+      "gRPC",
+    ]);
   });
 
   test("multiple deps on same service", () => {
@@ -410,100 +627,420 @@ describe("service", () => {
     const { data } = runJson("service", "show", "gateway");
     expect(data.service.dependsOn).toHaveLength(2);
   });
-});
-
-// --- search ---
 
-describe("search", () => {
-  test("finds service by name", () => {
+  test("api-rm removes an API by name", () => {
+    runJson("service", "add", "--name", "gateway");
     runJson(
       "service",
-      "add",
+      "api-add",
+      "gateway",
       "--name",
-      "checkout-api",
-      "--description",
-      "Handles checkout",
+      "REST",
+      "--type",
+      "rest",
     );
-    const { data } = runJson("search", "checkout");
-    expect(data.count).toBe(1);
-    expect(data.results[0].name).toBe("checkout-api");
+    runJson(
+      "service",
+      "api-add",
+      "gateway",
+      "--name",
+      "gRPC",
+      "--type",
+      "grpc",
+    );
+    const { data } = runJson("service", "api-rm", "gateway", "--name", "rest");
+    expect(data.success).toBe(true);
+    expect(data.removed.name).toBe("REST");
+    const { data: shown } = runJson("service", "show", "gateway");
+    expect(shown.apis).toHaveLength(1);
+    expect(shown.apis[0].name).toBe("gRPC");
   });
 
-  test("finds service by description", () => {
-    runJson(
+  test("api-rm unknown API fails", () => {
+    runJson("service", "add", "--name", "gateway");
+    const { data, exitCode } = runJson(
       "service",
-      "add",
+      "api-rm",
+      "gateway",
       "--name",
-      "pay-svc",
-      "--description",
-      "Processes payments via Stripe",
+      "nope",
     );
-    const { data } = runJson("search", "stripe");
-    expect(data.count).toBe(1);
-    expect(data.results[0].name).toBe("pay-svc");
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("api_not_found");
   });
 
-  test("finds system by name", () => {
+  test("api-update changes type, spec and description", () => {
+    runJson("service", "add", "--name", "gateway");
     runJson(
-      "system",
-      "add",
+      "service",
+      "api-add",
+      "gateway",
       "--name",
-      "payments",
+      "Public",
+      "--type",
+      "rest",
       "--description",
-      "Money stuff",
+      "old",
     );
-    const { data } = runJson("search", "payments");
-    expect(data.count).toBeGreaterThanOrEqual(1);
-    expect(
-      data.results.some((r: Record<string, unknown>) => r.kind === "system"),
-    ).toBe(true);
-  });
-
-  test("--kind filters to specific entity type", () => {
-    runJson("service", "add", "--name", "payments-svc");
-    runJson("system", "add", "--name", "payments");
-    const { data } = runJson("search", "payments", "--kind", "system");
-    expect(
-      data.results.every((r: Record<string, unknown>) => r.kind === "system"),
-    ).toBe(true);
+    const { data } = runJson(
+      "service",
+      "api-update",
+      "gateway",
+      "--name",
+      "Public",
+      "--type",
+      "graphql",
+      "--spec",
+      "./schema.graphql",
+      "--clear",
+      "description",
+    );
+    expect(data.success).toBe(true);
+    expect(data.api).toEqual({
+      id: expect.any(String),
+      name: "Public",
+      type: "graphql",
+      provider: expect.any(String),
+      spec: "./schema.graphql",
+      created: expect.any(String),
+      updated: expect.any(String),
+    });
   });
 
-  test("--unowned finds services without owner", () => {
-    runJson("owner", "add", "--name", "team-a", "--type", "team");
-    runJson("service", "add", "--name", "owned-svc", "--owner", "team-a");
-    runJson("service", "add", "--name", "orphan-svc");
-    const { data } = runJson("search", "--unowned");
-    expect(data.count).toBe(1);
-    expect(data.results[0].name).toBe("orphan-svc");
+  test("api-update refuses ambiguous names", () => {
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "api-add", "gateway", "--name", "API", "--type", "rest");
+    runJson("service", "api-add", "gateway", "--name", "api", "--type", "grpc");
+    const { data, exitCode } = runJson(
+      "service",
+      "api-update",
+      "gateway",
+      "--name",
+      "API",
+      "--type",
+      "other",
+    );
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("ambiguous");
+    expect(data.matches).toHaveLength(2);
   });
 
-  test("--lifecycle filters services", () => {
-    runJson("service", "add", "--name", "old", "--lifecycle", "deprecated");
-    runJson("service", "add", "--name", "new", "--lifecycle", "production");
-    const { data } = runJson("search", "--lifecycle", "deprecated");
-    expect(data.count).toBe(1);
-    expect(data.results[0].name).toBe("old");
-  });
+  test("dep-rm removes a dependency by target name", () => {
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "add", "--name", "auth");
+    runJson("service", "add", "--name", "payments");
+    runJson("service", "dep-add", "gateway", "--on", "auth");
+    runJson("service", "dep-add", "gateway", "--on", "payments");
+    const { data } = runJson("service", "dep-rm", "gateway", "--on", "auth");
+    expect(data.success).toBe(true);
+    expect(data.service.dependsOn).toHaveLength(1);
 
-  test("returns empty results for no match", () => {
-    runJson("service", "add", "--name", "checkout");
-    const { data } = runJson("search", "xyznonexistent");
-    expect(data.count).toBe(0);
+    const { data: deps } = runJson("deps", "auth");
+    expect(deps.dependents).toEqual([]);
   });
 
-  test("rebuilds index after adding new entity", () => {
-    runJson("service", "add", "--name", "first-svc");
-    runJson("search", "first"); // prime the index
+  test("dep-rm refuses ambiguous matches unless narrowed by --api", () => {
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "add", "--name", "payments");
+    const { data: rest } = runJson(
+      "service",
+      "api-add",
+      "payments",
+      "--name",
+      "REST",
+      "--type",
+      "rest",
+    );
     runJson(
       "service",
-      "add",
+      "api-add",
+      "payments",
       "--name",
-      "second-svc",
-      "--description",
-      "Brand new",
+      "Events",
+      "--type",
+      "event",
     );
-    const { data } = runJson("search", "brand new");
-    expect(data.count).toBeGreaterThanOrEqual(1);
+    runJson(
+      "service",
+      "dep-add",
+      "gateway",
+      "--on",
+      "payments",
+      "--api",
+      "REST",
+    );
+    runJson(
+      "service",
+      "dep-add",
+      "gateway",
+      "--on",
+      "payments",
+      "--api",
+      "Events",
+    );
+
+    const { data: ambiguous, exitCode } = runJson(
+      "service",
+      "dep-rm",
+      "gateway",
+      "--on",
+      "payments",
+    );
+    expect(exitCode).toBe(2);
+    expect(ambiguous.error).toBe("ambiguous");
+
+    const { data } = runJson(
+      "service",
+      "dep-rm",
+      "gateway",
+      "--on",
+      "payments",
+      "--api",
+      "events",
+    );
+    expect(data.success).toBe(true);
+    expect(data.service.dependsOn).toEqual([
+      { service: expect.any(String), api: rest.api.id },
+    ]);
+  });
+
+  test("dep-update repoints and edits a dependency", () => {
+    runJson("service", "add", "--name", "gateway");
+    runJson("service", "add", "--name", "payments");
+    const { data: v2 } = runJson("service", "add", "--name", "payments-v2");
+    runJson(
+      "service",
+      "api-add",
+      "payments",
+      "--name",
+      "REST",
+      "--type",
+      "rest",
+    );
+    runJson(
+      "service",
+      "dep-add",
+      "gateway",
+      "--on",
+      "payments",
+      "--api",
+      "REST",
+    );
+    const { data } = runJson(
+      "service",
+      "dep-update",
+      "gateway",
+      "--on",
+      "payments",
+      "--to",
+      "payments-v2",
+      "--description",
+      "Charges cards",
+      "--clear",
+      "api",
+    );
+    expect(data.success).toBe(true);
+    expect(data.dependency).toEqual({
+      service: v2.service.id,
+      description: "Charges cards",
+    });
+  });
+
+  test("dep-update unknown dependency fails", () => {
+    runJson("service", "add", "--name", "gateway");
+    const { data, exitCode } = runJson(
+      "service",
+      "dep-update",
+      "gateway",
+      "--on",
+      "ghost",
+      "--description",
+      "x",
+    );
+    expect(exitCode).not.toBe(0);
+    expect(data.error).toBe("dependency_not_found");
+  });
+
+  test("update keeps id and created, bumps updated", () => {
+    const { data: added } = runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout",
+      "--description",
+      "Handles chekout",
+    );
+    const { data } = runJson(
+      "service",
+      "update",
+      "checkout",
+      "--description",
+      "Handles checkout",
+    );
+    expect(data.changed).toBe(true);
+    expect(data.service.id).toBe(added.service.id);
+    expect(data.service.created).toBe(added.service.created);
+    expect(data.service.updated >= added.service.updated).toBe(true);
+    expect(data.service.description).toBe("Handles checkout");
+  });
+
+  test("update preserves dependents after rename", () => {
+    runJson("service", "add", "--name", "payment-api");
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "dep-add", "checkout", "--on", "payment-api");
+    runJson("service", "update", "payment-api", "--name", "payments-gateway");
+
+    const { data } = runJson("deps", "payments-gateway");
+    expect(data.dependents).toHaveLength(1);
+    expect(data.dependents[0].name).toBe("checkout");
+  });
+
+  test("update changes owner and clears lifecycle", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("service", "add", "--name", "svc", "--lifecycle", "production");
+    const { data } = runJson(
+      "service",
+      "update",
+      "svc",
+      "--owner",
+      "platform",
+      "--clear",
+      "lifecycle",
+    );
+    expect(data.service.owner).toBeTruthy();
+    expect(data.service.lifecycle).toBeUndefined();
+  });
+
+  test("update adds and removes tags and custom keys", () => {
+    runJson("service", "add", "--name", "svc", "--tag", "backend", "legacy");
+    runJson("service", "update", "svc", "--set", "tier=1", "region=eu");
+    const { data } = runJson(
+      "service",
+      "update",
+      "svc",
+      "--add-tag",
+      "critical",
+      "--rm-tag",
+      "legacy",
+      "--unset",
+      "region",
+    );
+    expect(data.service.tags).toEqual(["backend", "critical"]);
+    expect(data.service.custom).toEqual({ tier: "1" });
+  });
+
+  test("update with no changes reports unchanged", () => {
+    runJson("service", "add", "--name", "svc", "--description", "same");
+    const { data } = runJson(
+      "service",
+      "update",
+      "svc",
+      "--description",
+      "same",
+    );
+    expect(data.success).toBe(true);
+    expect(data.changed).toBe(false);
+  });
+
+  test("update rejects malformed --set", () => {
+    runJson("service", "add", "--name", "svc");
+    const { exitCode } = run("service", "update", "svc", "--set", "novalue");
+    expect(exitCode).not.toBe(0);
+  });
+});
+
+// --- search ---
+
+describe("search", () => {
+  test("finds service by name", () => {
+    runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout-api",
+      "--description",
+      "Handles checkout",
+    );
+    const { data } = runJson("search", "checkout");
+    expect(data.count).toBe(1);
+    expect(data.results[0].name).toBe("checkout-api");
+  });
+
+  test("finds service by description", () => {
+    runJson(
+      "service",
+      "add",
+      "--name",
+      "pay-svc",
+      "--description",
+      "Processes payments via Stripe",
+    );
+    const { data } = runJson("search", "stripe");
+    expect(data.count).toBe(1);
+    expect(data.results[0].name).toBe("pay-svc");
+  });
+
+  test("finds system by name", () => {
+    runJson(
+      "system",
+      "add",
+      "--name",
+      "payments",
+      "--description",
+      "Money stuff",
+    );
+    const { data } = runJson("search", "payments");
+    expect(data.count).toBeGreaterThanOrEqual(1);
+    expect(
+      data.results.some((r: Record<string, unknown>) => r.kind === "system"),
+    ).toBe(true);
+  });
+
+  test("--kind filters to specific entity type", () => {
+    runJson("service", "add", "--name", "payments-svc");
+    runJson("system", "add", "--name", "payments");
+    const { data } = runJson("search", "payments", "--kind", "system");
+    expect(
+      data.results.every((r: Record<string, unknown>) => r.kind === "system"),
+    ).toBe(true);
+  });
+
+  test("--unowned finds services without owner", () => {
+    runJson("owner", "add", "--name", "team-a", "--type", "team");
+    runJson("service", "add", "--name", "owned-svc", "--owner", "team-a");
+    runJson("service", "add", "--name", "orphan-svc");
+    const { data } = runJson("search", "--unowned");
+    expect(data.count).toBe(1);
+    expect(data.results[0].name).toBe("orphan-svc");
+  });
+
+  test("--lifecycle filters services", () => {
+    runJson("service", "add", "--name", "old", "--lifecycle", "deprecated");
+    runJson("service", "add", "--name", "new", "--lifecycle", "production");
+    const { data } = runJson("search", "--lifecycle", "deprecated");
+    expect(data.count).toBe(1);
+    expect(data.results[0].name).toBe("old");
+  });
+
+  test("returns empty results for no match", () => {
+    runJson("service", "add", "--name", "checkout");
+    const { data } = runJson("search", "xyznonexistent");
+    expect(data.count).toBe(0);
+  });
+
+  test("rebuilds index after adding new entity", () => {
+    runJson("service", "add", "--name", "first-svc");
+    runJson("search", "first"); // prime the index
+    runJson(
+      "service",
+      "add",
+      "--name",
+      "second-svc",
+      "--description",
+      "Brand new",
+    );
+    const { data } = runJson("search", "brand new");
+    expect(data.count).toBeGreaterThanOrEqual(1);
     expect(
       data.results.some(
         (r: Record<string, unknown>) => r.name === "second-svc",
@@ -533,7 +1070,14 @@ describe("lint", () => {
 
   test("dangling dep is an error", () => {
     runJson("service", "add", "--name", "checkout");
-    runJson("service", "dep-add", "checkout", "--on", "ghost-service");
+    runJson(
+      "service",
+      "dep-add",
+      "checkout",
+      "--on",
+      "ghost-service",
+      "--allow-dangling",
+    );
     const { data, exitCode } = runJson("lint");
     expect(exitCode).toBe(1);
     expect(data.errors).toBeGreaterThanOrEqual(1);
@@ -545,9 +1089,17 @@ describe("lint", () => {
   });
 
   test("orphaned owner ref is an error", () => {
-    runJson("owner", "add", "--name", "platform", "--type", "team");
+    const { data: owner } = runJson(
+      "owner",
+      "add",
+      "--name",
+      "platform",
+      "--type",
+      "team",
+    );
     runJson("service", "add", "--name", "checkout", "--owner", "platform");
-    runJson("owner", "rm", "platform");
+    // Bypass `owner rm`, which refuses to orphan references
+    rmSync(join(TEST_DIR, ".yellowpages", "owners", `${owner.owner.id}.json`));
     const { data, exitCode } = runJson("lint");
     expect(exitCode).toBe(1);
     expect(
@@ -575,12 +1127,21 @@ describe("deps", () => {
   test("shows both directions", () => {
     runJson("service", "add", "--name", "auth");
     runJson("service", "add", "--name", "gateway");
+    const { data: added } = runJson(
+      "service",
+      "api-add",
+      "auth",
+      "--name",
+      "OAuth",
+      "--type",
+      "rest",
+    );
     runJson("service", "dep-add", "gateway", "--on", "auth", "--api", "OAuth");
 
     const { data } = runJson("deps", "auth");
     expect(data.dependents).toHaveLength(1);
     expect(data.dependents[0].name).toBe("gateway");
-    expect(data.dependents[0].api).toBe("OAuth");
+    expect(data.dependents[0].api).toBe(added.api.id);
     expect(data.dependencies).toEqual([]);
   });
 
@@ -665,7 +1226,6 @@ describe("discover", () => {
     // Repo with catalog file
     const withCatalog = join(DISCOVER_DIR, "catalog-repo");
     mkdirSync(join(withCatalog, ".git"), { recursive: true });
-    const { writeFileSync } = require("node:fs");
     writeFileSync(
       join(withCatalog, "catalog-info.yaml"),
       [
@@ -735,7 +1295,6 @@ describe("discover", () => {
     runJson("discover", "--dir", DISCOVER_DIR);
 
     // Update the catalog file
-    const { writeFileSync } = require("node:fs");
     writeFileSync(
       join(DISCOVER_DIR, "catalog-repo", "catalog-info.yaml"),
       [
@@ -756,9 +1315,1806 @@ describe("discover", () => {
     expect(show.service.lifecycle).toBe("deprecated");
   });
 
+  test("re-discovery keeps custom fields", () => {
+    setupRepos();
+    runJson("discover", "--dir", DISCOVER_DIR);
+    runJson("service", "update", "catalog-service", "--set", "region=eu");
+    writeFileSync(
+      join(DISCOVER_DIR, "catalog-repo", "catalog-info.yaml"),
+      "metadata:\n  name: catalog-service\n  description: Changed\n",
+    );
+
+    const { data } = runJson("discover", "--dir", DISCOVER_DIR);
+    expect(data.updated).toBe(1);
+    const { data: show } = runJson("service", "show", "catalog-service");
+    expect(show.service.description).toBe("Changed");
+    expect(show.service.custom).toEqual({ region: "eu" });
+  });
+
   test("nonexistent directory returns no results", () => {
     const { data } = runJson("discover", "--dir", "/nonexistent/path");
     expect(data.success).toBe(true);
     expect(data.discovered).toBe(0);
   });
 });
+
+// --- migrate ---
+
+describe("migrate", () => {
+  function downgradeCatalog() {
+    writeFileSync(
+      join(TEST_DIR, ".yellowpages", "config.json"),
+      `${JSON.stringify({ version: 1 }, null, 2)}\n`,
+    );
+  }
+
+  test("up to date on a fresh catalog", () => {
+    const { data } = runJson("migrate");
+    expect(data.success).toBe(true);
+    expect(data.migrations).toHaveLength(0);
+  });
+
+  test("writes are refused until the catalog is migrated", () => {
+    downgradeCatalog();
+    const { exitCode, stderr } = run("service", "add", "--name", "checkout");
+    expect(exitCode).not.toBe(0);
+    expect(stderr).toContain("yp migrate");
+  });
+
+  test("resolves dependency names and bumps the version", () => {
+    runJson("service", "add", "--name", "payments");
+    const { data: checkout } = runJson("service", "add", "--name", "checkout");
+    const path = join(
+      TEST_DIR,
+      ".yellowpages",
+      "services",
+      `${checkout.service.id}.json`,
+    );
+    writeFileSync(
+      path,
+      JSON.stringify({
+        ...checkout.service,
+        dependsOn: [{ service: "payments" }],
+      }),
+    );
+    downgradeCatalog();
+
+    const { data: dry } = runJson("migrate", "--dry-run");
+    expect(dry.dryRun).toBe(true);
+    expect(dry.from).toBe(1);
+    expect(dry.changed).toHaveLength(1);
+    expect(run("service", "add", "--name", "x").exitCode).not.toBe(0);
+
+    const { data } = runJson("migrate");
+    expect(data.success).toBe(true);
+    expect(data.changed[0].name).toBe("checkout");
+
+    const { data: payments } = runJson("service", "show", "payments");
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.dependsOn[0].service).toBe(payments.service.id);
+    expect(runJson("service", "add", "--name", "x").data.success).toBe(true);
+  });
+});
+
+// --- concurrency ---
+
+describe("concurrency", () => {
+  test("parallel writers all land and leave no lock behind", async () => {
+    const names = ["alpha", "beta", "gamma", "delta"];
+    const procs = names.map((name) =>
+      Bun.spawn(["bun", CLI, "service", "add", "--name", name], {
+        cwd: TEST_DIR,
+        env: { ...process.env, NO_COLOR: "1" },
+        stdout: "ignore",
+        stderr: "ignore",
+      }),
+    );
+    const codes = await Promise.all(procs.map((p) => p.exited));
+    expect(codes).toEqual([0, 0, 0, 0]);
+
+    const { data } = runJson("service", "list");
+    expect(data.services).toHaveLength(4);
+    expect(existsSync(join(TEST_DIR, ".yellowpages", ".lock"))).toBe(false);
+  });
+
+  test("parallel edits of one record keep every change", async () => {
+    runJson("service", "add", "--name", "svc");
+    const targets = ["t1", "t2", "t3", "t4", "t5", "t6", "t7", "t8"];
+    for (const t of targets) runJson("service", "add", "--name", t);
+
+    const procs = targets.map((t) =>
+      Bun.spawn(["bun", CLI, "service", "dep-add", "svc", "--on", t], {
+        cwd: TEST_DIR,
+        env: { ...process.env, NO_COLOR: "1" },
+        stdout: "ignore",
+        stderr: "ignore",
+      }),
+    );
+    const codes = await Promise.all(procs.map((p) => p.exited));
+    expect(codes).toEqual(targets.map(() => 0));
+
+    const { data } = runJson("service", "show", "svc");
+    expect(data.service.dependsOn).toHaveLength(targets.length);
+  });
+});
+
+// --- apply ---
+
+describe("apply", () => {
+  const MANIFEST = [
+    "kind: Owner",
+    "metadata:",
+    "  name: platform",
+    "---",
+    "kind: System",
+    "metadata:",
+    "  name: payments",
+    "spec:",
+    "  owner: platform",
+    "---",
+    "kind: Service",
+    "metadata:",
+    "  name: checkout",
+    "  description: Handles checkout",
+    "spec:",
+    "  system: payments",
+    "  owner: platform",
+    "  dependsOn:",
+    "    - payment-api",
+    "---",
+    "kind: Service",
+    "metadata:",
+    "  name: payment-api",
+  ].join("\n");
+
+  function writeManifest(content: string) {
+    writeFileSync(join(TEST_DIR, "catalog.yaml"), content);
+  }
+
+  test("creates a linked catalog from a manifest", () => {
+    writeManifest(MANIFEST);
+    const { data } = runJson("apply", "-f", "catalog.yaml");
+    expect(data.success).toBe(true);
+    expect(data.created).toHaveLength(4);
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.owner.name).toBe("platform");
+    expect(shown.system.name).toBe("payments");
+    const { data: lint } = runJson("lint");
+    expect(lint.errors).toBe(0);
+  });
+
+  test("is idempotent", () => {
+    writeManifest(MANIFEST);
+    runJson("apply", "-f", "catalog.yaml");
+    const { data } = runJson("apply", "-f", "catalog.yaml");
+    expect(data.created).toHaveLength(0);
+    expect(data.updated).toHaveLength(0);
+    expect(data.unchanged).toBe(4);
+  });
+
+  test("updates changed records", () => {
+    writeManifest(MANIFEST);
+    runJson("apply", "-f", "catalog.yaml");
+    writeManifest(MANIFEST.replace("Handles checkout", "Takes payments"));
+    const { data } = runJson("apply", "-f", "catalog.yaml");
+    expect(data.updated).toEqual([
+      expect.objectContaining({ name: "checkout", fields: ["description"] }),
+    ]);
+  });
+
+  test("--dry-run shows the plan without writing", () => {
+    writeManifest(MANIFEST);
+    const { data } = runJson("apply", "-f", "catalog.yaml", "--dry-run");
+    expect(data.dryRun).toBe(true);
+    expect(data.created).toHaveLength(4);
+    const { data: list } = runJson("service", "list");
+    expect(list.services).toHaveLength(0);
+  });
+
+  test("--prune deletes records missing from the manifest", () => {
+    runJson("service", "add", "--name", "legacy");
+    writeManifest(MANIFEST);
+    const { data: kept } = runJson("apply", "-f", "catalog.yaml");
+    expect(kept.deleted).toHaveLength(0);
+
+    const { data } = runJson("apply", "-f", "catalog.yaml", "--prune");
+    expect(data.deleted).toEqual([
+      expect.objectContaining({ kind: "service", name: "legacy" }),
+    ]);
+    const { data: list } = runJson("service", "list");
+    expect(list.services).toHaveLength(2);
+  });
+
+  test("--prune refuses to delete owners and systems still referenced", () => {
+    runJson("owner", "add", "--name", "data-team", "--type", "team");
+    runJson("system", "add", "--name", "warehouse");
+    runJson(
+      "resource",
+      "add",
+      "--name",
+      "orders-db",
+      "--kind",
+      "database",
+      "--owner",
+      "data-team",
+      "--system",
+      "warehouse",
+    );
+    writeManifest(MANIFEST);
+
+    const { data, exitCode } = runJson(
+      "apply",
+      "-f",
+      "catalog.yaml",
+      "--prune",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("referenced");
+    expect(
+      data.referenced.map((r: { name: string; references: unknown[] }) => [
+        r.name,
+        r.references,
+      ]),
+    ).toEqual([
+      ["data-team", [expect.objectContaining({ name: "orders-db" })]],
+      ["warehouse", [expect.objectContaining({ name: "orders-db" })]],
+    ]);
+    const { data: owners } = runJson("owner", "list");
+    expect(owners.owners).toHaveLength(1);
+    const { data: list } = runJson("service", "list");
+    expect(list.services).toHaveLength(0);
+  });
+
+  test("rejects unresolved references without writing", () => {
+    writeManifest("metadata:\n  name: checkout\nspec:\n  owner: ghost");
+    const { data, exitCode } = runJson("apply", "-f", "catalog.yaml");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("invalid_manifest");
+    expect(data.errors).toEqual(['service "checkout": unknown owner "ghost"']);
+    const { data: list } = runJson("service", "list");
+    expect(list.services).toHaveLength(0);
+  });
+
+  test("missing file is an error", () => {
+    const { data, exitCode } = runJson("apply", "-f", "nope.yaml");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("file_not_found");
+  });
+});
+
+// --- log ---
+
+describe("log", () => {
+  test("shows field-level changes with the actor", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("owner", "add", "--name", "payments", "--type", "team");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+    const { data: owners } = runJson("owner", "list");
+    const platform = owners.owners.find(
+      (o: Record<string, unknown>) => o.name === "platform",
+    );
+    const payments = owners.owners.find(
+      (o: Record<string, unknown>) => o.name === "payments",
+    );
+    runJson("service", "update", "checkout", "--owner", "payments");
+
+    const { data } = runJson("log", "checkout");
+    expect(data.success).toBe(true);
+    expect(data.kind).toBe("service");
+    expect(data.deleted).toBe(false);
+    expect(data.history.map((e: { action: string }) => e.action)).toEqual([
+      "create",
+      "update",
+    ]);
+    expect(data.history[1].changes).toEqual([
+      { field: "owner", from: platform.id, to: payments.id },
+    ]);
+    expect(typeof data.history[1].actor).toBe("string");
+
+    const { stdout } = run("log", "checkout");
+    expect(stdout).toContain(`owner: ${platform.id} → ${payments.id}`);
+  });
+
+  test("history survives rm", () => {
+    runJson("service", "add", "--name", "legacy");
+    runJson("service", "rm", "legacy");
+
+    const { data } = runJson("log", "legacy");
+    expect(data.deleted).toBe(true);
+    expect(data.history.at(-1).action).toBe("delete");
+  });
+
+  test("ambiguous names need --kind", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("system", "add", "--name", "platform");
+
+    const { data, exitCode } = runJson("log", "platform");
+    expect(exitCode).toBe(2);
+    expect(data.error).toBe("ambiguous");
+
+    const { data: owner } = runJson("log", "platform", "--kind", "owner");
+    expect(owner.kind).toBe("owner");
+  });
+
+  test("unknown entity is an error", () => {
+    const { data, exitCode } = runJson("log", "ghost");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("not_found");
+  });
+});
+
+// --- trash ---
+
+describe("trash", () => {
+  test("rm moves a service to the trash and restore brings it back", () => {
+    runJson("service", "add", "--name", "payments");
+    const { data: added } = runJson("service", "add", "--name", "checkout");
+    runJson("service", "dep-add", "checkout", "--on", "payments");
+    runJson("service", "env-add", "checkout", "--name", "production");
+
+    const { data: removed } = runJson("service", "rm", "checkout");
+    expect(removed.trashed).toBe(true);
+    expect(runJson("service", "show", "checkout").exitCode).toBe(1);
+
+    const { data: trash } = runJson("trash", "list");
+    expect(trash.trash).toEqual([
+      expect.objectContaining({ kind: "service", name: "checkout" }),
+    ]);
+
+    const { data: restored } = runJson("restore", "checkout");
+    expect(restored.success).toBe(true);
+    expect(restored.id).toBe(added.service.id);
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.environments).toHaveLength(1);
+    expect(shown.service.dependsOn).toHaveLength(1);
+    expect(runJson("trash", "list").data.trash).toHaveLength(0);
+  });
+
+  test("rm prints an undo command that works for any id", () => {
+    const { data } = runJson("service", "add", "--name", "checkout");
+    const { stdout } = run("service", "rm", "checkout");
+    // Ids may start with "-", which would read as an option
+    expect(stdout).toContain(`yp restore -- ${data.service.id}`);
+  });
+
+  test("restore warns about references that are gone", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("service", "add", "--name", "checkout", "--owner", "platform");
+    runJson("service", "rm", "checkout");
+    runJson("owner", "rm", "platform");
+
+    const { data } = runJson("restore", "checkout");
+    expect(data.dangling).toHaveLength(1);
+  });
+
+  test("restore refuses when the name is taken again", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "rm", "checkout");
+    runJson("service", "add", "--name", "checkout");
+
+    const { data, exitCode } = runJson("restore", "checkout");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("name_conflict");
+  });
+
+  test("restore of a name shared in the trash is ambiguous", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("system", "add", "--name", "platform");
+    runJson("owner", "rm", "platform");
+    runJson("system", "rm", "platform");
+
+    const { data, exitCode } = runJson("restore", "platform");
+    expect(exitCode).toBe(2);
+    expect(data.error).toBe("ambiguous");
+  });
+
+  test("restore of something not in the trash is an error", () => {
+    const { data, exitCode } = runJson("restore", "ghost");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("not_found");
+  });
+
+  test("purge --older-than", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "rm", "checkout");
+
+    const { data: kept } = runJson("trash", "purge", "--older-than", "30d");
+    expect(kept.purged).toHaveLength(0);
+    const { data } = runJson("trash", "purge", "--older-than", "0d");
+    expect(data.purged).toHaveLength(1);
+    expect(runJson("restore", "checkout").exitCode).toBe(1);
+
+    const { data: bad } = runJson("trash", "purge", "--older-than", "soon");
+    expect(bad.error).toBe("invalid_duration");
+  });
+});
+
+// --- rename ---
+
+describe("rename", () => {
+  test("old name keeps resolving after a rename", () => {
+    runJson("service", "add", "--name", "payment-api");
+    runJson("service", "add", "--name", "checkout");
+
+    const { data } = runJson(
+      "service",
+      "rename",
+      "payment-api",
+      "payments-gateway",
+    );
+    expect(data.success).toBe(true);
+    expect(data.previousName).toBe("payment-api");
+    expect(data.service.aliases).toEqual(["payment-api"]);
+
+    const { data: shown } = runJson("service", "show", "payment-api");
+    expect(shown.service.name).toBe("payments-gateway");
+
+    runJson("service", "dep-add", "checkout", "--on", "payment-api");
+    const { data: checkout } = runJson("service", "show", "checkout");
+    expect(checkout.service.dependsOn[0].service).toBe(shown.service.id);
+
+    const { data: found } = runJson("search", "payment-api");
+    expect(found.results[0].name).toBe("payments-gateway");
+  });
+
+  test("works for owners and systems", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson("system", "add", "--name", "payments");
+    runJson("owner", "rename", "platform", "infra");
+    runJson("system", "rename", "payments", "billing");
+
+    runJson("service", "add", "--name", "x", "--owner", "platform");
+    const { data } = runJson("service", "show", "x");
+    expect(data.owner.name).toBe("infra");
+    expect(runJson("system", "show", "payments").data.system.name).toBe(
+      "billing",
+    );
+  });
+
+  test("--no-alias drops the old name", () => {
+    runJson("service", "add", "--name", "chekout");
+    const { data } = runJson(
+      "service",
+      "rename",
+      "chekout",
+      "checkout",
+      "--no-alias",
+    );
+    expect(data.service.aliases).toBeUndefined();
+    expect(runJson("service", "show", "chekout").exitCode).toBe(1);
+  });
+
+  test("refuses a name another record uses", () => {
+    runJson("service", "add", "--name", "a");
+    runJson("service", "add", "--name", "b");
+    runJson("service", "rename", "b", "c");
+
+    const { data, exitCode } = runJson("service", "rename", "a", "b");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("name_conflict");
+  });
+});
+
+// --- resources ---
+
+describe("resources", () => {
+  function addDb() {
+    runJson("owner", "add", "--name", "data-team", "--type", "team");
+    return runJson(
+      "resource",
+      "add",
+      "--name",
+      "orders-db",
+      "--kind",
+      "database",
+      "--owner",
+      "data-team",
+    ).data.resource;
+  }
+
+  test("add, list and show", () => {
+    const db = addDb();
+    expect(db.kind).toBe("database");
+
+    const { data: listed } = runJson("resource", "list", "--kind", "database");
+    expect(listed.resources.map((r: { name: string }) => r.name)).toEqual([
+      "orders-db",
+    ]);
+    expect(
+      runJson("resource", "list", "--kind", "queue").data.resources,
+    ).toEqual([]);
+
+    const { data: shown } = runJson("resource", "show", "orders-db");
+    expect(shown.resource.id).toBe(db.id);
+    expect(shown.owner.name).toBe("data-team");
+    expect(shown.users).toEqual([]);
+  });
+
+  test("show lists who reads and writes a resource", () => {
+    addDb();
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "reports");
+    runJson(
+      "service",
+      "use-add",
+      "checkout",
+      "--resource",
+      "orders-db",
+      "--access",
+      "readwrite",
+    );
+    runJson(
+      "service",
+      "use-add",
+      "reports",
+      "--resource",
+      "orders-db",
+      "--access",
+      "read",
+    );
+
+    const { data } = runJson("resource", "show", "orders-db");
+    expect(
+      data.users
+        .map((u: { name: string; access: string }) => [u.name, u.access])
+        .sort(),
+    ).toEqual([
+      ["checkout", "readwrite"],
+      ["reports", "read"],
+    ]);
+
+    const { data: service } = runJson("service", "show", "checkout");
+    expect(service.resources[0].name).toBe("orders-db");
+
+    const { data: deps } = runJson("deps", "orders-db");
+    expect(deps.users).toHaveLength(2);
+    expect(runJson("deps", "checkout").data.resources[0].access).toBe(
+      "readwrite",
+    );
+  });
+
+  test("use-add again replaces the access mode; use-rm drops it", () => {
+    addDb();
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "use-add", "checkout", "--resource", "orders-db");
+    const { data } = runJson(
+      "service",
+      "use-add",
+      "checkout",
+      "--resource",
+      "orders-db",
+      "--access",
+      "write",
+    );
+    expect(data.service.uses).toHaveLength(1);
+    expect(data.service.uses[0].access).toBe("write");
+
+    const { data: removed } = runJson(
+      "service",
+      "use-rm",
+      "checkout",
+      "--resource",
+      "orders-db",
+    );
+    expect(removed.service.uses).toEqual([]);
+    expect(
+      runJson("service", "use-rm", "checkout", "--resource", "orders-db").data
+        .error,
+    ).toBe("use_not_found");
+  });
+
+  test("use-add refuses an unknown resource", () => {
+    runJson("service", "add", "--name", "checkout");
+    const { data, exitCode } = runJson(
+      "service",
+      "use-add",
+      "checkout",
+      "--resource",
+      "ghost",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("resource_not_found");
+  });
+
+  test("rm refuses while used, --cascade clears uses", () => {
+    addDb();
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "use-add", "checkout", "--resource", "orders-db");
+
+    const { data, exitCode } = runJson("resource", "rm", "orders-db");
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("referenced");
+    expect(data.references[0].field).toBe("uses");
+
+    expect(
+      runJson("resource", "rm", "orders-db", "--cascade").data.success,
+    ).toBe(true);
+    expect(runJson("service", "show", "checkout").data.service.uses).toEqual(
+      [],
+    );
+    expect(
+      runJson("trash", "list", "--kind", "resource").data.trash,
+    ).toHaveLength(1);
+  });
+
+  test("resources are searchable and linted", () => {
+    addDb();
+    const { data } = runJson("search", "orders");
+    expect(data.results[0].kind).toBe("resource");
+
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "use-add", "checkout", "--resource", "orders-db");
+    rmSync(join(TEST_DIR, ".yellowpages", "resources"), {
+      recursive: true,
+      force: true,
+    });
+    const { data: lint, exitCode } = runJson("lint");
+    expect(exitCode).toBe(1);
+    expect(
+      lint.results.some(
+        (r: { type: string }) => r.type === "dangling_resource_ref",
+      ),
+    ).toBe(true);
+  });
+});
+
+// --- domains ---
+
+describe("domains", () => {
+  test("show rolls up systems, services and owners", () => {
+    runJson("owner", "add", "--name", "payments-team", "--type", "team");
+    runJson("owner", "add", "--name", "commerce-leads", "--type", "team");
+    const { data: added } = runJson(
+      "domain",
+      "add",
+      "--name",
+      "commerce",
+      "--owner",
+      "commerce-leads",
+    );
+    expect(added.success).toBe(true);
+
+    runJson(
+      "system",
+      "add",
+      "--name",
+      "payments",
+      "--domain",
+      "commerce",
+      "--owner",
+      "payments-team",
+    );
+    runJson("system", "add", "--name", "identity");
+    runJson("service", "add", "--name", "checkout", "--system", "payments");
+
+    const { data } = runJson("domain", "show", "commerce");
+    expect(data.domain.id).toBe(added.domain.id);
+    expect(data.owner.name).toBe("commerce-leads");
+    expect(data.systems.map((s: { name: string }) => s.name)).toEqual([
+      "payments",
+    ]);
+    expect(data.services.map((s: { name: string }) => s.name)).toEqual([
+      "checkout",
+    ]);
+    expect(data.owners.map((o: { name: string }) => o.name).sort()).toEqual([
+      "commerce-leads",
+      "payments-team",
+    ]);
+
+    expect(runJson("system", "show", "payments").data.domain.name).toBe(
+      "commerce",
+    );
+    expect(
+      runJson("system", "list", "--domain", "commerce").data.systems,
+    ).toHaveLength(1);
+    expect(runJson("domain", "list").data.domains).toHaveLength(1);
+  });
+
+  test("rm refuses while systems belong to it, --cascade unassigns them", () => {
+    runJson("domain", "add", "--name", "commerce");
+    runJson("system", "add", "--name", "payments", "--domain", "commerce");
+
+    const { data, exitCode } = runJson("domain", "rm", "commerce");
+    expect(exitCode).toBe(1);
+    expect(data.references[0].field).toBe("domain");
+
+    expect(runJson("domain", "rm", "commerce", "--cascade").data.success).toBe(
+      true,
+    );
+    expect(runJson("system", "show", "payments").data.system.domain).toBe(
+      undefined,
+    );
+  });
+
+  test("system update --clear domain", () => {
+    runJson("domain", "add", "--name", "commerce");
+    runJson("system", "add", "--name", "payments", "--domain", "commerce");
+    const { data } = runJson(
+      "system",
+      "update",
+      "payments",
+      "--clear",
+      "domain",
+    );
+    expect(data.changed).toBe(true);
+    expect(data.system.domain).toBeUndefined();
+  });
+});
+
+// --- environments ---
+
+describe("environments", () => {
+  test("env-add, show, list --env and env-rm", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "reports");
+
+    const { data } = runJson(
+      "service",
+      "env-add",
+      "checkout",
+      "--name",
+      "staging",
+      "--url",
+      "https://checkout.staging.example.com",
+      "--region",
+      "eu-west-1",
+      "--health",
+      "/healthz",
+    );
+    expect(data.success).toBe(true);
+    expect(data.service.environments).toEqual([
+      {
+        name: "staging",
+        url: "https://checkout.staging.example.com",
+        region: "eu-west-1",
+        health: "/healthz",
+      },
+    ]);
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.environments[0].url).toBe(
+      "https://checkout.staging.example.com",
+    );
+    const { stdout } = run("service", "show", "checkout");
+    expect(stdout).toContain("Environments");
+    expect(stdout).toContain("eu-west-1");
+
+    const { data: listed } = runJson("service", "list", "--env", "Staging");
+    expect(listed.services.map((s: { name: string }) => s.name)).toEqual([
+      "checkout",
+    ]);
+
+    runJson("service", "env-rm", "checkout", "--name", "staging");
+    expect(
+      runJson("service", "show", "checkout").data.service.environments,
+    ).toEqual([]);
+  });
+
+  test("env-add with an existing name replaces it", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "env-add", "checkout", "--name", "prod", "--url", "a");
+    const { data } = runJson(
+      "service",
+      "env-add",
+      "checkout",
+      "--name",
+      "PROD",
+      "--url",
+      "b",
+    );
+    expect(data.service.environments).toEqual([{ name: "PROD", url: "b" }]);
+  });
+
+  test("env-rm reports an unknown environment", () => {
+    runJson("service", "add", "--name", "checkout");
+    const { data, exitCode } = runJson(
+      "service",
+      "env-rm",
+      "checkout",
+      "--name",
+      "qa",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("environment_not_found");
+  });
+});
+
+// --- team hierarchy ---
+
+describe("team hierarchy", () => {
+  function setup() {
+    runJson("owner", "add", "--name", "engineering", "--type", "team");
+    runJson(
+      "owner",
+      "add",
+      "--name",
+      "payments-team",
+      "--type",
+      "team",
+      "--parent",
+      "engineering",
+    );
+    runJson("owner", "add", "--name", "ana", "--type", "person");
+    runJson("service", "add", "--name", "gateway", "--owner", "engineering");
+    runJson("service", "add", "--name", "checkout", "--owner", "payments-team");
+  }
+
+  test("show lists parent, sub-teams and members", () => {
+    setup();
+    const { data: added } = runJson(
+      "owner",
+      "member-add",
+      "payments-team",
+      "--person",
+      "ana",
+      "--role",
+      "lead",
+    );
+    expect(added.owner.members).toEqual([
+      { person: expect.any(String), role: "lead" },
+    ]);
+
+    const { data: team } = runJson("owner", "show", "payments-team");
+    expect(team.parent.name).toBe("engineering");
+    expect(team.members.map((m: { name: string }) => m.name)).toEqual(["ana"]);
+    expect(team.members[0].role).toBe("lead");
+
+    const { data: parent } = runJson("owner", "show", "engineering");
+    expect(parent.children.map((c: { name: string }) => c.name)).toEqual([
+      "payments-team",
+    ]);
+
+    const { data: person } = runJson("owner", "show", "ana");
+    expect(person.teams[0].name).toBe("payments-team");
+
+    runJson("owner", "member-rm", "payments-team", "--person", "ana");
+    expect(runJson("owner", "show", "payments-team").data.members).toEqual([]);
+  });
+
+  test("service list --owner --recursive includes sub-teams", () => {
+    setup();
+    const names = (args: string[]) =>
+      runJson("service", "list", ...args)
+        .data.services.map((s: { name: string }) => s.name)
+        .sort();
+    expect(names(["--owner", "engineering"])).toEqual(["gateway"]);
+    expect(names(["--owner", "engineering", "--recursive"])).toEqual([
+      "checkout",
+      "gateway",
+    ]);
+  });
+
+  test("refuses a parent that would create a cycle", () => {
+    setup();
+    const { data, exitCode } = runJson(
+      "owner",
+      "update",
+      "engineering",
+      "--parent",
+      "payments-team",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("parent_cycle");
+  });
+
+  test("an unknown parent is refused with suggestions unless dangling", () => {
+    setup();
+    const { data, exitCode } = runJson(
+      "owner",
+      "update",
+      "payments-team",
+      "--parent",
+      "enginering",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("unknown_reference");
+    expect(data.suggestions).toEqual(["engineering"]);
+
+    const { data: kept } = runJson(
+      "owner",
+      "update",
+      "payments-team",
+      "--parent",
+      "enginering",
+      "--allow-dangling",
+    );
+    expect(kept.owner.parent).toBe("enginering");
+  });
+
+  test("refuses a parent that is not a team", () => {
+    setup();
+    const { data, exitCode } = runJson(
+      "owner",
+      "update",
+      "payments-team",
+      "--parent",
+      "ana",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("parent_not_team");
+  });
+
+  test("member-add only takes a person", () => {
+    setup();
+    const { data, exitCode } = runJson(
+      "owner",
+      "member-add",
+      "engineering",
+      "--person",
+      "payments-team",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.error).toBe("person_not_found");
+  });
+});
+
+// --- on-call ---
+
+describe("on-call", () => {
+  function setup() {
+    runJson(
+      "owner",
+      "add",
+      "--name",
+      "ana",
+      "--type",
+      "person",
+      "--email",
+      "ana@example.com",
+    );
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson(
+      "owner",
+      "oncall-set",
+      "platform",
+      "--primary",
+      "ana",
+      "--escalation",
+      "cto@example.com",
+      "--pager",
+      "PD-PLATFORM",
+      "--hours",
+      "09:00-17:00",
+      "--timezone",
+      "Europe/Berlin",
+    );
+  }
+
+  test("oncall-set and oncall", () => {
+    setup();
+    const { data } = runJson("owner", "oncall", "platform");
+    expect(data.primary.name).toBe("ana");
+    expect(data.primary.email).toBe("ana@example.com");
+    expect(data.escalation).toEqual([{ name: "cto@example.com" }]);
+    expect(data.pager).toBe("PD-PLATFORM");
+    expect(data.timezone).toBe("Europe/Berlin");
+    expect(typeof data.inHours).toBe("boolean");
+
+    const { data: cleared } = runJson(
+      "owner",
+      "oncall-set",
+      "platform",
+      "--clear",
+      "hours",
+      "timezone",
+    );
+    expect(cleared.changed).toBe(true);
+    expect(cleared.owner.oncall.hours).toBeUndefined();
+    expect(cleared.owner.oncall.pager).toBe("PD-PLATFORM");
+  });
+
+  test("rejects bad hours and time zones", () => {
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    const { data, exitCode } = runJson(
+      "owner",
+      "oncall-set",
+      "platform",
+      "--hours",
+      "9-5",
+      "--timezone",
+      "Nowhere/Land",
+    );
+    expect(exitCode).toBe(1);
+    expect(data.hours).toBe("9-5");
+    expect(data.timezone).toBe("Nowhere/Land");
+  });
+
+  test("service show falls back to the system owner's on-call", () => {
+    setup();
+    runJson("system", "add", "--name", "payments", "--owner", "platform");
+    runJson("service", "add", "--name", "checkout", "--system", "payments");
+
+    const { data } = runJson("service", "show", "checkout");
+    expect(data.owner).toBeNull();
+    expect(data.oncall.via).toBe("system");
+    expect(data.oncall.owner.name).toBe("platform");
+    expect(data.oncall.pager).toBe("PD-PLATFORM");
+
+    const { stdout } = run("service", "show", "checkout");
+    expect(stdout).toContain("On-call platform (owner of the system)");
+    expect(stdout).toContain("PD-PLATFORM");
+  });
+});
+
+// --- custom fields ---
+
+describe("custom fields", () => {
+  function defineFields() {
+    const configPath = join(TEST_DIR, ".yellowpages", "config.json");
+    const config = JSON.parse(readFileSync(configPath, "utf-8"));
+    config.customFields = [
+      { key: "cost-center", type: "number", requiredFor: ["service"] },
+      { key: "tier", type: "enum", values: ["gold", "silver"] },
+    ];
+    writeFileSync(configPath, JSON.stringify(config));
+  }
+
+  test("add and update accept --set", () => {
+    const { data } = runJson(
+      "system",
+      "add",
+      "--name",
+      "pay",
+      "--set",
+      "region=eu",
+    );
+    expect(data.system.custom).toEqual({ region: "eu" });
+  });
+
+  test("writes are validated against the definitions", () => {
+    defineFields();
+    const bad = runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout",
+      "--set",
+      "cost-center=abc",
+      "costCenter=1",
+    );
+    expect(bad.exitCode).toBe(1);
+    expect(bad.data.error).toBe("invalid_custom_fields");
+    expect(bad.data.issues.map((i: { problem: string }) => i.problem)).toEqual([
+      "invalid",
+      "unknown",
+    ]);
+
+    const { data } = runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout",
+      "--set",
+      "cost-center=42",
+    );
+    expect(data.service.custom).toEqual({ "cost-center": "42" });
+
+    const unset = runJson(
+      "service",
+      "update",
+      "checkout",
+      "--unset",
+      "cost-center",
+    );
+    expect(unset.data.error).toBe("invalid_custom_fields");
+    const tier = runJson("service", "update", "checkout", "--set", "tier=gold");
+    expect(tier.data.service.custom.tier).toBe("gold");
+  });
+
+  test("lint reports records that predate the definitions", () => {
+    runJson("service", "add", "--name", "checkout", "--set", "costCenter=42");
+    defineFields();
+    const { data, exitCode } = runJson("lint");
+    expect(exitCode).toBe(1);
+    const types = data.results.map((r: { type: string }) => r.type);
+    expect(types).toContain("unknown_custom_field");
+    expect(types).toContain("missing_custom_field");
+  });
+});
+
+// --- links ---
+
+describe("links", () => {
+  test("link-add replaces by title and link-rm removes by title or URL", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson(
+      "service",
+      "link-add",
+      "checkout",
+      "--title",
+      "Runbook",
+      "--url",
+      "https://wiki.example.com/old",
+    );
+    const { data } = runJson(
+      "service",
+      "link-add",
+      "checkout",
+      "--title",
+      "runbook",
+      "--url",
+      "https://wiki.example.com/checkout",
+      "--type",
+      "runbook",
+    );
+    expect(data.service.links).toEqual([
+      {
+        title: "runbook",
+        url: "https://wiki.example.com/checkout",
+        type: "runbook",
+      },
+    ]);
+
+    const { stdout } = run("service", "show", "checkout");
+    expect(stdout).toContain("Links");
+    expect(stdout).toContain("https://wiki.example.com/checkout");
+
+    const missing = runJson("service", "link-rm", "checkout", "--title", "x");
+    expect(missing.exitCode).toBe(1);
+    expect(missing.data.error).toBe("link_not_found");
+
+    const { data: removed } = runJson(
+      "service",
+      "link-rm",
+      "checkout",
+      "--title",
+      "https://wiki.example.com/checkout",
+    );
+    expect(removed.removed.title).toBe("runbook");
+    expect(removed.service.links).toBeUndefined();
+  });
+
+  test("systems and owners take links too", () => {
+    runJson("system", "add", "--name", "payments");
+    runJson("owner", "add", "--name", "platform", "--type", "team");
+    runJson(
+      "system",
+      "link-add",
+      "payments",
+      "--title",
+      "Architecture ADRs",
+      "--url",
+      "https://docs.example.com/adr",
+      "--type",
+      "docs",
+    );
+    const { data } = runJson(
+      "owner",
+      "link-add",
+      "platform",
+      "--title",
+      "Team channel",
+      "--url",
+      "https://chat.example.com/platform",
+      "--type",
+      "chat",
+    );
+    expect(data.owner.links[0].type).toBe("chat");
+    const { data: shown } = runJson("system", "show", "payments");
+    expect(shown.system.links[0].title).toBe("Architecture ADRs");
+    expect(run("owner", "show", "platform").stdout).toContain("Team channel");
+  });
+
+  test("search matches link titles", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson(
+      "service",
+      "link-add",
+      "checkout",
+      "--title",
+      "Latency dashboard",
+      "--url",
+      "https://grafana.example.com/d/42",
+    );
+    const { data } = runJson("search", "latency");
+    expect(data.results.map((r: { name: string }) => r.name)).toContain(
+      "checkout",
+    );
+  });
+});
+
+// --- tiers ---
+
+describe("tiers", () => {
+  test("add, filter and clear a tier", () => {
+    runJson("service", "add", "--name", "checkout", "--tier", "1");
+    runJson("service", "add", "--name", "admin", "--tier", "4");
+
+    const { data } = runJson("service", "list", "--tier", "1");
+    expect(data.services.map((s: { name: string }) => s.name)).toEqual([
+      "checkout",
+    ]);
+    const { data: found } = runJson("search", "--tier", "4");
+    expect(found.results.map((r: { name: string }) => r.name)).toEqual([
+      "admin",
+    ]);
+
+    const bad = runJson("service", "update", "admin", "--tier", "5");
+    expect(bad.exitCode).toBe(2);
+    expect(bad.data.error).toBe("invalid_arguments");
+    for (const args of [
+      ["service", "list", "--tier", "1x"],
+      ["search", "--tier", "high"],
+    ]) {
+      const { data, exitCode } = runJson(...args);
+      expect(exitCode).toBe(2);
+      expect(data.error).toBe("invalid_arguments");
+    }
+
+    const { data: cleared } = runJson(
+      "service",
+      "update",
+      "admin",
+      "--clear",
+      "tier",
+    );
+    expect(cleared.service.tier).toBeUndefined();
+  });
+
+  test("lint flags tier inversions and missing tier-1 metadata", () => {
+    runJson("service", "add", "--name", "labs", "--tier", "4");
+    runJson("service", "add", "--name", "checkout", "--tier", "1");
+    runJson("service", "dep-add", "checkout", "--on", "labs");
+
+    const { data } = runJson("lint");
+    const types = data.results.map((r: { type: string }) => r.type);
+    expect(types).toContain("tier_inversion");
+    expect(types).toContain("missing_tier_metadata");
+  });
+});
+
+// --- schemas ---
+
+describe("schemas", () => {
+  test("init writes schemas and record files reference them", () => {
+    const dir = join(TEST_DIR, ".yellowpages");
+    const schema = JSON.parse(
+      readFileSync(join(dir, "schemas", "service.schema.json"), "utf-8"),
+    );
+    expect(schema.title).toBe("service");
+    expect(schema.properties.lifecycle.enum).toContain("production");
+    expect(existsSync(join(dir, "schemas", "config.schema.json"))).toBe(true);
+
+    const { data } = runJson("service", "add", "--name", "checkout");
+    const file = JSON.parse(
+      readFileSync(join(dir, "services", `${data.service.id}.json`), "utf-8"),
+    );
+    expect(file.$schema).toBe("../schemas/service.schema.json");
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.service.$schema).toBeUndefined();
+  });
+
+  test("lint reports hand-edited records that break the schema", () => {
+    const { data } = runJson("service", "add", "--name", "checkout");
+    const path = join(
+      TEST_DIR,
+      ".yellowpages",
+      "services",
+      `${data.service.id}.json`,
+    );
+    const record = JSON.parse(readFileSync(path, "utf-8"));
+    record.lifecycle = "prod";
+    record.uses = [{ access: "read" }];
+    record.dependsOn = "payments";
+    writeFileSync(path, JSON.stringify(record));
+
+    const { data: linted, exitCode } = runJson("lint");
+    expect(exitCode).toBe(1);
+    const messages = linted.results
+      .filter((r: { type: string }) => r.type === "schema_violation")
+      .map((r: { message: string }) => r.message);
+    expect(messages.sort()).toEqual([
+      "dependsOn must be array, got string",
+      'lifecycle must be one of experimental, production, deprecated, decommissioned, got "prod"',
+      "uses[0].resource is required",
+    ]);
+  });
+
+  test("a truncated record file is reported, not fatal", () => {
+    runJson("service", "add", "--name", "checkout");
+    writeFileSync(
+      join(TEST_DIR, ".yellowpages", "services", "bad2.json"),
+      '{"id":"bad2","name":"b",',
+    );
+
+    const listed = runJson("service", "list");
+    expect(listed.exitCode).toBe(0);
+    expect(listed.data.services).toHaveLength(1);
+    expect(runJson("service", "show", "checkout").exitCode).toBe(0);
+
+    const { data, exitCode } = runJson("lint");
+    expect(exitCode).toBe(1);
+    expect(data.results).toContainEqual(
+      expect.objectContaining({
+        type: "unreadable_record",
+        entity: join(".yellowpages", "services", "bad2.json"),
+      }),
+    );
+  });
+
+  test("a truncated trash file is skipped and reported", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "rm", "checkout");
+    const bad = join(".yellowpages", "trash", "services", "bad3.json");
+    writeFileSync(join(TEST_DIR, bad), '{"collection":"services",');
+
+    const { data, exitCode } = runJson("trash", "list");
+    expect(exitCode).toBe(0);
+    expect(data.trash.map((e: { name: string }) => e.name)).toEqual([
+      "checkout",
+    ]);
+    expect(data.unreadable).toEqual([bad]);
+    expect(run("trash", "list").stdout).toContain(bad);
+
+    expect(runJson("restore", "checkout").exitCode).toBe(0);
+    const { data: linted } = runJson("lint");
+    expect(linted.results).toContainEqual(
+      expect.objectContaining({ type: "unreadable_record", entity: bad }),
+    );
+  });
+});
+
+// --- federated sources ---
+
+describe("federated sources", () => {
+  // A second catalog next to the local one, written by hand
+  function addCentralCatalog() {
+    const central = join(TEST_DIR, "central", ".yellowpages");
+    mkdirSync(join(central, "owners"), { recursive: true });
+    writeFileSync(join(central, "config.json"), JSON.stringify({ version: 2 }));
+    writeFileSync(
+      join(central, "owners", "central1.json"),
+      JSON.stringify({
+        id: "central1",
+        name: "platform-team",
+        type: "team",
+        created: "2026-01-01T00:00:00Z",
+        updated: "2026-01-01T00:00:00Z",
+      }),
+    );
+    const configPath = join(TEST_DIR, ".yellowpages", "config.json");
+    const config = JSON.parse(readFileSync(configPath, "utf-8"));
+    config.sources = [{ name: "central", path: "central" }];
+    writeFileSync(configPath, JSON.stringify(config));
+  }
+
+  test("records from sources are merged read-only with provenance", () => {
+    addCentralCatalog();
+    runJson("service", "add", "--name", "checkout", "--owner", "platform-team");
+
+    const { data } = runJson("owner", "list");
+    expect(data.owners).toEqual([
+      expect.objectContaining({ name: "platform-team", source: "central" }),
+    ]);
+
+    const { data: shown } = runJson("service", "show", "checkout");
+    expect(shown.owner.id).toBe("central1");
+    expect(shown.service.source).toBeUndefined();
+
+    const { data: owned } = runJson("owner", "show", "platform-team");
+    expect(owned.services.map((s: { name: string }) => s.name)).toEqual([
+      "checkout",
+    ]);
+    expect(run("owner", "show", "platform-team").stdout).toContain(
+      "Source: central (read-only)",
+    );
+
+    const { exitCode } = runJson(
+      "owner",
+      "update",
+      "platform-team",
+      "--email",
+      "x@example.com",
+    );
+    expect(exitCode).toBe(1);
+  });
+
+  test("lint resolves cross-catalog references and reports conflicts", () => {
+    addCentralCatalog();
+    runJson("service", "add", "--name", "checkout", "--owner", "platform-team");
+    let { data } = runJson("lint");
+    expect(data.results).toEqual([]);
+
+    runJson("owner", "add", "--name", "Platform-Team", "--type", "team");
+    const configPath = join(TEST_DIR, ".yellowpages", "config.json");
+    const config = JSON.parse(readFileSync(configPath, "utf-8"));
+    config.sources.push({ path: "missing" });
+    writeFileSync(configPath, JSON.stringify(config));
+
+    ({ data } = runJson("lint"));
+    const types = data.results.map((r: { type: string }) => r.type);
+    expect(types).toContain("source_name_conflict");
+    expect(types).toContain("missing_source");
+  });
+
+  test("older sources are migrated in memory and newer ones reported", () => {
+    addCentralCatalog();
+    const central = join(TEST_DIR, "central", ".yellowpages");
+    mkdirSync(join(central, "services"), { recursive: true });
+    writeFileSync(
+      join(central, "services", "billing1.json"),
+      JSON.stringify({
+        id: "billing1",
+        name: "billing",
+        apis: [{ name: "invoices", type: "rest" }],
+        created: "2026-01-01T00:00:00Z",
+        updated: "2026-01-01T00:00:00Z",
+      }),
+    );
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "dep-add", "checkout", "--on", "billing");
+
+    const { data: api } = runJson("api", "show", "invoices");
+    expect(api.api.source).toBe("central");
+    expect(api.provider.id).toBe("billing1");
+
+    writeFileSync(
+      join(central, "config.json"),
+      JSON.stringify({ version: 99 }),
+    );
+    expect(runJson("api", "list").data.apis).toEqual([]);
+    const { data } = runJson("lint");
+    expect(data.results).toContainEqual(
+      expect.objectContaining({ type: "missing_source", entity: "central" }),
+    );
+  });
+});
+
+// --- id prefixes ---
+
+describe("id prefixes", () => {
+  test("a unique id prefix resolves like a full id", () => {
+    const { data: added } = runJson("service", "add", "--name", "checkout");
+    const { data, exitCode } = runJson(
+      "service",
+      "show",
+      "--", // ids may start with "-"
+      added.service.id.slice(0, 5),
+    );
+    expect(exitCode).toBe(0);
+    expect(data.service.name).toBe("checkout");
+  });
+
+  test("a name shared by several records is ambiguous", () => {
+    const { data: first } = runJson("service", "add", "--name", "checkout");
+    const { data: second } = runJson("service", "add", "--name", "Checkout");
+
+    const { data, exitCode } = runJson("service", "show", "checkout");
+    expect(exitCode).toBe(2);
+    expect(data.error).toBe("ambiguous");
+    expect(data.matches.map((m: { id: string }) => m.id).sort()).toEqual(
+      [first.service.id, second.service.id].sort(),
+    );
+
+    const human = run("service", "update", "CHECKOUT", "--tier", "1");
+    expect(human.exitCode).toBe(2);
+    expect(human.stderr).toContain("CHECKOUT matches 2 services");
+    expect(human.stdout).toContain(first.service.id);
+  });
+});
+
+// --- unknown references ---
+
+describe("unknown references", () => {
+  test("a mistyped owner is rejected with the closest names", () => {
+    runJson("owner", "add", "--name", "platform-team", "--type", "team");
+    runJson("owner", "add", "--name", "payments-team", "--type", "team");
+
+    const { data, exitCode } = runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout",
+      "--owner",
+      "platfrom-team",
+    );
+    expect(exitCode).toBe(1);
+    expect(data).toEqual({
+      success: false,
+      error: "unknown_reference",
+      kind: "owner",
+      input: "platfrom-team",
+      suggestions: ["platform-team"],
+    });
+    expect(runJson("service", "list").data.services).toHaveLength(0);
+
+    const human = run("service", "add", "--name", "checkout", "--owner", "ops");
+    expect(human.stderr).toContain("No owner named ops");
+    expect(human.stdout).toContain("--allow-dangling");
+  });
+
+  test("dep-add and update reject unknown services and systems", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "payments");
+
+    const dep = runJson("service", "dep-add", "checkout", "--on", "paymnts");
+    expect(dep.exitCode).toBe(1);
+    expect(dep.data.suggestions).toEqual(["payments"]);
+
+    const update = runJson("service", "update", "checkout", "--system", "x");
+    expect(update.data.error).toBe("unknown_reference");
+    expect(update.data.kind).toBe("system");
+  });
+
+  test("--allow-dangling keeps the reference as given", () => {
+    const { data, exitCode } = runJson(
+      "service",
+      "add",
+      "--name",
+      "checkout",
+      "--owner",
+      "future-team",
+      "--allow-dangling",
+    );
+    expect(exitCode).toBe(0);
+    expect(data.service.owner).toBe("future-team");
+  });
+});
+
+// --- apis ---
+
+describe("apis", () => {
+  function addApi(service: string, name: string, ...extra: string[]) {
+    return runJson(
+      "service",
+      "api-add",
+      service,
+      "--name",
+      name,
+      "--type",
+      "rest",
+      ...extra,
+    ).data.api;
+  }
+
+  test("show lists the provider and every consumer", () => {
+    runJson("owner", "add", "--name", "payments-team", "--type", "team");
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "billing");
+    runJson("service", "add", "--name", "payments", "--owner", "payments-team");
+    const api = addApi("payments", "Charges API", "--spec", "openapi.yaml");
+    runJson(
+      "service",
+      "dep-add",
+      "checkout",
+      "--on",
+      "payments",
+      "--api",
+      api.id,
+    );
+    runJson(
+      "service",
+      "dep-add",
+      "billing",
+      "--on",
+      "payments",
+      "--api",
+      "charges api",
+      "--description",
+      "refunds",
+    );
+
+    const { data } = runJson("api", "show", "Charges API");
+    expect(data.api.spec).toBe("openapi.yaml");
+    expect(data.provider.name).toBe("payments");
+    expect(data.responsible).toMatchObject({
+      name: "payments-team",
+      via: "provider",
+    });
+    expect(data.consumers).toHaveLength(2);
+    expect(data.consumers).toContainEqual({
+      id: expect.any(String),
+      name: "checkout",
+    });
+    expect(data.consumers).toContainEqual({
+      id: expect.any(String),
+      name: "billing",
+      description: "refunds",
+    });
+
+    const human = run("service", "show", "checkout");
+    expect(human.stdout).toContain("→ payments (Charges API)");
+  });
+
+  test("list filters by provider and type", () => {
+    runJson("service", "add", "--name", "payments");
+    runJson("service", "add", "--name", "search");
+    addApi("payments", "Charges");
+    addApi("search", "Query");
+    runJson(
+      "service",
+      "api-add",
+      "search",
+      "--name",
+      "Index",
+      "--type",
+      "grpc",
+    );
+
+    const byProvider = runJson("api", "list", "--provider", "search").data;
+    expect(byProvider.apis.map((a: { name: string }) => a.name).sort()).toEqual(
+      ["Index", "Query"],
+    );
+    const byType = runJson("api", "list", "--type", "grpc").data;
+    expect(byType.apis.map((a: { name: string }) => a.name)).toEqual(["Index"]);
+  });
+
+  test("dep-add rejects an API the target does not provide", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "payments");
+    addApi("payments", "Charges");
+
+    const { data, exitCode } = runJson(
+      "service",
+      "dep-add",
+      "checkout",
+      "--on",
+      "payments",
+      "--api",
+      "charge",
+    );
+    expect(exitCode).toBe(1);
+    expect(data).toMatchObject({
+      error: "unknown_reference",
+      kind: "api",
+      suggestions: ["Charges"],
+    });
+
+    const dangling = runJson(
+      "service",
+      "dep-add",
+      "checkout",
+      "--on",
+      "payments",
+      "--api",
+      "charge",
+      "--allow-dangling",
+    );
+    expect(dangling.data.service.dependsOn[0].api).toBe("charge");
+    const { data: linted } = runJson("lint");
+    expect(
+      linted.results.some(
+        (r: { type: string }) => r.type === "dangling_api_ref",
+      ),
+    ).toBe(true);
+  });
+
+  test("a service takes its APIs to the trash and back", () => {
+    runJson("service", "add", "--name", "payments");
+    const api = addApi("payments", "Charges");
+    addApi("payments", "payments");
+
+    const { data, exitCode } = runJson("service", "rm", "payments");
+    expect(exitCode).toBe(0);
+    expect(data.references).toEqual([]);
+    expect(
+      data.trashedWith.map((e: { name: string }) => e.name).sort(),
+    ).toEqual(["Charges", "payments"]);
+    expect(runJson("api", "list").data.apis).toEqual([]);
+
+    // The API named like the service does not make the name ambiguous
+    const { data: restored } = runJson("restore", "payments");
+    expect(restored.success).toBe(true);
+    expect(restored.restoredWith).toHaveLength(2);
+    const { data: shown } = runJson("api", "show", api.id);
+    expect(shown.provider.name).toBe("payments");
+    expect(runJson("trash", "list").data.trash).toEqual([]);
+  });
+
+  test("api rm clears the API from consuming dependencies", () => {
+    runJson("service", "add", "--name", "checkout");
+    runJson("service", "add", "--name", "payments");
+    const api = addApi("payments", "Charges");
+    runJson(
+      "service",
+      "dep-add",
+      "checkout",
+      "--on",
+      "payments",
+      "--api",
+      api.id,
+    );
+
+    expect(runJson("api", "rm", api.id).exitCode).toBe(1);
+    expect(runJson("api", "rm", api.id, "--cascade").data.success).toBe(true);
+    const { data } = runJson("service", "show", "checkout");
+    expect(data.service.dependsOn).toEqual([{ service: expect.any(String) }]);
+  });
+
+  test("migrate moves embedded APIs to records", () => {
+    runJson("service", "add", "--name", "payments");
+    const { data: checkout } = runJson("service", "add", "--name", "checkout");
+    const services = join(TEST_DIR, ".yellowpages", "services");
+    const payments = runJson("service", "show", "payments").data.service;
+    writeFileSync(
+      join(services, `${payments.id}.json`),
+      JSON.stringify({
+        ...payments,
+        apis: [{ name: "Charges", type: "rest", spec: "openapi.yaml" }],
+      }),
+    );
+    writeFileSync(
+      join(services, `${checkout.service.id}.json`),
+      JSON.stringify({
+        ...checkout.service,
+        dependsOn: [{ service: payments.id, api: "Charges" }],
+      }),
+    );
+    writeFileSync(
+      join(TEST_DIR, ".yellowpages", "config.json"),
+      `${JSON.stringify({ version: 2 }, null, 2)}\n`,
+    );
+
+    const { data } = runJson("migrate");
+    expect(data.success).toBe(true);
+    expect(data.changed).toHaveLength(3);
+
+    const { data: shown } = runJson("api", "show", "Charges");
+    expect(shown.api).toMatchObject({
+      spec: "openapi.yaml",
+      provider: payments.id,
+    });
+    expect(shown.consumers.map((c: { name: string }) => c.name)).toEqual([
+      "checkout",
+    ]);
+    const { data: linted } = runJson("lint");
+    expect(
+      linted.results.filter((r: { type: string }) => r.type.includes("api")),
+    ).toEqual([]);
+  });
+
+  test("inspect reads the operations of a local spec", () => {
+    runJson("service", "add", "--name", "payments");
+    mkdirSync(join(TEST_DIR, "docs"));
+    writeFileSync(
+      join(TEST_DIR, "docs", "payments.yaml"),
+      [
+        "openapi: 3.0.3",
+        "info: { title: Payments, version: 1.2.0 }",
+        "servers: [{ url: https://api.example.com }]",
+        "paths:",
+        "  /v1/refunds:",
+        "    post: { operationId: createRefund, summary: Refund a charge }",
+      ].join("\n"),
+    );
+    addApi("payments", "Charges", "--spec", "docs/payments.yaml");
+    addApi("payments", "Webhooks", "--spec", "docs/missing.yaml");
+
+    const { data } = runJson("api", "inspect", "payments", "charges");
+    expect(data.spec).toMatchObject({
+      title: "Payments",
+      version: "1.2.0",
+      servers: ["https://api.example.com"],
+      operations: [
+        {
+          method: "POST",
+          path: "/v1/refunds",
+          operationId: "createRefund",
+          summary: "Refund a charge",
+        },
+      ],
+    });
+    expect(run("api", "inspect", "payments", "Charges").stdout).toContain(
+      "POST /v1/refunds",
+    );
+
+    const missing = runJson("api", "inspect", "payments", "Webhooks");
+    expect(missing.exitCode).toBe(1);
+    expect(missing.data.error).toBe("spec_not_found");
+
+    const { data: shown } = runJson("service", "show", "payments");
+    const charges = shown.apis.find(
+      (a: { name: string }) => a.name === "Charges",
+    );
+    expect(charges.specSummary.operations).toHaveLength(1);
+
+    const { data: found } = runJson("search", "POST /v1/refunds");
+    expect(found.results.map((r: { name: string }) => r.name).sort()).toEqual([
+      "Charges",
+      "payments",
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { checkCustomFields } from "../custom-fields.js";
+import { parseKeyValues } from "../patch.js";
+import { readConfig } from "../store.js";
+import type { OutputOptions } from "../utils/output.js";
+import { error, output } from "../utils/output.js";
+
+/**
+ * Parse the `--set key=value` pairs of an `add` subcommand. Exits on
+ * malformed pairs.
+ */
+export function parseSetOption(
+  pairs: string[] | undefined,
+  options: OutputOptions,
+): Record<string, string> | undefined {
+  if (!pairs) return undefined;
+  const { values, invalid } = parseKeyValues(pairs);
+  if (invalid.length > 0) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "invalid_arguments",
+        set: invalid,
+      }),
+      human: () => error(`Expected key=value: ${invalid.join(", ")}`),
+    });
+    process.exit(1);
+  }
+  return values;
+}
+
+/**
+ * Check custom values against the definitions in config.json before a
+ * write, and exit listing the issues. `touched` limits the check to the
+ * keys being changed, so an update is not blocked by problems it did not
+ * introduce.
+ */
+export function requireValidCustom(
+  root: string,
+  options: OutputOptions,
+  kind: string,
+  custom: Record<string, string> | undefined,
+  touched?: string[],
+): void {
+  const defs = readConfig(root).customFields ?? [];
+  const issues = checkCustomFields(custom, kind, defs).filter(
+    (i) => !touched || touched.includes(i.key),
+  );
+  if (issues.length === 0) return;
+
+  output(options, {
+    json: () => ({ success: false, error: "invalid_custom_fields", issues }),
+    human: () => {
+      for (const i of issues) error(i.message);
+    },
+  });
+  process.exit(1);
+}
@@ -1,12 +1,22 @@
-import { type DepNode, findOrphans, resolveDeps } from "../deps.js";
-import { readAll, requireRoot, resolveId } from "../store.js";
-import type { Service } from "../types.js";
+import {
+  type DepNode,
+  findOrphans,
+  type ResourceNode,
+  resolveDeps,
+  resolveResourceUsers,
+} from "../deps.js";
+import { getIndex, requireRoot } from "../store.js";
+import type { Api, Resource, Service } from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
 import { bold, bullet, dim, error, info, output } from "../utils/output.js";
 
 const DEFAULT_DEPTH = 10;
 
-function renderTree(nodes: DepNode[], prefix: string): void {
+function renderTree(
+  nodes: DepNode[],
+  prefix: string,
+  apiName: (api: string) => string = (api) => api,
+): void {
   for (let i = 0; i < nodes.length; i++) {
     const node = nodes[i];
     const isLast = i === nodes.length - 1;
@@ -14,16 +24,28 @@ function renderTree(nodes: DepNode[], prefix: string): void {
     const childPrefix = isLast ? "    " : "│   ";
 
     const parts = [node.name];
-    if (node.api) parts.push(dim(`(${node.api})`));
+    if (node.api) parts.push(dim(`(${apiName(node.api)})`));
     if (node.description) parts.push(dim(`— ${node.description}`));
     console.log(`${prefix}${connector}${parts.join(" ")}`);
 
     if (node.children.length > 0) {
-      renderTree(node.children, prefix + childPrefix);
+      renderTree(node.children, prefix + childPrefix, apiName);
     }
   }
 }
 
+function renderResources(nodes: ResourceNode[], prefix: string): void {
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const connector = i === nodes.length - 1 ? "└── " : "├── ";
+    const parts = [node.name];
+    if (node.kind) parts.push(dim(`[${node.kind}]`));
+    if (node.access) parts.push(dim(`(${node.access})`));
+    if (node.description) parts.push(dim(`— ${node.description}`));
+    console.log(`${prefix}${connector}${parts.join(" ")}`);
+  }
+}
+
 export async function deps(
   args: string[],
   options: OutputOptions & {
@@ -34,7 +56,8 @@ export async function deps(
   },
 ): Promise<void> {
   const root = requireRoot();
-  const services = readAll<Service>(root, "services");
+  const index = getIndex(root);
+  const services = index.all<Service>("services");
 
   // --orphans mode
   if (options.orphans) {
@@ -78,8 +101,43 @@ export async function deps(
   }
 
   const idOrName = args[0];
-  const id = resolveId<Service>(root, "services", idOrName);
-  const service = services.find((s) => s.id === id);
+  const id = index.resolve("services", idOrName) ?? idOrName;
+  const service = index.get<Service>("services", id);
+
+  // Not a service: a resource shows the services that use it
+  const resourceId = service ? undefined : index.resolve("resources", idOrName);
+  const resource = resourceId
+    ? index.get<Resource>("resources", resourceId)
+    : undefined;
+
+  if (resource) {
+    const result = resolveResourceUsers(resource, services);
+    output(options, {
+      json: () => result,
+      human: () => {
+        console.log();
+        console.log(`${bold(resource.name)} ${dim(`[${resource.kind}]`)}`);
+        console.log();
+        if (result.users.length === 0) {
+          console.log(dim("  ← No services use this resource"));
+        } else {
+          console.log(bold("  ← Used by"));
+          renderTree(
+            result.users.map((u) => ({
+              id: u.id,
+              name: u.name,
+              api: u.access,
+              description: u.description,
+              children: [],
+            })),
+            "    ",
+          );
+        }
+        console.log();
+      },
+    });
+    return;
+  }
 
   if (!service) {
     output(options, {
@@ -89,8 +147,15 @@ export async function deps(
     process.exit(1);
   }
 
+  const apiName = (api: string) => index.get<Api>("apis", api)?.name ?? api;
   const maxDepth = options.depth ?? DEFAULT_DEPTH;
-  const result = resolveDeps(id, services, maxDepth, options.direction);
+  const result = resolveDeps(
+    id,
+    services,
+    maxDepth,
+    options.direction,
+    index.all<Resource>("resources"),
+  );
 
   output(options, {
     json: () => result,
@@ -104,7 +169,7 @@ export async function deps(
           console.log(dim("  ↑ No dependents"));
         } else {
           console.log(bold("  ↑ Dependents") + dim(" (what depends on me)"));
-          renderTree(result.dependents, "    ");
+          renderTree(result.dependents, "    ", apiName);
         }
       }
 
@@ -114,7 +179,13 @@ export async function deps(
           console.log(dim("  ↓ No dependencies"));
         } else {
           console.log(bold("  ↓ Dependencies") + dim(" (what I depend on)"));
-          renderTree(result.dependencies, "    ");
+          renderTree(result.dependencies, "    ", apiName);
+        }
+
+        if (result.resources.length > 0) {
+          console.log();
+          console.log(bold("  ◆ Resources") + dim(" (what I read and write)"));
+          renderResources(result.resources, "    ");
         }
       }
 
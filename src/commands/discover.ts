@@ -1,3 +1,4 @@
+import { withLock } from "../atomic.js";
 import {
   type DiscoveredService,
   diffServices,
@@ -5,6 +6,7 @@ import {
   discoverFromGitHub,
 } from "../discover.js";
 import {
+  getIndex,
   newId,
   readAll,
   requireRoot,
@@ -50,28 +52,63 @@ function applyService(
     ? resolveId<System>(root, "systems", discovered.system)
     : existingService?.system;
 
-  // Resolve dependency names to IDs
-  const deps = (discovered.dependsOn ?? []).map((d) => ({
-    ...d,
-    service: resolveId<Service>(root, "services", d.service),
-  }));
+  // Resolve dependency names to IDs, and API names to APIs of the target
+  const index = getIndex(root);
+  const deps = (discovered.dependsOn ?? []).map((d) => {
+    const service = resolveId<Service>(root, "services", d.service);
+    const api = d.api
+      ? index
+          .providedBy(service)
+          .find(
+            (a) =>
+              a.id === d.api || a.name.toLowerCase() === d.api?.toLowerCase(),
+          )
+      : undefined;
+    return api ? { ...d, service, api: api.id } : { ...d, service };
+  });
 
   const service: Service = {
     id: existingService?.id ?? newId(),
-    name: discovered.name,
+    // Matched by an alias: the service was renamed since, keep the new name
+    name:
+      existingService &&
+      existingService.name.toLowerCase() !== discovered.name.toLowerCase()
+        ? existingService.name
+        : discovered.name,
+    aliases: discovered.aliases ?? existingService?.aliases,
     description: discovered.description ?? existingService?.description,
     system: systemId,
     owner: ownerId,
     lifecycle: discovered.lifecycle ?? existingService?.lifecycle,
+    tier: existingService?.tier,
     repo: discovered.repo ?? existingService?.repo,
     tags: discovered.tags ?? existingService?.tags,
-    apis: discovered.apis ?? existingService?.apis ?? [],
     dependsOn: deps.length > 0 ? deps : (existingService?.dependsOn ?? []),
+    uses: existingService?.uses,
+    environments: existingService?.environments,
+    links: existingService?.links,
+    custom: existingService?.custom,
     created: existingService?.created ?? now,
     updated: now,
   };
 
   writeRecord(root, "services", service);
+
+  // Declared APIs are upserted by name; APIs not declared are kept
+  const provided = index.providedBy(service.id);
+  for (const declared of discovered.apis ?? []) {
+    const before = provided.find(
+      (a) => a.name.toLowerCase() === declared.name.toLowerCase(),
+    );
+    writeRecord(root, "apis", {
+      ...before,
+      id: before?.id ?? newId(),
+      ...declared,
+      provider: service.id,
+      created: before?.created ?? now,
+      updated: now,
+    });
+  }
   return service;
 }
 
@@ -182,18 +219,22 @@ export async function discover(
     return;
   }
 
-  // Apply changes
+  // Apply changes, diffing again under the lock so edits made since are
+  // not overwritten
   const addedServices: Service[] = [];
-  for (const d of diff.added) {
-    const svc = applyService(root, d);
-    addedServices.push(svc);
-  }
-
   const updatedServices: Service[] = [];
-  for (const u of diff.updated) {
-    const svc = applyService(root, u.discovered, u.existing);
-    updatedServices.push(svc);
-  }
+  withLock(root, () => {
+    const current = diffServices(
+      discovered,
+      readAll<Service>(root, "services"),
+    );
+    for (const d of current.added) {
+      addedServices.push(applyService(root, d));
+    }
+    for (const u of current.updated) {
+      updatedServices.push(applyService(root, u.discovered, u.existing));
+    }
+  });
 
   output(options, {
     json: () => ({
@@ -0,0 +1,151 @@
+import { Command } from "commander";
+import { sourceOf } from "../federation.js";
+import { loadCatalog, resolveCatalogId, resolveDomain } from "../relations.js";
+import { newId, requireRoot, writeRecord } from "../store.js";
+import type { Domain } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, bullet, dim, error, output, success } from "../utils/output.js";
+import { parseSetOption, requireValidCustom } from "./custom.js";
+import { requireReference } from "./reference.js";
+import { addRemoveCommand } from "./remove.js";
+import { addRenameCommand } from "./rename.js";
+
+function getOutputOptions(cmd: Command): OutputOptions {
+  const root = cmd.optsWithGlobals();
+  return { json: root.json, quiet: root.quiet };
+}
+
+export const domainCommand = new Command("domain").description(
+  "Manage business domains (groups of systems)",
+);
+
+// --- add ---
+domainCommand
+  .command("add")
+  .requiredOption("--name <name>", "Domain name")
+  .option("--description <desc>", "What this domain covers")
+  .option("--owner <id-or-name>", "Team or person accountable for it")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const now = new Date().toISOString();
+    const domain: Domain = {
+      id: newId(),
+      name: opts.name,
+      description: opts.description,
+      owner: opts.owner
+        ? requireReference(
+            root,
+            options,
+            "owners",
+            opts.owner,
+            opts.allowDangling,
+          )
+        : undefined,
+      custom: parseSetOption(opts.set, options),
+      created: now,
+      updated: now,
+    };
+
+    requireValidCustom(root, options, "domain", domain.custom);
+    writeRecord(root, "domains", domain);
+
+    output(options, {
+      json: () => ({ success: true, domain }),
+      human: () =>
+        success(`Domain ${bold(domain.name)} added (${dim(domain.id)})`),
+    });
+  });
+
+// --- list ---
+domainCommand.command("list").action((_opts, cmd) => {
+  const options = getOutputOptions(cmd);
+  const root = requireRoot();
+  const catalog = loadCatalog(root);
+
+  output(options, {
+    json: () => ({ domains: catalog.domains }),
+    human: () => {
+      if (catalog.domains.length === 0) {
+        console.log(dim("No domains found."));
+        return;
+      }
+      for (const d of catalog.domains) {
+        const systems = catalog.systems.filter((s) => s.domain === d.id);
+        bullet(
+          `${bold(d.name)}  ${dim(d.id)}  ${dim(`${systems.length} system(s)`)}`,
+        );
+        if (d.description) console.log(`    ${dim(d.description)}`);
+      }
+    },
+  });
+});
+
+// --- show ---
+domainCommand
+  .command("show <id-or-name>")
+  .action((idOrName: string, _opts: unknown, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "domains", idOrName);
+    const resolved = resolveDomain(id, catalog);
+
+    if (!resolved) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`Domain not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const { domain, owner, systems, services, resources, owners } = resolved;
+
+    output(options, {
+      json: () => ({ domain, owner, systems, services, resources, owners }),
+      human: () => {
+        console.log();
+        console.log(bold(domain.name), dim(domain.id));
+        if (domain.description) console.log(dim(domain.description));
+        console.log();
+        if (owner) console.log(`  Owner: ${owner.name}`);
+        if (domain.aliases?.length)
+          console.log(`  Aliases: ${domain.aliases.join(", ")}`);
+        if (sourceOf(domain))
+          console.log(`  Source: ${sourceOf(domain)} (read-only)`);
+        console.log(
+          `  Systems: ${systems.length}  Services: ${services.length}  Resources: ${resources.length}`,
+        );
+
+        for (const system of systems) {
+          console.log();
+          console.log(`  ${bold(system.name)}  ${dim(system.id)}`);
+          for (const s of services.filter((s) => s.system === system.id)) {
+            bullet(`${s.name}  ${dim(s.id)}`);
+          }
+          for (const r of resources.filter((r) => r.system === system.id)) {
+            bullet(`${r.name}  ${dim(`[${r.kind}]`)}  ${dim(r.id)}`);
+          }
+        }
+
+        if (owners.length > 0) {
+          console.log();
+          console.log(bold("  Owners"));
+          for (const o of owners) {
+            bullet(`${o.name}  ${dim(o.type)}  ${dim(o.id)}`);
+          }
+        }
+        console.log();
+      },
+    });
+  });
+
+// --- rename ---
+addRenameCommand(domainCommand, "domains");
+
+// --- rm ---
+addRemoveCommand(domainCommand, "domains");
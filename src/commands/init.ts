@@ -1,13 +1,33 @@
+import { writeSchemas } from "../schemas.js";
 import { findRoot, initStore } from "../store.js";
+import type { StorageBackend } from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
-import { cmd, hint, info, output, success } from "../utils/output.js";
+import { cmd, error, hint, info, output, success } from "../utils/output.js";
+
+const STORAGE_BACKENDS: StorageBackend[] = ["file", "sqlite"];
 
 export async function init(
   _args: string[],
-  options: OutputOptions,
+  options: OutputOptions & { storage?: string },
 ): Promise<void> {
+  if (
+    options.storage &&
+    !STORAGE_BACKENDS.includes(options.storage as StorageBackend)
+  ) {
+    output(options, {
+      json: () => ({ success: false, error: "invalid_storage" }),
+      human: () =>
+        error(
+          `Unknown storage backend: ${options.storage} (expected ${STORAGE_BACKENDS.join(" | ")})`,
+        ),
+    });
+    process.exit(1);
+  }
+
   const existing = findRoot();
   if (existing) {
+    // Re-running init refreshes the schemas after an upgrade
+    writeSchemas(existing);
     output(options, {
       json: () => ({ success: true, path: existing, created: false }),
       human: () => info(`Already initialized at ${existing}`),
@@ -15,7 +35,11 @@ export async function init(
     return;
   }
 
-  const root = initStore();
+  const root = initStore(
+    options.storage
+      ? { backend: options.storage as StorageBackend }
+      : undefined,
+  );
 
   output(options, {
     json: () => ({ success: true, path: root, created: true }),
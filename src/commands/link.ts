@@ -0,0 +1,154 @@
+import type { Command } from "commander";
+import { matchLinks } from "../embedded.js";
+import { mutateRecord, requireRoot, resolveId } from "../store.js";
+import type { Link, LinkType } from "../types.js";
+import { KIND_LABELS } from "../types.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, dim, error, output, success } from "../utils/output.js";
+
+type LinkableCollection = "services" | "systems" | "owners";
+
+interface LinkableRecord {
+  id: string;
+  name: string;
+  links?: Link[];
+  updated: string;
+}
+
+/**
+ * Print a `Links` section for a show command.
+ */
+export function printLinks(links: Link[] | undefined): void {
+  if (!links?.length) return;
+  console.log();
+  console.log(bold("  Links"));
+  for (const link of links) {
+    console.log(
+      `    ${link.title}${link.type ? `  ${dim(`[${link.type}]`)}` : ""}  ${dim(link.url)}`,
+    );
+  }
+}
+
+/**
+ * Register `link-add` and `link-rm` on an entity command. Links are keyed
+ * by title: adding a link with an existing title replaces it.
+ */
+export function addLinkCommands(
+  parent: Command,
+  collection: LinkableCollection,
+): void {
+  const kind = KIND_LABELS[collection];
+  const title = kind.charAt(0).toUpperCase() + kind.slice(1);
+
+  // Change the record under the catalog lock (see mutateRecord)
+  const mutate = (
+    options: OutputOptions,
+    idOrName: string,
+    change: (record: LinkableRecord) => LinkableRecord,
+  ) => {
+    const root = requireRoot();
+    const id = resolveId(root, collection, idOrName);
+    const record = mutateRecord(root, collection, id, change);
+    if (!record) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`${title} not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+    return record;
+  };
+
+  const outputOptions = (cmd: Command): OutputOptions => {
+    const globals = cmd.optsWithGlobals();
+    return { json: globals.json, quiet: globals.quiet };
+  };
+
+  parent
+    .command("link-add <id-or-name>")
+    .requiredOption("--title <title>", "Link title (e.g. Runbook)")
+    .requiredOption("--url <url>", "Link URL")
+    .option("--type <type>", "runbook | dashboard | docs | chat | other")
+    .action((idOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = outputOptions(cmd);
+
+      const link: Link = {
+        title: opts.title,
+        url: opts.url,
+        type: opts.type as LinkType | undefined,
+      };
+
+      // One link per title: adding it again replaces it
+      let existing = -1;
+      const record = mutate(options, idOrName, (record) => {
+        const links = record.links ?? [];
+        existing = links.findIndex(
+          (l) => l.title.toLowerCase() === link.title.toLowerCase(),
+        );
+        if (existing === -1) links.push(link);
+        else links[existing] = link;
+        record.links = links;
+        record.updated = new Date().toISOString();
+        return record;
+      });
+
+      output(options, {
+        json: () => ({ success: true, link, [kind]: record }),
+        human: () =>
+          success(
+            `${existing === -1 ? "Added" : "Replaced"} link ${bold(link.title)} on ${bold(record.name)}`,
+          ),
+      });
+    });
+
+  parent
+    .command("link-rm <id-or-name>")
+    .requiredOption("--title <title-or-url>", "Title or URL of the link")
+    .action((idOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = outputOptions(cmd);
+
+      let removed: Link | undefined;
+      const record = mutate(options, idOrName, (record) => {
+        const links = record.links ?? [];
+        const matches = matchLinks(record, opts.title);
+        if (matches.length !== 1) {
+          const ambiguous = matches.length > 1;
+          output(options, {
+            json: () => ({
+              success: false,
+              error: ambiguous ? "ambiguous" : "link_not_found",
+              matches: matches.map((i) => links[i]),
+            }),
+            human: () => {
+              if (!ambiguous) {
+                error(`No link matching: ${opts.title}`);
+                return;
+              }
+              error(
+                `Ambiguous link "${opts.title}" matches ${matches.length} entries:`,
+              );
+              for (const i of matches) {
+                console.log(`    ${links[i].title}  ${dim(links[i].url)}`);
+              }
+            },
+          });
+          process.exit(ambiguous ? EXIT_USER_ERROR : 1);
+        }
+
+        [removed] = links.splice(matches[0], 1);
+        if (links.length > 0) record.links = links;
+        else delete record.links;
+        record.updated = new Date().toISOString();
+        return record;
+      });
+
+      output(options, {
+        json: () => ({ success: true, removed, [kind]: record }),
+        human: () =>
+          success(
+            `Removed link ${bold(removed?.title ?? opts.title)} from ${bold(record.name)}`,
+          ),
+      });
+    });
+}
@@ -1,13 +1,20 @@
 import { describe, expect, test } from "bun:test";
-import type { Owner, Service, System } from "../types.js";
+import type { Owner, Resource, Service, System } from "../types.js";
 import {
+  findAliasConflicts,
   findCircularDeps,
+  findCustomFieldIssues,
   findDanglingDeps,
+  findDanglingUses,
   findDuplicateNames,
   findEmptySystems,
   findMissingOwners,
+  findMissingTierMetadata,
+  findOrphanedDomainRefs,
   findOrphanedOwnerRefs,
   findOrphanedSystemRefs,
+  findTeamHierarchyIssues,
+  findTierInversions,
   runLintChecks,
 } from "./lint.js";
 
@@ -44,6 +51,17 @@ function makeOwner(
   };
 }
 
+function makeResource(
+  overrides: Partial<Resource> & { id: string; name: string },
+): Resource {
+  return {
+    kind: "database",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
 // --- Orphaned system refs ---
 
 describe("findOrphanedSystemRefs", () => {
@@ -173,6 +191,123 @@ describe("findDanglingDeps", () => {
   });
 });
 
+// --- Dangling resource uses ---
+
+describe("findDanglingUses", () => {
+  test("no issues when the resource exists", () => {
+    const services = [
+      makeService({ id: "s1", name: "svc-a", uses: [{ resource: "r1" }] }),
+    ];
+    expect(findDanglingUses(services, new Set(["r1"]))).toEqual([]);
+  });
+
+  test("error when the resource does not exist", () => {
+    const services = [
+      makeService({ id: "s1", name: "svc-a", uses: [{ resource: "ghost" }] }),
+    ];
+    const results = findDanglingUses(services, new Set());
+    expect(results).toHaveLength(1);
+    expect(results[0].type).toBe("dangling_resource_ref");
+    expect(results[0].severity).toBe("error");
+    expect(results[0].fix).toContain("use-rm svc-a --resource ghost");
+  });
+});
+
+// --- Orphaned domain refs ---
+
+describe("findOrphanedDomainRefs", () => {
+  test("error when a system points at a missing domain", () => {
+    const systems = [
+      makeSystem({ id: "sys1", name: "payments", domain: "gone" }),
+      makeSystem({ id: "sys2", name: "identity", domain: "d1" }),
+      makeSystem({ id: "sys3", name: "misc" }),
+    ];
+    const results = findOrphanedDomainRefs(systems, new Set(["d1"]));
+    expect(results).toHaveLength(1);
+    expect(results[0].entity).toBe("payments");
+    expect(results[0].type).toBe("orphaned_domain_ref");
+    expect(results[0].fix).toBe("yp system update payments --clear domain");
+  });
+});
+
+// --- Team hierarchy ---
+
+describe("findTeamHierarchyIssues", () => {
+  test("reports missing parents and members", () => {
+    const owners = [
+      makeOwner({
+        id: "o1",
+        name: "payments",
+        parent: "gone",
+        members: [{ person: "ghost" }],
+      }),
+    ];
+    const results = findTeamHierarchyIssues(owners);
+    expect(results.map((r) => r.type)).toEqual([
+      "orphaned_owner_ref",
+      "orphaned_owner_ref",
+    ]);
+    expect(results[1].fix).toBe("yp owner member-rm payments --person ghost");
+  });
+
+  test("reports parent cycles", () => {
+    const owners = [
+      makeOwner({ id: "o1", name: "a", parent: "o2" }),
+      makeOwner({ id: "o2", name: "b", parent: "o1" }),
+      makeOwner({ id: "o3", name: "c", parent: "o1" }),
+    ];
+    const results = findTeamHierarchyIssues(owners);
+    expect(results.map((r) => r.entity)).toEqual(["a", "b"]);
+    expect(results[0].type).toBe("circular_team_hierarchy");
+  });
+
+  test("reports a parent that is not a team", () => {
+    const owners = [
+      makeOwner({ id: "o1", name: "ana", type: "person" }),
+      makeOwner({ id: "o2", name: "payments", parent: "o1" }),
+    ];
+    expect(findTeamHierarchyIssues(owners)).toEqual([
+      expect.objectContaining({ type: "parent_not_team", entity: "payments" }),
+    ]);
+  });
+
+  test("no issues for a valid tree", () => {
+    const owners = [
+      makeOwner({ id: "o1", name: "eng" }),
+      makeOwner({ id: "o2", name: "payments", parent: "o1" }),
+    ];
+    expect(findTeamHierarchyIssues(owners)).toEqual([]);
+  });
+});
+
+// --- Resources ---
+
+describe("resource references", () => {
+  test("reports resources pointing at missing owners and systems", () => {
+    const resources = [
+      makeResource({ id: "r1", name: "orders-db", owner: "gone", system: "x" }),
+    ];
+    const owners = findOrphanedOwnerRefs([], [], new Set(), resources);
+    const systems = findOrphanedSystemRefs([], new Set(), resources);
+    expect(owners.map((r) => [r.entityKind, r.entity])).toEqual([
+      ["resource", "orders-db"],
+    ]);
+    expect(systems.map((r) => [r.entityKind, r.type])).toEqual([
+      ["resource", "orphaned_system_ref"],
+    ]);
+  });
+
+  test("duplicate resource names are errors", () => {
+    const resources = [
+      makeResource({ id: "r1", name: "orders-db" }),
+      makeResource({ id: "r2", name: "Orders-DB" }),
+    ];
+    const results = findDuplicateNames([], [], [], resources);
+    expect(results).toHaveLength(1);
+    expect(results[0].entityKind).toBe("resource");
+  });
+});
+
 // --- Circular dependencies ---
 
 describe("findCircularDeps", () => {
@@ -315,6 +450,134 @@ describe("findDuplicateNames", () => {
 
 // --- Empty systems ---
 
+describe("findAliasConflicts", () => {
+  test("no issues with distinct aliases", () => {
+    const services = [
+      makeService({ id: "s1", name: "svc-a", aliases: ["old-a"] }),
+      makeService({ id: "s2", name: "svc-b", aliases: ["old-b"] }),
+    ];
+    expect(findAliasConflicts(services, [], [])).toEqual([]);
+  });
+
+  test("alias that is another record's name", () => {
+    const services = [
+      makeService({ id: "s1", name: "svc-a", aliases: ["svc-b"] }),
+      makeService({ id: "s2", name: "svc-b" }),
+    ];
+    const results = findAliasConflicts(services, [], []);
+    expect(results).toHaveLength(1);
+    expect(results[0].type).toBe("alias_conflict");
+    expect(results[0].entity).toBe("svc-a");
+  });
+
+  test("alias shared by two records", () => {
+    const owners = [
+      makeOwner({ id: "o1", name: "team-a", aliases: ["Platform"] }),
+      makeOwner({ id: "o2", name: "team-b", aliases: ["platform"] }),
+    ];
+    const results = findAliasConflicts([], [], owners);
+    expect(results).toHaveLength(1);
+    expect(results[0].entityKind).toBe("owner");
+  });
+
+  test("kinds are checked separately", () => {
+    const services = [makeService({ id: "s1", name: "a", aliases: ["x"] })];
+    const systems = [makeSystem({ id: "y1", name: "x" })];
+    expect(findAliasConflicts(services, systems, [])).toEqual([]);
+  });
+});
+
+describe("findCustomFieldIssues", () => {
+  const defs = [
+    {
+      key: "cost-center",
+      type: "number" as const,
+      requiredFor: ["service"],
+    },
+  ];
+
+  test("no issues without definitions", () => {
+    const services = [
+      makeService({ id: "s1", name: "a", custom: { anything: "x" } }),
+    ];
+    expect(findCustomFieldIssues([], services, [], [])).toEqual([]);
+  });
+
+  test("flags unknown, invalid and missing fields", () => {
+    const services = [
+      makeService({ id: "s1", name: "a", custom: { "cost-center": "x" } }),
+      makeService({ id: "s2", name: "b" }),
+    ];
+    const systems = [
+      makeSystem({ id: "y1", name: "pay", custom: { cost_center: "42" } }),
+    ];
+    const results = findCustomFieldIssues(defs, services, systems, []);
+    expect(results.map((r) => [r.entity, r.type, r.severity])).toEqual([
+      ["a", "invalid_custom_field", "error"],
+      ["b", "missing_custom_field", "error"],
+      ["pay", "unknown_custom_field", "warning"],
+    ]);
+    expect(results[2].fix).toBe("yp system update pay --unset cost_center");
+  });
+});
+
+describe("findTierInversions", () => {
+  test("flags a dependency on a less critical service", () => {
+    const services = [
+      makeService({
+        id: "s1",
+        name: "checkout",
+        tier: 1,
+        dependsOn: [{ service: "s2" }, { service: "s3" }],
+      }),
+      makeService({
+        id: "s2",
+        name: "labs",
+        tier: 4,
+        lifecycle: "experimental",
+      }),
+      makeService({ id: "s3", name: "payments", tier: 1 }),
+    ];
+    const results = findTierInversions(services);
+    expect(results).toHaveLength(1);
+    expect(results[0].type).toBe("tier_inversion");
+    expect(results[0].message).toBe(
+      'Tier 1 service depends on "labs" (tier 4, experimental)',
+    );
+  });
+
+  test("resolves dependencies by name and skips untiered services", () => {
+    const services = [
+      makeService({
+        id: "s1",
+        name: "checkout",
+        tier: 2,
+        dependsOn: [{ service: "Labs" }, { service: "untiered" }],
+      }),
+      makeService({ id: "s2", name: "labs", tier: 3 }),
+      makeService({ id: "s3", name: "untiered" }),
+    ];
+    expect(findTierInversions(services).map((r) => r.entity)).toEqual([
+      "checkout",
+    ]);
+  });
+});
+
+describe("findMissingTierMetadata", () => {
+  test("tier 1 needs an owner and a runbook", () => {
+    const services = [
+      makeService({ id: "s1", name: "checkout", tier: 1 }),
+      makeService({ id: "s2", name: "tool", tier: 4 }),
+    ];
+    const results = findMissingTierMetadata(services);
+    expect(results.map((r) => r.message)).toEqual([
+      "Tier 1 services need an owner",
+      "Tier 1 services need a runbook link",
+    ]);
+    expect(results[0].severity).toBe("error");
+  });
+});
+
 describe("findEmptySystems", () => {
   test("warning when system has no services", () => {
     const systems = [makeSystem({ id: "sys1", name: "payments" })];
@@ -355,7 +618,11 @@ describe("runLintChecks", () => {
       system: "sys1",
       dependsOn: [],
     });
-    const results = runLintChecks([service], [system], [owner]);
+    const results = runLintChecks({
+      services: [service],
+      systems: [system],
+      owners: [owner],
+    });
     expect(results).toEqual([]);
   });
 
@@ -367,7 +634,7 @@ describe("runLintChecks", () => {
       name: "broken-svc",
       dependsOn: [{ service: "ghost" }],
     });
-    const results = runLintChecks([service], [system], []);
+    const results = runLintChecks({ services: [service], systems: [system] });
     const errors = results.filter((r) => r.severity === "error");
     const warnings = results.filter((r) => r.severity === "warning");
     expect(errors.length).toBeGreaterThanOrEqual(1);
@@ -405,7 +672,7 @@ describe("runLintChecks", () => {
       // duplicate name
       makeService({ id: "s5", name: "svc-c", owner: "o1" }),
     ];
-    const results = runLintChecks(services, [], [owner]);
+    const results = runLintChecks({ services, owners: [owner] });
     const types = new Set(results.map((r) => r.type));
     expect(types.has("orphaned_system_ref")).toBe(true);
     expect(types.has("orphaned_owner_ref")).toBe(true);
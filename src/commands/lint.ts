@@ -1,5 +1,30 @@
-import { readAll, requireRoot } from "../store.js";
-import type { Owner, Service, System } from "../types.js";
+import { relative } from "node:path";
+import { createCatalogIndex } from "../catalog-index.js";
+import type { UnreadableRecord } from "../catalog-store.js";
+import { checkCustomFields } from "../custom-fields.js";
+import {
+  findSourceConflicts,
+  loadSourceCatalogs,
+  resolveReferencesByName,
+  type SourceCatalog,
+  type SourceProblem,
+} from "../federation.js";
+import type { CatalogData } from "../relations.js";
+import { configSchema, recordSchema, validate } from "../schemas.js";
+import { readAll, readConfig, readUnreadable, requireRoot } from "../store.js";
+import { missingTierMetadata } from "../tiers.js";
+import type {
+  Api,
+  Collection,
+  Config,
+  CustomFieldDef,
+  Domain,
+  Owner,
+  Resource,
+  Service,
+  System,
+} from "../types.js";
+import { COLLECTIONS, KIND_LABELS } from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
 import {
   bold,
@@ -25,6 +50,7 @@ export interface LintResult {
 export function findOrphanedSystemRefs(
   services: Service[],
   systemIds: Set<string>,
+  resources: Resource[] = [],
 ): LintResult[] {
   const results: LintResult[] = [];
   for (const s of services) {
@@ -39,6 +65,17 @@ export function findOrphanedSystemRefs(
       });
     }
   }
+  for (const r of resources) {
+    if (r.system && !systemIds.has(r.system)) {
+      results.push({
+        type: "orphaned_system_ref",
+        severity: "error",
+        entity: r.name,
+        entityKind: "resource",
+        message: `References system "${r.system}" which does not exist`,
+      });
+    }
+  }
   return results;
 }
 
@@ -46,6 +83,9 @@ export function findOrphanedOwnerRefs(
   services: Service[],
   systems: System[],
   ownerIds: Set<string>,
+  resources: Resource[] = [],
+  domains: Domain[] = [],
+  apis: Api[] = [],
 ): LintResult[] {
   const results: LintResult[] = [];
   for (const s of services) {
@@ -70,6 +110,131 @@ export function findOrphanedOwnerRefs(
       });
     }
   }
+  for (const r of resources) {
+    if (r.owner && !ownerIds.has(r.owner)) {
+      results.push({
+        type: "orphaned_owner_ref",
+        severity: "error",
+        entity: r.name,
+        entityKind: "resource",
+        message: `References owner "${r.owner}" which does not exist`,
+      });
+    }
+  }
+  for (const d of domains) {
+    if (d.owner && !ownerIds.has(d.owner)) {
+      results.push({
+        type: "orphaned_owner_ref",
+        severity: "error",
+        entity: d.name,
+        entityKind: "domain",
+        message: `References owner "${d.owner}" which does not exist`,
+      });
+    }
+  }
+  for (const a of apis) {
+    if (a.owner && !ownerIds.has(a.owner)) {
+      results.push({
+        type: "orphaned_owner_ref",
+        severity: "error",
+        entity: a.name,
+        entityKind: "api",
+        message: `References owner "${a.owner}" which does not exist`,
+      });
+    }
+  }
+  return results;
+}
+
+export function findOrphanedProviderRefs(
+  apis: Api[],
+  serviceIds: Set<string>,
+): LintResult[] {
+  return apis
+    .filter((a) => a.provider && !serviceIds.has(a.provider))
+    .map((a) => ({
+      type: "orphaned_provider_ref",
+      severity: "error" as Severity,
+      entity: a.name,
+      entityKind: "api",
+      message: `Provided by service "${a.provider}" which does not exist`,
+      fix: `yp api rm -- ${a.id}`,
+    }));
+}
+
+export function findOrphanedDomainRefs(
+  systems: System[],
+  domainIds: Set<string>,
+): LintResult[] {
+  return systems
+    .filter((sys) => sys.domain && !domainIds.has(sys.domain))
+    .map((sys) => ({
+      type: "orphaned_domain_ref",
+      severity: "error" as Severity,
+      entity: sys.name,
+      entityKind: "system",
+      message: `References domain "${sys.domain}" which does not exist`,
+      fix: `yp system update ${sys.name} --clear domain`,
+    }));
+}
+
+export function findTeamHierarchyIssues(owners: Owner[]): LintResult[] {
+  const results: LintResult[] = [];
+  const byId = new Map(owners.map((o) => [o.id, o]));
+
+  for (const o of owners) {
+    if (o.parent && !byId.has(o.parent)) {
+      results.push({
+        type: "orphaned_owner_ref",
+        severity: "error",
+        entity: o.name,
+        entityKind: "owner",
+        message: `Parent team "${o.parent}" does not exist`,
+        fix: `yp owner update ${o.name} --clear parent`,
+      });
+    }
+    const parentOwner = o.parent ? byId.get(o.parent) : undefined;
+    if (parentOwner && parentOwner.type !== "team") {
+      results.push({
+        type: "parent_not_team",
+        severity: "error",
+        entity: o.name,
+        entityKind: "owner",
+        message: `Parent "${parentOwner.name}" is a ${parentOwner.type}, not a team`,
+        fix: `yp owner update ${o.name} --parent <team>`,
+      });
+    }
+    for (const m of o.members ?? []) {
+      if (!byId.has(m.person)) {
+        results.push({
+          type: "orphaned_owner_ref",
+          severity: "error",
+          entity: o.name,
+          entityKind: "owner",
+          message: `Member "${m.person}" does not exist`,
+          fix: `yp owner member-rm ${o.name} --person ${m.person}`,
+        });
+      }
+    }
+
+    // Walk up the parent chain; coming back to `o` means a cycle
+    const seen = new Set([o.id]);
+    let parent = o.parent ? byId.get(o.parent) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      parent = parent.parent ? byId.get(parent.parent) : undefined;
+    }
+    if (parent?.id === o.id) {
+      results.push({
+        type: "circular_team_hierarchy",
+        severity: "error",
+        entity: o.name,
+        entityKind: "owner",
+        message: `${o.name} is its own ancestor through its parent teams`,
+        fix: `yp owner update ${o.name} --clear parent`,
+      });
+    }
+  }
   return results;
 }
 
@@ -107,6 +272,55 @@ export function findDanglingDeps(
   return results;
 }
 
+/**
+ * Dependencies on an API that does not exist. A dependency on a service
+ * of a federated source keeps the API as written, so it is not checked.
+ */
+export function findDanglingApiRefs(
+  services: Service[],
+  apiIds: Set<string>,
+  localServiceIds: Set<string>,
+): LintResult[] {
+  const results: LintResult[] = [];
+  for (const s of services) {
+    for (const dep of s.dependsOn ?? []) {
+      if (dep.api && !apiIds.has(dep.api) && localServiceIds.has(dep.service)) {
+        results.push({
+          type: "dangling_api_ref",
+          severity: "error",
+          entity: s.name,
+          entityKind: "service",
+          message: `Depends on API "${dep.api}" which does not exist`,
+          fix: `yp service dep-update ${s.name} --on ${dep.service} --api ${dep.api} --clear api`,
+        });
+      }
+    }
+  }
+  return results;
+}
+
+export function findDanglingUses(
+  services: Service[],
+  resourceIds: Set<string>,
+): LintResult[] {
+  const results: LintResult[] = [];
+  for (const s of services) {
+    for (const use of s.uses ?? []) {
+      if (!resourceIds.has(use.resource)) {
+        results.push({
+          type: "dangling_resource_ref",
+          severity: "error",
+          entity: s.name,
+          entityKind: "service",
+          message: `Uses resource "${use.resource}" which does not exist`,
+          fix: `yp service use-rm ${s.name} --resource ${use.resource}`,
+        });
+      }
+    }
+  }
+  return results;
+}
+
 export function findCircularDeps(services: Service[]): LintResult[] {
   const results: LintResult[] = [];
   const serviceMap = new Map(services.map((s) => [s.id, s]));
@@ -153,10 +367,61 @@ export function findCircularDeps(services: Service[]): LintResult[] {
   return results;
 }
 
+export function findTierInversions(services: Service[]): LintResult[] {
+  const results: LintResult[] = [];
+  // Dependencies may name the target instead of holding its id
+  const byRef = new Map<string, Service>();
+  for (const s of services) {
+    byRef.set(s.id, s);
+    byRef.set(s.name.toLowerCase(), s);
+  }
+  for (const s of services) {
+    if (s.tier === undefined) continue;
+    for (const dep of s.dependsOn ?? []) {
+      const target =
+        byRef.get(dep.service) ?? byRef.get(dep.service.toLowerCase());
+      if (!target?.tier || target.tier <= s.tier) continue;
+      const experimental =
+        target.lifecycle === "experimental" ? ", experimental" : "";
+      results.push({
+        type: "tier_inversion",
+        severity: "warning",
+        entity: s.name,
+        entityKind: "service",
+        message: `Tier ${s.tier} service depends on "${target.name}" (tier ${target.tier}${experimental})`,
+        fix: `yp service update ${target.name} --tier ${s.tier}  OR  yp service dep-rm ${s.name} --on ${target.name}`,
+      });
+    }
+  }
+  return results;
+}
+
+export function findMissingTierMetadata(services: Service[]): LintResult[] {
+  const results: LintResult[] = [];
+  for (const s of services) {
+    for (const missing of missingTierMetadata(s)) {
+      results.push({
+        type: "missing_tier_metadata",
+        severity: "error",
+        entity: s.name,
+        entityKind: "service",
+        message: `Tier ${s.tier} services need ${missing === "owner" ? "an owner" : "a runbook link"}`,
+        fix:
+          missing === "owner"
+            ? `yp service update ${s.name} --owner <owner>`
+            : `yp service link-add ${s.name} --title Runbook --url <url> --type runbook`,
+      });
+    }
+  }
+  return results;
+}
+
 export function findDuplicateNames(
   services: Service[],
   systems: System[],
   owners: Owner[],
+  resources: Resource[] = [],
+  domains: Domain[] = [],
 ): LintResult[] {
   const results: LintResult[] = [];
   const check = (items: { name: string }[], kind: string) => {
@@ -181,6 +446,58 @@ export function findDuplicateNames(
   check(services, "service");
   check(systems, "system");
   check(owners, "owner");
+  check(resources, "resource");
+  check(domains, "domain");
+  return results;
+}
+
+export function findAliasConflicts(
+  services: Service[],
+  systems: System[],
+  owners: Owner[],
+  resources: Resource[] = [],
+  domains: Domain[] = [],
+): LintResult[] {
+  const results: LintResult[] = [];
+  const check = (
+    items: { id: string; name: string; aliases?: string[] }[],
+    kind: string,
+  ) => {
+    const names = new Map(items.map((i) => [i.name.toLowerCase(), i]));
+    const aliasOwners = new Map<string, string>();
+    for (const item of items) {
+      for (const alias of item.aliases ?? []) {
+        const lower = alias.toLowerCase();
+        const named = names.get(lower);
+        const aliased = aliasOwners.get(lower);
+        if (named && named.id !== item.id) {
+          results.push({
+            type: "alias_conflict",
+            severity: "error",
+            entity: item.name,
+            entityKind: kind,
+            message: `Alias "${alias}" is the name of another ${kind}`,
+            fix: `yp ${kind} update ${item.id} --clear aliases`,
+          });
+        } else if (aliased && aliased !== item.name) {
+          results.push({
+            type: "alias_conflict",
+            severity: "error",
+            entity: item.name,
+            entityKind: kind,
+            message: `Alias "${alias}" is also an alias of ${kind} "${aliased}"`,
+          });
+        }
+        aliasOwners.set(lower, item.name);
+      }
+    }
+  };
+
+  check(services, "service");
+  check(systems, "system");
+  check(owners, "owner");
+  check(resources, "resource");
+  check(domains, "domain");
   return results;
 }
 
@@ -188,8 +505,9 @@ export function findEmptySystems(
   systems: System[],
   services: Service[],
 ): LintResult[] {
+  const index = createCatalogIndex((c) => (c === "services" ? services : []));
   return systems
-    .filter((sys) => !services.some((s) => s.system === sys.id))
+    .filter((sys) => index.inSystem("services", sys.id).length === 0)
     .map((sys) => ({
       type: "empty_system",
       severity: "warning" as Severity,
@@ -199,27 +517,229 @@ export function findEmptySystems(
     }));
 }
 
-/**
- * Run all lint checks against provided catalog data.
- * Pure function — no I/O, no process.exit.
- */
-export function runLintChecks(
+const UPDATABLE_KINDS = ["service", "system", "owner"];
+
+export function findCustomFieldIssues(
+  defs: CustomFieldDef[],
   services: Service[],
   systems: System[],
   owners: Owner[],
+  resources: Resource[] = [],
+  domains: Domain[] = [],
+  apis: Api[] = [],
+): LintResult[] {
+  const results: LintResult[] = [];
+  const check = (
+    records: { name: string; custom?: Record<string, string> }[],
+    kind: string,
+  ) => {
+    for (const r of records) {
+      for (const issue of checkCustomFields(r.custom, kind, defs)) {
+        results.push({
+          type: `${issue.problem}_custom_field`,
+          severity: issue.problem === "unknown" ? "warning" : "error",
+          entity: r.name,
+          entityKind: kind,
+          message: issue.message,
+          // Resources and domains have no update subcommand
+          fix: UPDATABLE_KINDS.includes(kind)
+            ? issue.problem === "unknown"
+              ? `yp ${kind} update ${r.name} --unset ${issue.key}`
+              : `yp ${kind} update ${r.name} --set ${issue.key}=<value>`
+            : undefined,
+        });
+      }
+    }
+  };
+  check(services, "service");
+  check(systems, "system");
+  check(owners, "owner");
+  check(resources, "resource");
+  check(domains, "domain");
+  check(apis, "api");
+  return results;
+}
+
+export function findSchemaViolations(
+  collection: Collection,
+  records: unknown[],
+): LintResult[] {
+  const schema = recordSchema(collection);
+  return records.flatMap((record) => {
+    const fields = (record ?? {}) as Record<string, unknown>;
+    const entity = String(fields.name ?? fields.id ?? "(unnamed)");
+    return validate(record, schema).map((v) => ({
+      type: "schema_violation",
+      severity: "error" as Severity,
+      entity,
+      entityKind: KIND_LABELS[collection],
+      message: v.message,
+    }));
+  });
+}
+
+export function findUnreadableRecords(
+  records: UnreadableRecord[],
+  cwd = process.cwd(),
 ): LintResult[] {
-  const serviceIds = new Set(services.map((s) => s.id));
-  const systemIds = new Set(systems.map((s) => s.id));
-  const ownerIds = new Set(owners.map((o) => o.id));
+  return records.map((r) => ({
+    type: "unreadable_record",
+    severity: "error" as Severity,
+    entity: relative(cwd, r.path),
+    entityKind: KIND_LABELS[r.collection],
+    message: r.trashed
+      ? `Trash entry cannot be read, so it cannot be restored: ${r.message}`
+      : `Cannot be read, so every command ignores it: ${r.message}`,
+    fix: `Repair or delete ${relative(cwd, r.path)}`,
+  }));
+}
+
+export function findConfigViolations(config: Config): LintResult[] {
+  return validate(config, configSchema()).map((v) => ({
+    type: "schema_violation",
+    severity: "error" as Severity,
+    entity: "config.json",
+    entityKind: "config",
+    message: v.message,
+  }));
+}
+
+export function findFederationIssues(
+  local: CatalogData,
+  sources: SourceCatalog[],
+  problems: SourceProblem[] = [],
+): LintResult[] {
+  const results: LintResult[] = problems.map((p) => ({
+    type: "missing_source",
+    severity: "error" as Severity,
+    entity: p.name,
+    entityKind: "source",
+    message: p.message,
+    fix: "Fix or remove the entry under sources in config.json",
+  }));
+  for (const c of findSourceConflicts(local, sources)) {
+    const where = c.catalogs.join(", ");
+    results.push(
+      c.kind === "id"
+        ? {
+            type: "source_id_conflict",
+            severity: "error",
+            entity: c.value,
+            entityKind: KIND_LABELS[c.collection],
+            message: `Id is defined in more than one catalog (${where}); only the ${c.catalogs[0]} record is used`,
+          }
+        : {
+            type: "source_name_conflict",
+            severity: "warning",
+            entity: c.value,
+            entityKind: KIND_LABELS[c.collection],
+            message: `Name is defined in more than one catalog (${where}); references by name use the ${c.catalogs[0]} record`,
+          },
+    );
+  }
+  return results;
+}
+
+/**
+ * What runLintChecks looks at: the local records, missing collections
+ * counting as empty, plus the records of federated sources in `external`
+ * and the custom field definitions of `config`.
+ */
+export interface LintInput extends Partial<CatalogData> {
+  external?: CatalogData;
+  config?: Config;
+}
+
+/**
+ * Run all lint checks against provided catalog data.
+ * Records that break their schema are reported and left out of the other
+ * checks, which assume well-formed records; they still count as existing
+ * when other records reference them. So do the records of federated
+ * sources in `external`, which are not checked themselves.
+ * Pure function — no I/O, no process.exit.
+ */
+export function runLintChecks(input: LintInput): LintResult[] {
+  const {
+    services: allServices = [],
+    systems: allSystems = [],
+    owners: allOwners = [],
+    resources: allResources = [],
+    domains: allDomains = [],
+    apis: allApis = [],
+    external,
+    config,
+  } = input;
+  const schemaResults: LintResult[] = [];
+  const wellFormed = <T>(collection: Collection, records: T[]): T[] =>
+    records.filter((record) => {
+      const violations = findSchemaViolations(collection, [record]);
+      schemaResults.push(...violations);
+      return violations.length === 0;
+    });
+  let local: CatalogData = {
+    services: wellFormed("services", allServices),
+    systems: wellFormed("systems", allSystems),
+    owners: wellFormed("owners", allOwners),
+    resources: wellFormed("resources", allResources),
+    domains: wellFormed("domains", allDomains),
+    apis: wellFormed("apis", allApis),
+  };
+  const known: CatalogData = {
+    services: [...allServices, ...(external?.services ?? [])],
+    systems: [...allSystems, ...(external?.systems ?? [])],
+    owners: [...allOwners, ...(external?.owners ?? [])],
+    resources: [...allResources, ...(external?.resources ?? [])],
+    domains: [...allDomains, ...(external?.domains ?? [])],
+    apis: [...allApis, ...(external?.apis ?? [])],
+  };
+  // Local records may reference records of sources by name
+  if (external) local = resolveReferencesByName(local, known);
+  const { services, systems, owners, resources, domains, apis } = local;
+
+  const serviceIds = new Set(known.services.map((s) => s.id));
+  const systemIds = new Set(known.systems.map((s) => s.id));
+  const ownerIds = new Set(known.owners.map((o) => o.id));
+  const resourceIds = new Set(known.resources.map((r) => r.id));
+  const domainIds = new Set(known.domains.map((d) => d.id));
+  const apiIds = new Set(known.apis.map((a) => a.id));
 
   return [
-    ...findOrphanedSystemRefs(services, systemIds),
-    ...findOrphanedOwnerRefs(services, systems, ownerIds),
+    ...schemaResults,
+    ...findOrphanedSystemRefs(services, systemIds, resources),
+    ...findOrphanedOwnerRefs(
+      services,
+      systems,
+      ownerIds,
+      resources,
+      domains,
+      apis,
+    ),
+    ...findOrphanedDomainRefs(systems, domainIds),
+    ...findOrphanedProviderRefs(apis, serviceIds),
+    ...findTeamHierarchyIssues(owners),
     ...findMissingOwners(services),
     ...findDanglingDeps(services, serviceIds),
+    ...findDanglingApiRefs(
+      services,
+      apiIds,
+      new Set(allServices.map((s) => s.id)),
+    ),
+    ...findDanglingUses(services, resourceIds),
     ...findCircularDeps(services),
-    ...findDuplicateNames(services, systems, owners),
+    ...findTierInversions(services),
+    ...findMissingTierMetadata(services),
+    ...findDuplicateNames(services, systems, owners, resources, domains),
+    ...findAliasConflicts(services, systems, owners, resources, domains),
     ...findEmptySystems(systems, services),
+    ...findCustomFieldIssues(
+      config?.customFields ?? [],
+      services,
+      systems,
+      owners,
+      resources,
+      domains,
+      apis,
+    ),
   ];
 }
 
@@ -232,8 +752,37 @@ export async function lint(
   const services = readAll<Service>(root, "services");
   const systems = readAll<System>(root, "systems");
   const owners = readAll<Owner>(root, "owners");
+  const resources = readAll<Resource>(root, "resources");
+  const domains = readAll<Domain>(root, "domains");
+  const apis = readAll<Api>(root, "apis");
 
-  const results = runLintChecks(services, systems, owners);
+  const config = readConfig(root);
+  const { sources, problems } = loadSourceCatalogs(root);
+  const external = sources.length
+    ? (Object.fromEntries(
+        COLLECTIONS.map((c) => [c, sources.flatMap((s) => s.catalog[c])]),
+      ) as unknown as CatalogData)
+    : undefined;
+
+  const results = [
+    ...findUnreadableRecords(readUnreadable(root)),
+    ...findConfigViolations(config),
+    ...findFederationIssues(
+      { services, systems, owners, resources, domains, apis },
+      sources,
+      problems,
+    ),
+    ...runLintChecks({
+      services,
+      systems,
+      owners,
+      resources,
+      domains,
+      apis,
+      external,
+      config,
+    }),
+  ];
   const errors = results.filter((r) => r.severity === "error");
   const warnings = results.filter((r) => r.severity === "warning");
 
@@ -249,7 +798,7 @@ export async function lint(
         success("Catalog is clean — no issues found");
         console.log(
           dim(
-            `  Checked ${services.length} services, ${systems.length} systems, ${owners.length} owners`,
+            `  Checked ${services.length} services, ${systems.length} systems, ${owners.length} owners, ${resources.length} resources, ${domains.length} domains, ${apis.length} APIs`,
           ),
         );
         return;
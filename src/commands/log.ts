@@ -0,0 +1,155 @@
+import { readHistory, readOne, requireRoot, resolveId } from "../store.js";
+import type { Collection, HistoryEntry } from "../types.js";
+import { COLLECTIONS, KIND_LABELS } from "../types.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, dim, error, info, output } from "../utils/output.js";
+
+const KIND_COLLECTIONS = Object.fromEntries(
+  COLLECTIONS.map((c) => [KIND_LABELS[c], c]),
+) as Record<string, Collection>;
+
+interface LogMatch {
+  collection: Collection;
+  id: string;
+  deleted: boolean;
+}
+
+/**
+ * Find live or deleted records by id or name. Deleted records are found
+ * through their history.
+ */
+function findMatches(
+  root: string,
+  idOrName: string,
+  collections: readonly Collection[],
+): LogMatch[] {
+  const matches: LogMatch[] = [];
+  const lower = idOrName.toLowerCase();
+
+  for (const collection of collections) {
+    const id = resolveId(root, collection, idOrName);
+    if (readOne(root, collection, id)) {
+      matches.push({ collection, id, deleted: false });
+      continue;
+    }
+    const ids = new Set(
+      readHistory(root, collection)
+        .filter((e) => e.id === idOrName || e.name.toLowerCase() === lower)
+        .map((e) => e.id),
+    );
+    for (const deletedId of ids) {
+      matches.push({ collection, id: deletedId, deleted: true });
+    }
+  }
+
+  return matches;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return dim("(unset)");
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function printEntry(entry: HistoryEntry): void {
+  const when = entry.at.replace("T", " ").replace(/\.\d+Z$/, "Z");
+  console.log(`${dim(when)}  ${bold(entry.action)}  ${entry.actor}`);
+  if (entry.action === "delete") return;
+  for (const c of entry.changes) {
+    if (entry.action === "create") {
+      console.log(`    ${c.field}: ${formatValue(c.to)}`);
+    } else {
+      console.log(
+        `    ${c.field}: ${formatValue(c.from)} → ${formatValue(c.to)}`,
+      );
+    }
+  }
+}
+
+export async function log(
+  args: string[],
+  options: OutputOptions & { kind?: string },
+): Promise<void> {
+  const root = requireRoot();
+  const idOrName = args[0];
+
+  let collections: readonly Collection[] = COLLECTIONS;
+  if (options.kind) {
+    const collection = KIND_COLLECTIONS[options.kind];
+    if (!collection) {
+      output(options, {
+        json: () => ({ success: false, error: "invalid_kind" }),
+        human: () =>
+          error(
+            `Unknown kind: ${options.kind} (expected ${Object.keys(KIND_COLLECTIONS).join(" | ")})`,
+          ),
+      });
+      process.exit(1);
+    }
+    collections = [collection];
+  }
+
+  const matches = findMatches(root, idOrName, collections);
+
+  if (matches.length === 0) {
+    output(options, {
+      json: () => ({ success: false, error: "not_found" }),
+      human: () => error(`No record or history found for: ${idOrName}`),
+    });
+    process.exit(1);
+  }
+
+  if (matches.length > 1) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "ambiguous",
+        matches: matches.map((m) => ({
+          kind: m.collection.slice(0, -1),
+          id: m.id,
+          deleted: m.deleted,
+        })),
+      }),
+      human: () => {
+        error(`${idOrName} matches ${matches.length} records:`);
+        for (const m of matches) {
+          console.log(
+            `    ${m.collection.slice(0, -1)} ${m.id}${m.deleted ? dim(" (deleted)") : ""}`,
+          );
+        }
+        info("Pass an id or --kind to pick one");
+      },
+    });
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  const [match] = matches;
+  const history = readHistory(root, match.collection, match.id);
+  const kind = match.collection.slice(0, -1);
+  const name = history.at(-1)?.name ?? idOrName;
+
+  output(options, {
+    json: () => ({
+      success: true,
+      kind,
+      id: match.id,
+      name,
+      deleted: match.deleted,
+      history,
+    }),
+    human: () => {
+      console.log();
+      console.log(
+        `${bold(name)}  ${kind}  ${dim(match.id)}${match.deleted ? dim("  (deleted)") : ""}`,
+      );
+      console.log();
+      if (history.length === 0) {
+        console.log(dim("No recorded changes."));
+        return;
+      }
+      for (const entry of history) {
+        printEntry(entry);
+      }
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { withLock } from "../atomic.js";
+import { planMigration, type RawCatalog, type RawRecord } from "../migrate.js";
+import {
+  catalogVersion,
+  getStore,
+  readAll,
+  readConfig,
+  requireRoot,
+  writeConfig,
+} from "../store.js";
+import { CATALOG_VERSION, COLLECTIONS } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import {
+  bold,
+  bullet,
+  dim,
+  error,
+  info,
+  output,
+  success,
+  warn,
+} from "../utils/output.js";
+
+export async function migrate(
+  _args: string[],
+  options: OutputOptions & { dryRun?: boolean },
+): Promise<void> {
+  const root = requireRoot();
+  const from = catalogVersion(root);
+
+  if (from > CATALOG_VERSION) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "catalog_too_new",
+        version: from,
+        supported: CATALOG_VERSION,
+      }),
+      human: () =>
+        error(
+          `Catalog is at version ${from}, newer than this yp supports (${CATALOG_VERSION}). Upgrade yellowpages-cli.`,
+        ),
+    });
+    process.exit(1);
+  }
+
+  if (from === CATALOG_VERSION) {
+    output(options, {
+      json: () => ({
+        success: true,
+        from,
+        to: from,
+        migrations: [],
+        changed: [],
+      }),
+      human: () => info(`Catalog is up to date (version ${from})`),
+    });
+    return;
+  }
+
+  const catalog = {} as RawCatalog;
+  for (const collection of COLLECTIONS) {
+    catalog[collection] = readAll<RawRecord>(root, collection);
+  }
+  const plan = planMigration(catalog, from);
+
+  if (!options.dryRun) {
+    // Bypass writeRecord: it refuses to write until the catalog is migrated
+    withLock(root, () => {
+      const store = getStore(root);
+      for (const change of plan.changes) {
+        store.write(change.collection, change.record);
+      }
+      writeConfig(root, { ...readConfig(root), version: plan.to });
+    });
+  }
+
+  output(options, {
+    json: () => ({
+      success: true,
+      dryRun: options.dryRun ?? false,
+      from: plan.from,
+      to: plan.to,
+      migrations: plan.migrations.map(({ version, description }) => ({
+        version,
+        description,
+      })),
+      changed: plan.changes.map((c) => ({
+        collection: c.collection,
+        id: c.record.id,
+        name: c.record.name,
+      })),
+    }),
+    human: () => {
+      console.log();
+      console.log(bold(`Version ${plan.from} → ${plan.to}`));
+      for (const m of plan.migrations) {
+        bullet(`${m.version}  ${m.description}`);
+      }
+      console.log();
+      if (plan.changes.length === 0) {
+        console.log(dim("No records need changes."));
+      } else {
+        console.log(bold(options.dryRun ? "Would change:" : "Changed:"));
+        for (const c of plan.changes) {
+          console.log(
+            `  ${c.collection}/${c.record.name ?? c.record.id}  ${dim(c.record.id)}`,
+          );
+        }
+      }
+      console.log();
+      if (options.dryRun) {
+        warn("Dry run — no changes made. Remove --dry-run to apply.");
+      } else {
+        success(`Catalog migrated to version ${plan.to}`);
+      }
+    },
+  });
+}
@@ -1,21 +1,147 @@
 import { Command } from "commander";
-import { loadCatalog, resolveOwner } from "../relations.js";
+import { sourceOf } from "../federation.js";
+import { isValidTimeZone, isWithinHours, parseHours } from "../oncall.js";
+import { applyPatch, parseKeyValues, unknownFields } from "../patch.js";
 import {
-  deleteRecord,
+  type Contact,
+  catalogIndex,
+  loadCatalog,
+  type ResolvedOnCall,
+  resolveCatalogId,
+  resolveOnCall,
+  resolveOwner,
+  resolveOwnerTree,
+} from "../relations.js";
+import {
+  mutateRecord,
   newId,
+  readOne,
   requireRoot,
   resolveId,
   writeRecord,
 } from "../store.js";
-import type { Owner } from "../types.js";
+import type { Member, OnCall, Owner } from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
-import { bold, bullet, dim, error, output, success } from "../utils/output.js";
+import {
+  bold,
+  bullet,
+  dim,
+  error,
+  info,
+  output,
+  success,
+} from "../utils/output.js";
+import { parseSetOption, requireValidCustom } from "./custom.js";
+import { addLinkCommands, printLinks } from "./link.js";
+import { requireReference } from "./reference.js";
+import { addRemoveCommand } from "./remove.js";
+import { addRenameCommand } from "./rename.js";
 
 function getOutputOptions(cmd: Command): OutputOptions {
   const root = cmd.optsWithGlobals();
   return { json: root.json, quiet: root.quiet };
 }
 
+/**
+ * Resolve --parent like any other reference, then exit when it is not a
+ * team or would make the team its own ancestor.
+ */
+function resolveParent(
+  root: string,
+  options: OutputOptions,
+  ownerId: string | undefined,
+  parent: string,
+  allowDangling?: boolean,
+): string {
+  const parentId = requireReference(
+    root,
+    options,
+    "owners",
+    parent,
+    allowDangling,
+  );
+  // Source records are kept by name; look them up in the merged catalog
+  const catalog = loadCatalog(root);
+  const found = catalogIndex(catalog).get<Owner>(
+    "owners",
+    resolveCatalogId(catalog, "owners", parentId),
+  );
+  if (!found) return parentId; // dangling, as asked
+  if (found.type !== "team") {
+    output(options, {
+      json: () => ({ success: false, error: "parent_not_team" }),
+      human: () =>
+        error(`${parent} is a ${found.type}; only a team can be a parent`),
+    });
+    process.exit(1);
+  }
+  const below = ownerId
+    ? resolveOwnerTree(ownerId, catalog).map((r) => r.owner.id)
+    : [];
+  if (below.includes(found.id)) {
+    output(options, {
+      json: () => ({ success: false, error: "parent_cycle" }),
+      human: () =>
+        error(`${parent} is this team or one of its sub-teams; pick another`),
+    });
+    process.exit(1);
+  }
+  return parentId;
+}
+
+/**
+ * On-call data as reported by `owner oncall` and `service show`.
+ */
+export function summarizeOnCall(resolved: ResolvedOnCall, now?: Date) {
+  const { owner, oncall, primary, escalation } = resolved;
+  return {
+    owner: { id: owner.id, name: owner.name },
+    primary,
+    escalation,
+    pager: oncall?.pager,
+    hours: oncall?.hours,
+    timezone: oncall?.timezone,
+    inHours: oncall ? isWithinHours(oncall, now) : null,
+    slack: owner.slack,
+    email: owner.email,
+  };
+}
+
+function formatContact(c: Contact): string {
+  const reach = [c.email, c.slack].filter(Boolean).join(", ");
+  return reach ? `${c.name} ${dim(`(${reach})`)}` : c.name;
+}
+
+/**
+ * Print on-call details, indented under a heading.
+ */
+export function printOnCall(summary: ReturnType<typeof summarizeOnCall>) {
+  if (summary.primary) {
+    console.log(`    Primary:    ${formatContact(summary.primary)}`);
+  }
+  summary.escalation.forEach((c, i) => {
+    console.log(`    Escalate ${i + 1}: ${formatContact(c)}`);
+  });
+  if (summary.pager) console.log(`    Pager:      ${summary.pager}`);
+  if (summary.hours) {
+    const now =
+      summary.inHours === null
+        ? ""
+        : summary.inHours
+          ? " — in hours now"
+          : " — out of hours now";
+    console.log(
+      `    Hours:      ${summary.hours} ${summary.timezone ?? "UTC"}${dim(now)}`,
+    );
+  }
+  if (!summary.primary && summary.escalation.length === 0 && !summary.pager) {
+    const fallback = [summary.slack, summary.email].filter(Boolean).join(", ");
+    console.log(
+      dim(`    No on-call recorded${fallback ? `; try ${fallback}` : ""}`),
+    );
+  }
+}
+
 export const ownerCommand = new Command("owner").description(
   "Manage owners (teams and people)",
 );
@@ -27,6 +153,9 @@ ownerCommand
   .requiredOption("--type <type>", "team | person")
   .option("--email <email>", "Contact email")
   .option("--slack <channel>", "Slack channel or handle")
+  .option("--parent <id-or-name>", "Parent team")
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .option("--set <key=value...>", "Set custom keys")
   .action((opts, cmd) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
@@ -38,10 +167,21 @@ ownerCommand
       type: opts.type,
       email: opts.email,
       slack: opts.slack,
+      parent: opts.parent
+        ? resolveParent(
+            root,
+            options,
+            undefined,
+            opts.parent,
+            opts.allowDangling,
+          )
+        : undefined,
+      custom: parseSetOption(opts.set, options),
       created: now,
       updated: now,
     };
 
+    requireValidCustom(root, options, "owner", owner.custom);
     writeRecord(root, "owners", owner);
 
     output(options, {
@@ -86,8 +226,8 @@ ownerCommand
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
-    const id = resolveId<Owner>(root, "owners", idOrName);
     const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "owners", idOrName);
     const resolved = resolveOwner(id, catalog);
 
     if (!resolved) {
@@ -98,16 +238,53 @@ ownerCommand
       process.exit(1);
     }
 
-    const { owner, services, systems } = resolved;
+    const { owner, parent, children, members, teams, services, systems } =
+      resolved;
 
     output(options, {
-      json: () => ({ owner, services, systems }),
+      json: () => ({
+        owner,
+        parent,
+        children,
+        members: members.map((m) => ({ ...m.person, role: m.role })),
+        teams: teams.map((t) => ({ ...t.team, role: t.role })),
+        services,
+        systems,
+      }),
       human: () => {
         console.log();
         console.log(bold(owner.name), dim(`${owner.type}  ${owner.id}`));
         if (owner.email) console.log(`  Email: ${owner.email}`);
         if (owner.slack) console.log(`  Slack: ${owner.slack}`);
+        if (parent) console.log(`  Parent: ${parent.name}`);
+        if (owner.aliases?.length)
+          console.log(`  Aliases: ${owner.aliases.join(", ")}`);
+        if (sourceOf(owner))
+          console.log(`  Source: ${sourceOf(owner)} (read-only)`);
+        if (teams.length > 0) {
+          const list = teams.map(
+            (t) => `${t.team.name}${t.role ? ` (${t.role})` : ""}`,
+          );
+          console.log(`  Member of: ${list.join(", ")}`);
+        }
+        printLinks(owner.links);
         console.log();
+        if (members.length > 0) {
+          console.log(bold("  Members"));
+          for (const m of members) {
+            bullet(
+              `${m.person.name}${m.role ? `  ${dim(m.role)}` : ""}  ${dim(m.person.id)}`,
+            );
+          }
+          console.log();
+        }
+        if (children.length > 0) {
+          console.log(bold("  Sub-teams"));
+          for (const c of children) {
+            bullet(`${c.name}  ${dim(c.id)}`);
+          }
+          console.log();
+        }
         if (systems.length > 0) {
           console.log(bold("  Systems"));
           for (const s of systems) {
@@ -130,17 +307,200 @@ ownerCommand
     });
   });
 
-// --- rm ---
+// --- update ---
+const OWNER_CLEARABLE = [
+  "email",
+  "slack",
+  "parent",
+  "members",
+  "oncall",
+  "links",
+  "aliases",
+] as const;
+
 ownerCommand
-  .command("rm <id-or-name>")
+  .command("update <id-or-name>")
+  .option("--name <name>", "New owner name")
+  .option("--type <type>", "team | person")
+  .option("--email <email>", "Contact email")
+  .option("--slack <channel>", "Slack channel or handle")
+  .option("--parent <id-or-name>", "Parent team")
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--unset <keys...>", "Remove custom keys")
+  .option("--clear <fields...>", `Clear fields (${OWNER_CLEARABLE.join(", ")})`)
+  .action((idOrName: string, opts, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const id = resolveId<Owner>(root, "owners", idOrName);
+    let changed = false;
+    const updated = mutateRecord<Owner>(root, "owners", id, (owner) => {
+      const badFields = unknownFields(opts.clear ?? [], OWNER_CLEARABLE);
+      const custom = parseKeyValues(opts.set ?? []);
+      if (badFields.length > 0 || custom.invalid.length > 0) {
+        output(options, {
+          json: () => ({
+            success: false,
+            error: "invalid_arguments",
+            clear: badFields,
+            set: custom.invalid,
+          }),
+          human: () => {
+            if (badFields.length > 0)
+              error(`Cannot clear: ${badFields.join(", ")}`);
+            if (custom.invalid.length > 0)
+              error(`Expected key=value: ${custom.invalid.join(", ")}`);
+          },
+        });
+        process.exit(1);
+      }
+
+      const patch = applyPatch(owner, {
+        set: {
+          name: opts.name,
+          type: opts.type,
+          email: opts.email,
+          slack: opts.slack,
+          parent: opts.parent
+            ? resolveParent(root, options, id, opts.parent, opts.allowDangling)
+            : undefined,
+        },
+        clear: opts.clear,
+        setCustom: opts.set ? custom.values : undefined,
+        unsetCustom: opts.unset,
+      });
+
+      requireValidCustom(root, options, "owner", patch.record.custom, [
+        ...Object.keys(custom.values),
+        ...(opts.unset ?? []),
+      ]);
+      changed = patch.changed;
+      return changed ? patch.record : null;
+    });
+
+    if (!updated) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`Owner not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+
+    output(options, {
+      json: () => ({ success: true, changed, owner: updated }),
+      human: () =>
+        changed
+          ? success(`Owner ${bold(updated.name)} updated (${dim(updated.id)})`)
+          : info(`Owner ${bold(updated.name)} unchanged`),
+    });
+  });
+
+// --- oncall ---
+ownerCommand
+  .command("oncall <id-or-name>")
+  .description("Who to page for an owner, and how to escalate")
   .action((idOrName: string, _opts: unknown, cmd: Command) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
+    const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "owners", idOrName);
+    const resolved = resolveOnCall(id, catalog);
+
+    if (!resolved) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`Owner not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const summary = summarizeOnCall(resolved);
+
+    output(options, {
+      json: () => summary,
+      human: () => {
+        console.log();
+        console.log(bold(resolved.owner.name), dim("on-call"));
+        printOnCall(summary);
+        console.log();
+      },
+    });
+  });
+
+// --- oncall set ---
+const ONCALL_CLEARABLE = [
+  "primary",
+  "escalation",
+  "pager",
+  "hours",
+  "timezone",
+] as const;
+
+ownerCommand
+  .command("oncall-set <id-or-name>")
+  .option("--primary <person>", "First contact (person id or name, or email)")
+  .option("--escalation <contacts...>", "Escalation chain, in order")
+  .option("--pager <id>", "Pager service or rotation id")
+  .option("--hours <range>", "Working hours, e.g. 09:00-17:00")
+  .option("--timezone <tz>", "Time zone of the hours, e.g. Europe/Berlin")
+  .option(
+    "--clear <fields...>",
+    `Clear fields (${ONCALL_CLEARABLE.join(", ")})`,
+  )
+  .action((idOrName: string, opts, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
     const id = resolveId<Owner>(root, "owners", idOrName);
-    const deleted = deleteRecord(root, "owners", id);
+    let changed = false;
+    const next = mutateRecord<Owner>(root, "owners", id, (owner) => {
+      const badFields = unknownFields(opts.clear ?? [], ONCALL_CLEARABLE);
+      const badHours = opts.hours && !parseHours(opts.hours);
+      const badZone = opts.timezone && !isValidTimeZone(opts.timezone);
+      if (badFields.length > 0 || badHours || badZone) {
+        output(options, {
+          json: () => ({
+            success: false,
+            error: "invalid_arguments",
+            clear: badFields,
+            ...(badHours ? { hours: opts.hours } : {}),
+            ...(badZone ? { timezone: opts.timezone } : {}),
+          }),
+          human: () => {
+            if (badFields.length > 0)
+              error(`Cannot clear: ${badFields.join(", ")}`);
+            if (badHours)
+              error(`Invalid hours: ${opts.hours} (use e.g. 09:00-17:00)`);
+            if (badZone) error(`Unknown time zone: ${opts.timezone}`);
+          },
+        });
+        process.exit(1);
+      }
+
+      // Contacts that name an owner are stored by id, anything else as given
+      const contact = (ref: string) => resolveId<Owner>(root, "owners", ref);
+      const oncall: OnCall = { ...owner.oncall };
+      if (opts.primary) oncall.primary = contact(opts.primary);
+      if (opts.escalation) oncall.escalation = opts.escalation.map(contact);
+      if (opts.pager) oncall.pager = opts.pager;
+      if (opts.hours) oncall.hours = opts.hours;
+      if (opts.timezone) oncall.timezone = opts.timezone;
+      for (const field of opts.clear ?? [])
+        delete oncall[field as keyof OnCall];
 
-    if (!deleted) {
+      const patch = applyPatch(
+        owner,
+        Object.keys(oncall).length > 0
+          ? { set: { oncall } }
+          : { clear: ["oncall"] },
+      );
+      changed = patch.changed;
+      return changed ? patch.record : null;
+    });
+
+    if (!next) {
       output(options, {
         json: () => ({ success: false, error: "not_found" }),
         human: () => error(`Owner not found: ${idOrName}`),
@@ -149,7 +509,132 @@ ownerCommand
     }
 
     output(options, {
-      json: () => ({ success: true, deleted: id }),
-      human: () => success(`Removed owner ${dim(id)}`),
+      json: () => ({ success: true, changed, owner: next }),
+      human: () =>
+        changed
+          ? success(`On-call for ${bold(next.name)} updated`)
+          : info(`On-call for ${bold(next.name)} unchanged`),
     });
   });
+
+/**
+ * Change a team under the catalog lock (see mutateRecord), exiting when
+ * there is no team by that id or name.
+ */
+function mutateTeam(
+  root: string,
+  options: OutputOptions,
+  idOrName: string,
+  change: (team: Owner) => Owner,
+): Owner {
+  const notFound = (): never => {
+    output(options, {
+      json: () => ({ success: false, error: "team_not_found" }),
+      human: () => error(`Team not found: ${idOrName}`),
+    });
+    process.exit(1);
+  };
+  const id = resolveId<Owner>(root, "owners", idOrName);
+  const team = mutateRecord<Owner>(root, "owners", id, (owner) =>
+    owner.type === "team" ? change(owner) : notFound(),
+  );
+  return team ?? notFound();
+}
+
+// --- member add ---
+ownerCommand
+  .command("member-add <team-id-or-name>")
+  .requiredOption("--person <id-or-name>", "Person to add")
+  .option("--role <role>", "Their role in the team (e.g. lead, engineer)")
+  .action(
+    (teamIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      const person = readOne<Owner>(
+        root,
+        "owners",
+        resolveId<Owner>(root, "owners", opts.person),
+      );
+      let member: Member | undefined;
+
+      const team = mutateTeam(root, options, teamIdOrName, (team) => {
+        if (!person || person.type !== "person") {
+          output(options, {
+            json: () => ({ success: false, error: "person_not_found" }),
+            human: () => error(`Person not found: ${opts.person}`),
+          });
+          process.exit(1);
+        }
+
+        const added: Member = { person: person.id, role: opts.role };
+
+        // One entry per person: adding them again replaces the role
+        team.members = [
+          ...(team.members ?? []).filter((m) => m.person !== person.id),
+          added,
+        ];
+        team.updated = new Date().toISOString();
+        member = added;
+        return team;
+      });
+
+      output(options, {
+        json: () => ({ success: true, member, owner: team }),
+        human: () =>
+          success(
+            `${bold(person?.name ?? opts.person)} is now a member of ${bold(team.name)}${member?.role ? ` (${member.role})` : ""}`,
+          ),
+      });
+    },
+  );
+
+// --- member rm ---
+ownerCommand
+  .command("member-rm <team-id-or-name>")
+  .requiredOption("--person <id-or-name>", "Person to remove")
+  .action(
+    (teamIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      // Also accepts the raw id of a person that no longer exists
+      const personId = resolveId<Owner>(root, "owners", opts.person);
+      let removed: Member[] = [];
+
+      const team = mutateTeam(root, options, teamIdOrName, (team) => {
+        const members = team.members ?? [];
+        removed = members.filter((m) => m.person === personId);
+
+        if (removed.length === 0) {
+          output(options, {
+            json: () => ({ success: false, error: "member_not_found" }),
+            human: () =>
+              error(`${opts.person} is not a member of ${team.name}`),
+          });
+          process.exit(1);
+        }
+
+        team.members = members.filter((m) => m.person !== personId);
+        team.updated = new Date().toISOString();
+        return team;
+      });
+
+      output(options, {
+        json: () => ({ success: true, removed, owner: team }),
+        human: () =>
+          success(
+            `${bold(opts.person)} is no longer a member of ${bold(team.name)}`,
+          ),
+      });
+    },
+  );
+
+// --- rename ---
+addRenameCommand(ownerCommand, "owners");
+
+// --- rm ---
+addRemoveCommand(ownerCommand, "owners");
+
+// --- link add / link rm ---
+addLinkCommands(ownerCommand, "owners");
@@ -0,0 +1,104 @@
+import { AmbiguousIdError, createCatalogIndex } from "../catalog-index.js";
+import { matchApis } from "../embedded.js";
+import { loadSourceCatalogs } from "../federation.js";
+import { getIndex, resolveId } from "../store.js";
+import { closestNames } from "../suggest.js";
+import { type Collection, KIND_LABELS } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import { error, hint, output } from "../utils/output.js";
+
+type Named = { id: string; name: string; aliases?: string[] };
+
+/**
+ * Resolve an id-or-name option that points at another record, such as
+ * `--owner` or `dep-add --on`. A record of a federated source is kept as
+ * written, since sources are resolved by name on load. Anything else
+ * that does not exist exits listing the closest names, unless
+ * `allowDangling` keeps it as given.
+ */
+export function requireReference(
+  root: string,
+  options: OutputOptions,
+  collection: Collection,
+  idOrName: string,
+  allowDangling = false,
+): string {
+  const index = getIndex(root);
+  const id = resolveId(root, collection, idOrName);
+  if (index.get(collection, id)) return id;
+  if (allowDangling) return idOrName;
+
+  const foreign = loadSourceCatalogs(root).sources.flatMap(
+    (s) => s.catalog[collection] as Named[],
+  );
+  const sourceIndex = createCatalogIndex((c) =>
+    c === collection ? foreign : [],
+  );
+  if (sourceIndex.resolve(collection, idOrName)) return idOrName;
+
+  unknownReference(options, KIND_LABELS[collection], idOrName, [
+    ...index.all<Named>(collection),
+    ...foreign,
+  ]);
+}
+
+/**
+ * Resolve `--api` of a dependency to the id of an API the target service
+ * provides, by id, name or alias. API names are only unique per provider.
+ * Targets outside the local catalog keep the API as written, since their
+ * APIs cannot be checked.
+ */
+export function requireApiReference(
+  root: string,
+  options: OutputOptions,
+  providerId: string,
+  idOrName: string,
+  allowDangling = false,
+): string {
+  const index = getIndex(root);
+  const apis = index.providedBy(providerId);
+  const matches = matchApis(apis, idOrName);
+  if (matches.length > 1) {
+    throw new AmbiguousIdError(
+      "apis",
+      idOrName,
+      matches.map((i) => ({ id: apis[i].id, name: apis[i].name })),
+    );
+  }
+  if (matches.length === 1) return apis[matches[0]].id;
+  if (allowDangling || !index.get("services", providerId)) return idOrName;
+  unknownReference(options, "api", idOrName, apis);
+}
+
+/**
+ * Report a reference to a record that does not exist, listing the
+ * closest names, and exit.
+ */
+function unknownReference(
+  options: OutputOptions,
+  kind: string,
+  idOrName: string,
+  candidates: Named[],
+): never {
+  const suggestions = closestNames(
+    idOrName,
+    candidates.flatMap((r) => [r.name, ...(r.aliases ?? [])]),
+  );
+  output(options, {
+    json: () => ({
+      success: false,
+      error: "unknown_reference",
+      kind,
+      input: idOrName,
+      suggestions,
+    }),
+    human: () => {
+      error(`No ${kind} named ${idOrName}`);
+      if (suggestions.length > 0) {
+        hint(`Did you mean: ${suggestions.join(", ")}?`);
+      }
+      hint("Pass --allow-dangling to keep the reference anyway");
+    },
+  });
+  process.exit(1);
+}
@@ -0,0 +1,155 @@
+import type { Command } from "commander";
+import { withLock } from "../atomic.js";
+import {
+  findReferences,
+  loadLocalCatalog,
+  rewriteReferences,
+} from "../relations.js";
+import {
+  readOne,
+  readTrashedWith,
+  requireRoot,
+  resolveId,
+  trashRecord,
+  writeRecord,
+} from "../store.js";
+import type { Collection } from "../types.js";
+import { KIND_LABELS } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import {
+  bold,
+  dim,
+  error,
+  hint,
+  info,
+  output,
+  success,
+} from "../utils/output.js";
+
+/**
+ * Register `rm <id-or-name>` on an entity command.
+ * Removal refuses while other records still reference the entity, unless
+ * the references are moved (--reassign) or cleared (--cascade).
+ * Removed records go to the trash (see `yp restore`).
+ */
+export function addRemoveCommand(
+  parent: Command,
+  collection: Collection,
+): void {
+  const kind = KIND_LABELS[collection];
+  const title = kind.charAt(0).toUpperCase() + kind.slice(1);
+
+  parent
+    .command("rm <id-or-name>")
+    .option("--reassign <id-or-name>", `Move references to another ${kind}`)
+    .option("--cascade", "Clear references before removing")
+    .action((idOrName: string, opts, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const options: OutputOptions = {
+        json: globals.json,
+        quiet: globals.quiet,
+      };
+      const root = requireRoot();
+
+      const id = resolveId(root, collection, idOrName);
+      if (!readOne(root, collection, id)) {
+        output(options, {
+          json: () => ({ success: false, error: "not_found" }),
+          human: () => error(`${title} not found: ${idOrName}`),
+        });
+        process.exit(1);
+      }
+
+      if (opts.reassign && opts.cascade) {
+        output(options, {
+          json: () => ({ success: false, error: "invalid_arguments" }),
+          human: () => error("Use either --reassign or --cascade, not both"),
+        });
+        process.exit(1);
+      }
+
+      let toId: string | undefined;
+      if (opts.reassign) {
+        toId = resolveId(root, collection, opts.reassign);
+        if (toId === id || !readOne(root, collection, toId)) {
+          output(options, {
+            json: () => ({
+              success: false,
+              error: "reassign_target_not_found",
+            }),
+            human: () =>
+              error(
+                `Cannot reassign to ${opts.reassign}: no other ${kind} by that id or name`,
+              ),
+          });
+          process.exit(1);
+        }
+      }
+
+      // Check and rewrite references under the lock, so none is added
+      // between finding them and removing the record
+      const { references, along } = withLock(root, () => {
+        const catalog = loadLocalCatalog(root);
+        const references = findReferences(collection, id, catalog);
+
+        if (references.length > 0 && !toId && !opts.cascade) {
+          output(options, {
+            json: () => ({ success: false, error: "referenced", references }),
+            human: () => {
+              error(
+                `${title} ${bold(idOrName)} is still referenced by ${references.length} record(s):`,
+              );
+              for (const r of references) {
+                console.log(`    ${r.kind} ${r.name}  ${dim(r.field)}`);
+              }
+              hint(
+                `Use --reassign <${kind}> to move them or --cascade to clear them`,
+              );
+            },
+          });
+          process.exit(1);
+        }
+
+        const updated = rewriteReferences(references, catalog, id, toId);
+        for (const s of updated.services) writeRecord(root, "services", s);
+        for (const s of updated.systems) writeRecord(root, "systems", s);
+        for (const r of updated.resources) writeRecord(root, "resources", r);
+        for (const d of updated.domains) writeRecord(root, "domains", d);
+        for (const o of updated.owners) writeRecord(root, "owners", o);
+        for (const a of updated.apis) writeRecord(root, "apis", a);
+        trashRecord(root, collection, id);
+        return { references, along: readTrashedWith(root, id) };
+      });
+
+      output(options, {
+        json: () => ({
+          success: true,
+          deleted: id,
+          trashed: true,
+          trashedWith: along.map((e) => ({
+            kind: KIND_LABELS[e.collection],
+            id: e.record.id,
+            name: e.record.name,
+          })),
+          references,
+          reassignedTo: toId,
+        }),
+        human: () => {
+          success(`Moved ${kind} ${dim(id)} to the trash`);
+          for (const e of along) {
+            info(
+              `Moved its ${KIND_LABELS[e.collection]} ${bold(e.record.name)} with it`,
+            );
+          }
+          if (toId) {
+            info(
+              `Reassigned ${references.length} reference(s) to ${dim(toId)}`,
+            );
+          } else if (references.length > 0) {
+            info(`Cleared ${references.length} reference(s)`);
+          }
+          hint(`Undo with: yp restore -- ${id}`);
+        },
+      });
+    });
+}
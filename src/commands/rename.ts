@@ -0,0 +1,99 @@
+import type { Command } from "commander";
+import { applyRename } from "../patch.js";
+import { findByName, mutateRecord, requireRoot, resolveId } from "../store.js";
+import type { Collection } from "../types.js";
+import { KIND_LABELS } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, dim, error, info, output, success } from "../utils/output.js";
+
+interface NamedRecord {
+  id: string;
+  name: string;
+  aliases?: string[];
+  updated: string;
+}
+
+/**
+ * Register `rename <id-or-name> <new-name>` on an entity command.
+ * The old name becomes an alias, so scripts, prompts and dependencies that
+ * still use it keep resolving.
+ */
+export function addRenameCommand(
+  parent: Command,
+  collection: Collection,
+): void {
+  const kind = KIND_LABELS[collection];
+  const title = kind.charAt(0).toUpperCase() + kind.slice(1);
+
+  parent
+    .command("rename <id-or-name> <new-name>")
+    .option("--no-alias", "Do not keep the old name as an alias")
+    .action((idOrName: string, newName: string, opts, cmd: Command) => {
+      const globals = cmd.optsWithGlobals();
+      const options: OutputOptions = {
+        json: globals.json,
+        quiet: globals.quiet,
+      };
+      const root = requireRoot();
+
+      const id = resolveId(root, collection, idOrName);
+      let previousName = "";
+      let changed = false;
+      const renamed = mutateRecord<NamedRecord>(
+        root,
+        collection,
+        id,
+        (record) => {
+          const taken = findByName<NamedRecord>(root, collection, newName);
+          if (taken && taken.id !== record.id) {
+            output(options, {
+              json: () => ({
+                success: false,
+                error: "name_conflict",
+                existing: taken.id,
+              }),
+              human: () =>
+                error(
+                  `${bold(newName)} already names or aliases ${kind} ${taken.name} (${dim(taken.id)})`,
+                ),
+            });
+            process.exit(1);
+          }
+
+          previousName = record.name;
+          const result = applyRename(record, newName, opts.alias);
+          changed = result.changed;
+          return changed ? result.record : null;
+        },
+      );
+
+      if (!renamed) {
+        output(options, {
+          json: () => ({ success: false, error: "not_found" }),
+          human: () => error(`${title} not found: ${idOrName}`),
+        });
+        process.exit(1);
+      }
+
+      output(options, {
+        json: () => ({
+          success: true,
+          changed,
+          previousName,
+          [kind]: renamed,
+        }),
+        human: () => {
+          if (!changed) {
+            info(`${title} is already named ${bold(newName)}`);
+            return;
+          }
+          success(
+            `Renamed ${kind} ${bold(previousName)} → ${bold(renamed.name)} (${dim(renamed.id)})`,
+          );
+          if (renamed.aliases?.length) {
+            info(`Also resolves as: ${renamed.aliases.join(", ")}`);
+          }
+        },
+      });
+    });
+}
@@ -0,0 +1,197 @@
+import { Command } from "commander";
+import { sourceOf } from "../federation.js";
+import {
+  loadCatalog,
+  resolveCatalogId,
+  resolveResource,
+} from "../relations.js";
+import { newId, requireRoot, writeRecord } from "../store.js";
+import type { Resource } from "../types.js";
+import type { OutputOptions } from "../utils/output.js";
+import { bold, bullet, dim, error, output, success } from "../utils/output.js";
+import { parseSetOption, requireValidCustom } from "./custom.js";
+import { requireReference } from "./reference.js";
+import { addRemoveCommand } from "./remove.js";
+import { addRenameCommand } from "./rename.js";
+
+function getOutputOptions(cmd: Command): OutputOptions {
+  const root = cmd.optsWithGlobals();
+  return { json: root.json, quiet: root.quiet };
+}
+
+export const resourceCommand = new Command("resource").description(
+  "Manage resources (databases, queues, buckets) that services use",
+);
+
+// --- add ---
+resourceCommand
+  .command("add")
+  .requiredOption("--name <name>", "Resource name")
+  .requiredOption(
+    "--kind <kind>",
+    "database | queue | topic | bucket | cache | other",
+  )
+  .option("--description <desc>", "What this resource holds")
+  .option("--system <id-or-name>", "System this resource belongs to")
+  .option("--owner <id-or-name>", "Team or person who owns this")
+  .option(
+    "--lifecycle <stage>",
+    "experimental | production | deprecated | decommissioned",
+  )
+  .option("--tag <tags...>", "Tags")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const now = new Date().toISOString();
+    const resource: Resource = {
+      id: newId(),
+      name: opts.name,
+      kind: opts.kind,
+      description: opts.description,
+      system: opts.system
+        ? requireReference(
+            root,
+            options,
+            "systems",
+            opts.system,
+            opts.allowDangling,
+          )
+        : undefined,
+      owner: opts.owner
+        ? requireReference(
+            root,
+            options,
+            "owners",
+            opts.owner,
+            opts.allowDangling,
+          )
+        : undefined,
+      lifecycle: opts.lifecycle,
+      tags: opts.tag,
+      custom: parseSetOption(opts.set, options),
+      created: now,
+      updated: now,
+    };
+
+    requireValidCustom(root, options, "resource", resource.custom);
+    writeRecord(root, "resources", resource);
+
+    output(options, {
+      json: () => ({ success: true, resource }),
+      human: () =>
+        success(`Resource ${bold(resource.name)} added (${dim(resource.id)})`),
+    });
+  });
+
+// --- list ---
+resourceCommand
+  .command("list")
+  .option("--kind <kind>", "Filter by kind")
+  .option("--system <id-or-name>", "Filter by system")
+  .option("--owner <id-or-name>", "Filter by owner")
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+    const catalog = loadCatalog(root);
+
+    let resources = catalog.resources;
+    if (opts.kind) {
+      resources = resources.filter((r) => r.kind === opts.kind);
+    }
+    if (opts.system) {
+      const systemId = resolveCatalogId(catalog, "systems", opts.system);
+      resources = resources.filter((r) => r.system === systemId);
+    }
+    if (opts.owner) {
+      const ownerId = resolveCatalogId(catalog, "owners", opts.owner);
+      resources = resources.filter((r) => r.owner === ownerId);
+    }
+
+    output(options, {
+      json: () => ({ resources }),
+      human: () => {
+        if (resources.length === 0) {
+          console.log(dim("No resources found."));
+          return;
+        }
+        for (const r of resources) {
+          bullet(`${bold(r.name)}  ${dim(r.id)}  ${dim(`[${r.kind}]`)}`);
+          if (r.description) console.log(`    ${dim(r.description)}`);
+        }
+      },
+    });
+  });
+
+// --- show ---
+resourceCommand
+  .command("show <id-or-name>")
+  .action((idOrName: string, _opts: unknown, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "resources", idOrName);
+    const resolved = resolveResource(id, catalog);
+
+    if (!resolved) {
+      output(options, {
+        json: () => ({ success: false, error: "not_found" }),
+        human: () => error(`Resource not found: ${idOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const { resource, owner, system, users } = resolved;
+
+    output(options, {
+      json: () => ({
+        resource,
+        owner,
+        system,
+        users: users.map((u) => ({
+          id: u.service.id,
+          name: u.service.name,
+          access: u.access,
+          description: u.description,
+        })),
+      }),
+      human: () => {
+        console.log();
+        console.log(bold(resource.name), dim(resource.id));
+        if (resource.description) console.log(dim(resource.description));
+        console.log();
+        console.log(`  Kind:      ${resource.kind}`);
+        if (owner) console.log(`  Owner:     ${owner.name}`);
+        if (system) console.log(`  System:    ${system.name}`);
+        if (resource.lifecycle)
+          console.log(`  Lifecycle: ${resource.lifecycle}`);
+        if (resource.tags?.length)
+          console.log(`  Tags:      ${resource.tags.join(", ")}`);
+        if (resource.aliases?.length)
+          console.log(`  Aliases:   ${resource.aliases.join(", ")}`);
+        if (sourceOf(resource))
+          console.log(`  Source:    ${sourceOf(resource)} (read-only)`);
+
+        if (users.length > 0) {
+          console.log();
+          console.log(bold("  Used by"));
+          for (const u of users) {
+            console.log(
+              `    ← ${u.service.name}${u.access ? ` (${u.access})` : ""}${u.description ? ` — ${u.description}` : ""}`,
+            );
+          }
+        }
+
+        console.log();
+      },
+    });
+  });
+
+// --- rename ---
+addRenameCommand(resourceCommand, "resources");
+
+// --- rm ---
+addRemoveCommand(resourceCommand, "resources");
@@ -1,6 +1,13 @@
 import { getSearchIndex, parseDocId } from "../search-index.js";
 import { readAll, requireRoot } from "../store.js";
-import type { Owner, Service, System } from "../types.js";
+import type {
+  Api,
+  Domain,
+  Owner,
+  Resource,
+  Service,
+  System,
+} from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
 import { bold, bullet, dim, info, output, warn } from "../utils/output.js";
 
@@ -19,6 +26,7 @@ export async function search(
     noOwner?: boolean;
     noSystem?: boolean;
     lifecycle?: string;
+    tier?: number;
   },
 ): Promise<void> {
   const root = requireRoot();
@@ -26,7 +34,13 @@ export async function search(
   const query = args.join(" ").trim();
 
   // If no query and no filters, show help
-  if (!query && !options.noOwner && !options.noSystem && !options.lifecycle) {
+  if (
+    !query &&
+    !options.noOwner &&
+    !options.noSystem &&
+    !options.lifecycle &&
+    options.tier === undefined
+  ) {
     output(options, {
       json: () => ({ success: false, error: "no_query" }),
       human: () => {
@@ -61,13 +75,19 @@ export async function search(
     // Filter-only mode (no query text)
     // If service-specific filters are active, only search services
     const serviceFiltersActive =
-      options.noOwner || options.noSystem || options.lifecycle;
+      options.noOwner ||
+      options.noSystem ||
+      options.lifecycle ||
+      options.tier !== undefined;
     const effectiveKind =
       options.kind ?? (serviceFiltersActive ? "service" : undefined);
 
     const services = readAll<Service>(root, "services");
     const systems = readAll<System>(root, "systems");
     const owners = readAll<Owner>(root, "owners");
+    const resources = readAll<Resource>(root, "resources");
+    const domains = readAll<Domain>(root, "domains");
+    const apis = readAll<Api>(root, "apis");
 
     if (!effectiveKind || effectiveKind === "service") {
       for (const s of services) {
@@ -101,6 +121,39 @@ export async function search(
         });
       }
     }
+    if (!effectiveKind || effectiveKind === "resource") {
+      for (const r of resources) {
+        results.push({
+          kind: "resource",
+          id: r.id,
+          name: r.name,
+          description: r.description,
+          score: 0,
+        });
+      }
+    }
+    if (!effectiveKind || effectiveKind === "domain") {
+      for (const d of domains) {
+        results.push({
+          kind: "domain",
+          id: d.id,
+          name: d.name,
+          description: d.description,
+          score: 0,
+        });
+      }
+    }
+    if (!effectiveKind || effectiveKind === "api") {
+      for (const a of apis) {
+        results.push({
+          kind: "api",
+          id: a.id,
+          name: a.name,
+          description: a.description,
+          score: 0,
+        });
+      }
+    }
   }
 
   // Apply kind filter
@@ -133,6 +186,14 @@ export async function search(
     results = results.filter((r) => r.kind !== "service" || matching.has(r.id));
   }
 
+  if (options.tier !== undefined) {
+    const services = readAll<Service>(root, "services");
+    const matching = new Set(
+      services.filter((s) => s.tier === options.tier).map((s) => s.id),
+    );
+    results = results.filter((r) => r.kind !== "service" || matching.has(r.id));
+  }
+
   output(options, {
     json: () => ({
       query: query || null,
@@ -161,7 +222,14 @@ export async function search(
         grouped.set(r.kind, list);
       }
 
-      const kindOrder = ["service", "system", "owner"];
+      const kindOrder = [
+        "service",
+        "system",
+        "owner",
+        "resource",
+        "domain",
+        "api",
+      ];
       for (const kind of kindOrder) {
         const items = grouped.get(kind);
         if (!items) continue;
@@ -1,16 +1,61 @@
 import { Command } from "commander";
-import { filterServices, loadCatalog, resolveService } from "../relations.js";
+import { withLock } from "../atomic.js";
 import {
-  deleteRecord,
+  matchApis,
+  matchDependencies,
+  matchEnvironments,
+} from "../embedded.js";
+import { sourceOf } from "../federation.js";
+import { loadApiSpecs } from "../openapi.js";
+import { applyPatch, parseKeyValues, unknownFields } from "../patch.js";
+import {
+  catalogIndex,
+  filterServices,
+  findReferences,
+  loadCatalog,
+  loadLocalCatalog,
+  resolveCatalogId,
+  resolveOnCall,
+  resolveService,
+  rewriteReferences,
+} from "../relations.js";
+import {
+  mutateRecord,
   newId,
+  readAll,
   readOne,
   requireRoot,
   resolveId,
+  trashRecord,
   writeRecord,
 } from "../store.js";
-import type { Api, Dependency, Owner, Service, System } from "../types.js";
+import type {
+  Api,
+  Dependency,
+  Environment,
+  Resource,
+  ResourceUse,
+  Service,
+} from "../types.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
 import type { OutputOptions } from "../utils/output.js";
-import { bold, bullet, dim, error, output, success } from "../utils/output.js";
+import {
+  bold,
+  bullet,
+  dim,
+  error,
+  hint,
+  info,
+  output,
+  success,
+} from "../utils/output.js";
+import { parseSetOption, requireValidCustom } from "./custom.js";
+import { addLinkCommands, printLinks } from "./link.js";
+import { printOnCall, summarizeOnCall } from "./owner.js";
+import { requireApiReference, requireReference } from "./reference.js";
+import { addRemoveCommand } from "./remove.js";
+import { addRenameCommand } from "./rename.js";
+import { requireTier } from "./tier.js";
 
 function getOutputOptions(cmd: Command): OutputOptions {
   const root = cmd.optsWithGlobals();
@@ -32,8 +77,11 @@ serviceCommand
     "--lifecycle <stage>",
     "experimental | production | deprecated | decommissioned",
   )
+  .option("--tier <tier>", "1 (critical) to 4 (best effort)")
   .option("--repo <url>", "Repository URL")
   .option("--tag <tags...>", "Tags")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--allow-dangling", "Keep references to records that do not exist")
   .action((opts, cmd) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
@@ -44,20 +92,34 @@ serviceCommand
       name: opts.name,
       description: opts.description,
       system: opts.system
-        ? resolveId<System>(root, "systems", opts.system)
+        ? requireReference(
+            root,
+            options,
+            "systems",
+            opts.system,
+            opts.allowDangling,
+          )
         : undefined,
       owner: opts.owner
-        ? resolveId<Owner>(root, "owners", opts.owner)
+        ? requireReference(
+            root,
+            options,
+            "owners",
+            opts.owner,
+            opts.allowDangling,
+          )
         : undefined,
       lifecycle: opts.lifecycle,
+      tier: requireTier(opts.tier, options),
       repo: opts.repo,
       tags: opts.tag,
-      apis: [],
       dependsOn: [],
+      custom: parseSetOption(opts.set, options),
       created: now,
       updated: now,
     };
 
+    requireValidCustom(root, options, "service", service.custom);
     writeRecord(root, "services", service);
 
     output(options, {
@@ -72,8 +134,11 @@ serviceCommand
   .command("list")
   .option("--system <id-or-name>", "Filter by system")
   .option("--owner <id-or-name>", "Filter by owner")
+  .option("--recursive", "With --owner, include services of sub-teams")
   .option("--lifecycle <stage>", "Filter by lifecycle")
+  .option("--tier <tier>", "Filter by tier")
   .option("--tag <tag>", "Filter by tag")
+  .option("--env <name>", "Only services deployed to this environment")
   .action((opts, cmd) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
@@ -81,13 +146,16 @@ serviceCommand
 
     const services = filterServices(catalog, {
       systemId: opts.system
-        ? resolveId<System>(root, "systems", opts.system)
+        ? resolveCatalogId(catalog, "systems", opts.system)
         : undefined,
       ownerId: opts.owner
-        ? resolveId<Owner>(root, "owners", opts.owner)
+        ? resolveCatalogId(catalog, "owners", opts.owner)
         : undefined,
+      recursive: opts.recursive,
       lifecycle: opts.lifecycle,
+      tier: requireTier(opts.tier, options),
       tag: opts.tag,
+      env: opts.env,
     });
 
     output(options, {
@@ -100,6 +168,8 @@ serviceCommand
         for (const s of services) {
           const parts = [bold(s.name), dim(s.id)];
           if (s.lifecycle) parts.push(dim(`[${s.lifecycle}]`));
+          if (s.tier) parts.push(dim(`tier ${s.tier}`));
+          if (sourceOf(s)) parts.push(dim(`from ${sourceOf(s)}`));
           bullet(parts.join("  "));
           if (s.description) console.log(`    ${dim(s.description)}`);
         }
@@ -114,8 +184,8 @@ serviceCommand
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
-    const id = resolveId<Service>(root, "services", idOrName);
     const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "services", idOrName);
     const resolved = resolveService(id, catalog);
 
     if (!resolved) {
@@ -126,10 +196,36 @@ serviceCommand
       process.exit(1);
     }
 
-    const { service, system, owner } = resolved;
+    const { service, system, owner, responsible } = resolved;
+    const index = catalogIndex(catalog);
+    const apiName = (apiId: string) =>
+      index.get<Api>("apis", apiId)?.name ?? apiId;
+    const specs = loadApiSpecs(root, resolved.apis);
+    const oncall = responsible
+      ? resolveOnCall(responsible.owner.id, catalog)
+      : null;
+    const oncallSummary = oncall
+      ? { via: responsible?.via, ...summarizeOnCall(oncall) }
+      : null;
 
     output(options, {
-      json: () => ({ service, system, owner }),
+      json: () => ({
+        service,
+        system,
+        owner,
+        apis: resolved.apis.map((a) => ({
+          ...a,
+          specSummary: specs.get(a.id),
+        })),
+        oncall: oncallSummary,
+        resources: resolved.resources.map((r) => ({
+          id: r.resource.id,
+          name: r.resource.name,
+          kind: r.resource.kind,
+          access: r.access,
+          description: r.description,
+        })),
+      }),
       human: () => {
         console.log();
         console.log(bold(service.name), dim(service.id));
@@ -138,16 +234,48 @@ serviceCommand
         if (owner) console.log(`  Owner:     ${owner.name}`);
         if (system) console.log(`  System:    ${system.name}`);
         if (service.lifecycle) console.log(`  Lifecycle: ${service.lifecycle}`);
+        if (service.tier) console.log(`  Tier:      ${service.tier}`);
         if (service.repo) console.log(`  Repo:      ${service.repo}`);
         if (service.tags?.length)
           console.log(`  Tags:      ${service.tags.join(", ")}`);
+        if (service.aliases?.length)
+          console.log(`  Aliases:   ${service.aliases.join(", ")}`);
+        if (sourceOf(service))
+          console.log(`  Source:    ${sourceOf(service)} (read-only)`);
+
+        if (oncallSummary) {
+          console.log();
+          console.log(
+            bold("  On-call") +
+              dim(
+                ` ${oncallSummary.owner.name}${oncallSummary.via === "system" ? " (owner of the system)" : ""}`,
+              ),
+          );
+          printOnCall(oncallSummary);
+        }
+
+        if (service.environments?.length) {
+          console.log();
+          console.log(bold("  Environments"));
+          for (const env of service.environments) {
+            const where = [env.region, env.cluster].filter(Boolean).join("/");
+            console.log(
+              `    ${env.name}${env.url ? `  ${env.url}` : ""}${where ? `  ${dim(where)}` : ""}${env.lifecycle ? `  ${dim(`[${env.lifecycle}]`)}` : ""}`,
+            );
+            if (env.health)
+              console.log(`      ${dim(`health: ${env.health}`)}`);
+          }
+        }
+
+        printLinks(service.links);
 
-        if (service.apis?.length) {
+        if (resolved.apis.length > 0) {
           console.log();
           console.log(bold("  APIs"));
-          for (const api of service.apis) {
+          for (const api of resolved.apis) {
+            const operations = specs.get(api.id)?.operations.length;
             console.log(
-              `    ${api.name} (${api.type})${api.description ? ` — ${api.description}` : ""}`,
+              `    ${api.name} (${api.type})${api.description ? ` — ${api.description}` : ""}${operations ? dim(`  ${operations} operations`) : ""}`,
             );
           }
         }
@@ -161,7 +289,17 @@ serviceCommand
             );
             const name = depService?.name ?? dep.service;
             console.log(
-              `    → ${name}${dep.api ? ` (${dep.api})` : ""}${dep.description ? ` — ${dep.description}` : ""}`,
+              `    → ${name}${dep.api ? ` (${apiName(dep.api)})` : ""}${dep.description ? ` — ${dep.description}` : ""}`,
+            );
+          }
+        }
+
+        if (resolved.resources.length > 0) {
+          console.log();
+          console.log(bold("  Resources"));
+          for (const r of resolved.resources) {
+            console.log(
+              `    ◆ ${r.resource.name} [${r.resource.kind}]${r.access ? ` (${r.access})` : ""}${r.description ? ` — ${r.description}` : ""}`,
             );
           }
         }
@@ -171,7 +309,7 @@ serviceCommand
           console.log(bold("  Dependents"));
           for (const dep of resolved.dependents) {
             console.log(
-              `    ← ${dep.service.name}${dep.api ? ` (${dep.api})` : ""}${dep.description ? ` — ${dep.description}` : ""}`,
+              `    ← ${dep.service.name}${dep.api ? ` (${apiName(dep.api)})` : ""}${dep.description ? ` — ${dep.description}` : ""}`,
             );
           }
         }
@@ -181,17 +319,111 @@ serviceCommand
     });
   });
 
-// --- rm ---
+// --- update ---
+const SERVICE_CLEARABLE = [
+  "description",
+  "system",
+  "owner",
+  "lifecycle",
+  "tier",
+  "repo",
+  "tags",
+  "aliases",
+  "environments",
+  "links",
+] as const;
+
 serviceCommand
-  .command("rm <id-or-name>")
-  .action((idOrName: string, _opts: unknown, cmd: Command) => {
+  .command("update <id-or-name>")
+  .option("--name <name>", "New service name")
+  .option("--description <desc>", "What this service does")
+  .option("--system <id-or-name>", "System this service belongs to")
+  .option("--owner <id-or-name>", "Team or person who owns this")
+  .option(
+    "--lifecycle <stage>",
+    "experimental | production | deprecated | decommissioned",
+  )
+  .option("--tier <tier>", "1 (critical) to 4 (best effort)")
+  .option("--repo <url>", "Repository URL")
+  .option("--add-tag <tags...>", "Tags to add")
+  .option("--rm-tag <tags...>", "Tags to remove")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--unset <keys...>", "Remove custom keys")
+  .option(
+    "--clear <fields...>",
+    `Clear fields (${SERVICE_CLEARABLE.join(", ")})`,
+  )
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((idOrName: string, opts, cmd: Command) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
     const id = resolveId<Service>(root, "services", idOrName);
-    const deleted = deleteRecord(root, "services", id);
+    let changed = false;
+    const updated = mutateRecord<Service>(root, "services", id, (service) => {
+      const tier = requireTier(opts.tier, options);
+      const badFields = unknownFields(opts.clear ?? [], SERVICE_CLEARABLE);
+      const custom = parseKeyValues(opts.set ?? []);
+      if (badFields.length > 0 || custom.invalid.length > 0) {
+        output(options, {
+          json: () => ({
+            success: false,
+            error: "invalid_arguments",
+            clear: badFields,
+            set: custom.invalid,
+          }),
+          human: () => {
+            if (badFields.length > 0)
+              error(`Cannot clear: ${badFields.join(", ")}`);
+            if (custom.invalid.length > 0)
+              error(`Expected key=value: ${custom.invalid.join(", ")}`);
+          },
+        });
+        process.exit(1);
+      }
+
+      const patch = applyPatch(service, {
+        set: {
+          name: opts.name,
+          description: opts.description,
+          system: opts.system
+            ? requireReference(
+                root,
+                options,
+                "systems",
+                opts.system,
+                opts.allowDangling,
+              )
+            : undefined,
+          owner: opts.owner
+            ? requireReference(
+                root,
+                options,
+                "owners",
+                opts.owner,
+                opts.allowDangling,
+              )
+            : undefined,
+          lifecycle: opts.lifecycle,
+          tier,
+          repo: opts.repo,
+        },
+        clear: opts.clear,
+        addTags: opts.addTag,
+        removeTags: opts.rmTag,
+        setCustom: opts.set ? custom.values : undefined,
+        unsetCustom: opts.unset,
+      });
 
-    if (!deleted) {
+      requireValidCustom(root, options, "service", patch.record.custom, [
+        ...Object.keys(custom.values),
+        ...(opts.unset ?? []),
+      ]);
+      changed = patch.changed;
+      return changed ? patch.record : null;
+    });
+
+    if (!updated) {
       output(options, {
         json: () => ({ success: false, error: "not_found" }),
         human: () => error(`Service not found: ${idOrName}`),
@@ -200,11 +432,47 @@ serviceCommand
     }
 
     output(options, {
-      json: () => ({ success: true, deleted: id }),
-      human: () => success(`Removed service ${dim(id)}`),
+      json: () => ({ success: true, changed, service: updated }),
+      human: () =>
+        changed
+          ? success(
+              `Service ${bold(updated.name)} updated (${dim(updated.id)})`,
+            )
+          : info(`Service ${bold(updated.name)} unchanged`),
     });
   });
 
+// --- rename ---
+addRenameCommand(serviceCommand, "services");
+
+// --- rm ---
+addRemoveCommand(serviceCommand, "services");
+
+// --- link add / link rm ---
+addLinkCommands(serviceCommand, "services");
+
+/**
+ * Change a service under the catalog lock (see mutateRecord), exiting
+ * when there is none by that id or name.
+ */
+function mutateService(
+  root: string,
+  options: OutputOptions,
+  idOrName: string,
+  change: (service: Service) => Service | null,
+): Service {
+  const id = resolveId<Service>(root, "services", idOrName);
+  const service = mutateRecord<Service>(root, "services", id, change);
+  if (!service) {
+    output(options, {
+      json: () => ({ success: false, error: "service_not_found" }),
+      human: () => error(`Service not found: ${idOrName}`),
+    });
+    process.exit(1);
+  }
+  return service;
+}
+
 // --- api add ---
 serviceCommand
   .command("api-add <service-id-or-name>")
@@ -212,6 +480,171 @@ serviceCommand
   .requiredOption("--type <type>", "rest | grpc | graphql | event | other")
   .option("--spec <path>", "Path to API spec file")
   .option("--description <desc>", "API description")
+  .option("--owner <id-or-name>", "Owner, when it differs from the service's")
+  .option(
+    "--lifecycle <stage>",
+    "experimental | production | deprecated | decommissioned",
+  )
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((serviceIdOrName: string, opts, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const id = resolveId<Service>(root, "services", serviceIdOrName);
+    const service = readOne<Service>(root, "services", id);
+
+    if (!service) {
+      output(options, {
+        json: () => ({ success: false, error: "service_not_found" }),
+        human: () => error(`Service not found: ${serviceIdOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const now = new Date().toISOString();
+    const api: Api = {
+      id: newId(),
+      name: opts.name,
+      type: opts.type as Api["type"],
+      provider: service.id,
+      owner: opts.owner
+        ? requireReference(
+            root,
+            options,
+            "owners",
+            opts.owner,
+            opts.allowDangling,
+          )
+        : undefined,
+      lifecycle: opts.lifecycle,
+      spec: opts.spec,
+      description: opts.description,
+      created: now,
+      updated: now,
+    };
+    writeRecord(root, "apis", api);
+
+    output(options, {
+      json: () => ({ success: true, api }),
+      human: () =>
+        success(
+          `Added API ${bold(api.name)} to ${bold(service.name)} (${dim(api.id)})`,
+        ),
+    });
+  });
+
+// --- dep add ---
+serviceCommand
+  .command("dep-add <service-id-or-name>")
+  .requiredOption("--on <target-service>", "Service this depends on")
+  .option("--api <id-or-name>", "API of the target it consumes")
+  .option("--description <desc>", "Dependency description")
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action(
+    (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          const targetId = requireReference(
+            root,
+            options,
+            "services",
+            opts.on,
+            Boolean(opts.allowDangling),
+          );
+          const dep: Dependency = {
+            service: targetId,
+            api: opts.api
+              ? requireApiReference(
+                  root,
+                  options,
+                  targetId,
+                  opts.api,
+                  Boolean(opts.allowDangling),
+                )
+              : undefined,
+            description: opts.description,
+          };
+
+          service.dependsOn = service.dependsOn ?? [];
+          service.dependsOn.push(dep);
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
+
+      output(options, {
+        json: () => ({ success: true, service }),
+        human: () =>
+          success(`${bold(service.name)} now depends on ${bold(opts.on)}`),
+      });
+    },
+  );
+
+/**
+ * Exit unless exactly one API, dependency or environment matched.
+ */
+function requireSingleMatch<T>(
+  options: OutputOptions,
+  kind: "api" | "dependency" | "environment",
+  input: string,
+  entries: T[],
+  matches: number[],
+  label: (entry: T) => string,
+): void {
+  if (matches.length === 1) return;
+  const ambiguous = matches.length > 1;
+  output(options, {
+    json: () => ({
+      success: false,
+      error: ambiguous ? "ambiguous" : `${kind}_not_found`,
+      matches: matches.map((i) => entries[i]),
+    }),
+    human: () => {
+      if (!ambiguous) {
+        error(`No ${kind} matching: ${input}`);
+        return;
+      }
+      error(`Ambiguous ${kind} "${input}" matches ${matches.length} entries:`);
+      for (const i of matches) console.log(`    ${label(entries[i])}`);
+      if (kind === "dependency") hint("Narrow the match with --api <name>");
+    },
+  });
+  process.exit(ambiguous ? EXIT_USER_ERROR : 1);
+}
+
+const apiLabel = (api: Api) => `${api.name} (${api.type})`;
+const envLabel = (env: Environment) => env.name;
+const depLabel = (dep: Dependency) =>
+  `${dep.service}${dep.api ? ` (${dep.api})` : ""}`;
+
+/**
+ * The one API a service provides that matches an id or name, exiting
+ * unless exactly one does.
+ */
+function requireProvidedApi(
+  root: string,
+  options: OutputOptions,
+  service: Service,
+  idOrName: string,
+): Api {
+  const apis = readAll<Api>(root, "apis").filter(
+    (a) => a.provider === service.id,
+  );
+  const matches = matchApis(apis, idOrName);
+  requireSingleMatch(options, "api", idOrName, apis, matches, apiLabel);
+  return apis[matches[0]];
+}
+
+// --- api rm ---
+serviceCommand
+  .command("api-rm <service-id-or-name>")
+  .requiredOption("--name <id-or-name>", "API name")
   .action(
     (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
       const options = getOutputOptions(cmd);
@@ -228,64 +661,459 @@ serviceCommand
         process.exit(1);
       }
 
-      const api: Api = {
-        name: opts.name,
-        type: opts.type as Api["type"],
-        spec: opts.spec,
-        description: opts.description,
-      };
+      const removed = requireProvidedApi(root, options, service, opts.name);
 
-      service.apis = service.apis ?? [];
-      service.apis.push(api);
-      service.updated = new Date().toISOString();
-      writeRecord(root, "services", service);
+      // Consumers keep depending on the service, just not on this API.
+      // Find them under the lock so none is added in the meantime.
+      const references = withLock(root, () => {
+        const catalog = loadLocalCatalog(root);
+        const found = findReferences("apis", removed.id, catalog);
+        const updated = rewriteReferences(found, catalog, removed.id);
+        for (const s of updated.services) writeRecord(root, "services", s);
+        trashRecord(root, "apis", removed.id);
+        return found;
+      });
 
       output(options, {
-        json: () => ({ success: true, service }),
+        json: () => ({ success: true, removed, references }),
+        human: () => {
+          success(
+            `Removed API ${bold(removed.name)} from ${bold(service.name)}`,
+          );
+          if (references.length > 0) {
+            info(`Cleared ${references.length} reference(s)`);
+          }
+          hint(`Undo with: yp restore -- ${removed.id}`);
+        },
+      });
+    },
+  );
+
+// --- api update ---
+const API_CLEARABLE = ["spec", "description", "owner", "lifecycle"] as const;
+
+serviceCommand
+  .command("api-update <service-id-or-name>")
+  .requiredOption("--name <id-or-name>", "API to update")
+  .option("--rename <name>", "New API name")
+  .option("--type <type>", "rest | grpc | graphql | event | other")
+  .option("--spec <path>", "Path to API spec file")
+  .option("--description <desc>", "API description")
+  .option("--owner <id-or-name>", "Owner, when it differs from the service's")
+  .option(
+    "--lifecycle <stage>",
+    "experimental | production | deprecated | decommissioned",
+  )
+  .option("--clear <fields...>", `Clear fields (${API_CLEARABLE.join(", ")})`)
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((serviceIdOrName: string, opts, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const id = resolveId<Service>(root, "services", serviceIdOrName);
+    const service = readOne<Service>(root, "services", id);
+
+    if (!service) {
+      output(options, {
+        json: () => ({ success: false, error: "service_not_found" }),
+        human: () => error(`Service not found: ${serviceIdOrName}`),
+      });
+      process.exit(1);
+    }
+
+    const badFields = unknownFields(opts.clear ?? [], API_CLEARABLE);
+    if (badFields.length > 0) {
+      output(options, {
+        json: () => ({
+          success: false,
+          error: "invalid_arguments",
+          clear: badFields,
+        }),
+        human: () => error(`Cannot clear: ${badFields.join(", ")}`),
+      });
+      process.exit(1);
+    }
+
+    const api = requireProvidedApi(root, options, service, opts.name);
+    const owner = opts.owner
+      ? requireReference(
+          root,
+          options,
+          "owners",
+          opts.owner,
+          opts.allowDangling,
+        )
+      : undefined;
+    let changed = false;
+    const updated = mutateRecord<Api>(root, "apis", api.id, (current) => {
+      const patch = applyPatch(current, {
+        set: {
+          name: opts.rename,
+          type: opts.type,
+          spec: opts.spec,
+          description: opts.description,
+          owner,
+          lifecycle: opts.lifecycle,
+        },
+        clear: opts.clear,
+      });
+      changed = patch.changed;
+      return changed ? patch.record : null;
+    });
+
+    if (!updated) {
+      output(options, {
+        json: () => ({ success: false, error: "api_not_found" }),
+        human: () => error(`No api matching: ${opts.name}`),
+      });
+      process.exit(1);
+    }
+
+    output(options, {
+      json: () => ({ success: true, changed, api: updated }),
+      human: () =>
+        changed
+          ? success(
+              `Updated API ${bold(updated.name)} on ${bold(service.name)}`,
+            )
+          : info(`API ${bold(updated.name)} unchanged`),
+    });
+  });
+
+// --- dep rm ---
+serviceCommand
+  .command("dep-rm <service-id-or-name>")
+  .requiredOption("--on <target-service>", "Service the dependency points at")
+  .option("--api <id-or-name>", "Only match the dependency on this API")
+  .action(
+    (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      let removed: Dependency | undefined;
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          const deps = service.dependsOn ?? [];
+          const services = readAll<Service>(root, "services");
+          const matches = matchDependencies(
+            service,
+            opts.on,
+            services,
+            opts.api,
+            readAll<Api>(root, "apis"),
+          );
+          requireSingleMatch(
+            options,
+            "dependency",
+            opts.on,
+            deps,
+            matches,
+            depLabel,
+          );
+
+          [removed] = deps.splice(matches[0], 1);
+          service.dependsOn = deps;
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
+
+      output(options, {
+        json: () => ({ success: true, removed, service }),
         human: () =>
-          success(`Added API ${bold(api.name)} to ${bold(service.name)}`),
+          success(
+            `${bold(service.name)} no longer depends on ${bold(opts.on)}`,
+          ),
       });
     },
   );
 
-// --- dep add ---
+// --- dep update ---
+const DEP_CLEARABLE = ["api", "description"] as const;
+
 serviceCommand
-  .command("dep-add <service-id-or-name>")
-  .requiredOption("--on <target-service>", "Service this depends on")
-  .option("--api <api-name>", "Which API it consumes")
+  .command("dep-update <service-id-or-name>")
+  .requiredOption("--on <target-service>", "Service the dependency points at")
+  .option("--api <id-or-name>", "Only match the dependency on this API")
+  .option("--to <target-service>", "Point the dependency at another service")
+  .option("--set-api <id-or-name>", "API of the target it consumes")
   .option("--description <desc>", "Dependency description")
+  .option("--clear <fields...>", `Clear fields (${DEP_CLEARABLE.join(", ")})`)
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((serviceIdOrName: string, opts, cmd: Command) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    let dep: Dependency | undefined;
+    const service = mutateService(root, options, serviceIdOrName, (service) => {
+      const badFields = unknownFields(opts.clear ?? [], DEP_CLEARABLE);
+      if (badFields.length > 0) {
+        output(options, {
+          json: () => ({
+            success: false,
+            error: "invalid_arguments",
+            clear: badFields,
+          }),
+          human: () => error(`Cannot clear: ${badFields.join(", ")}`),
+        });
+        process.exit(1);
+      }
+
+      const deps = service.dependsOn ?? [];
+      const services = readAll<Service>(root, "services");
+      const matches = matchDependencies(
+        service,
+        opts.on,
+        services,
+        opts.api,
+        readAll<Api>(root, "apis"),
+      );
+      requireSingleMatch(
+        options,
+        "dependency",
+        opts.on,
+        deps,
+        matches,
+        depLabel,
+      );
+
+      const next: Dependency = { ...deps[matches[0]] };
+      if (opts.to) {
+        next.service = requireReference(
+          root,
+          options,
+          "services",
+          opts.to,
+          opts.allowDangling,
+        );
+      }
+      if (opts.setApi) {
+        next.api = requireApiReference(
+          root,
+          options,
+          next.service,
+          opts.setApi,
+          opts.allowDangling,
+        );
+      }
+      if (opts.description) next.description = opts.description;
+      for (const field of opts.clear ?? [])
+        delete next[field as keyof Dependency];
+
+      deps[matches[0]] = next;
+      dep = next;
+      service.dependsOn = deps;
+      service.updated = new Date().toISOString();
+      return service;
+    });
+
+    output(options, {
+      json: () => ({ success: true, dependency: dep, service }),
+      human: () =>
+        success(
+          `Updated dependency of ${bold(service.name)} on ${bold(opts.to ?? opts.on)}`,
+        ),
+    });
+  });
+
+// --- use add ---
+serviceCommand
+  .command("use-add <service-id-or-name>")
+  .requiredOption("--resource <id-or-name>", "Resource the service uses")
+  .option("--access <mode>", "read | write | readwrite")
+  .option("--description <desc>", "What the service does with it")
   .action(
     (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
       const options = getOutputOptions(cmd);
       const root = requireRoot();
 
-      const id = resolveId<Service>(root, "services", serviceIdOrName);
-      const service = readOne<Service>(root, "services", id);
+      const resourceId = resolveId<Resource>(root, "resources", opts.resource);
+      const resource = readOne<Resource>(root, "resources", resourceId);
 
-      if (!service) {
+      if (!resource) {
         output(options, {
-          json: () => ({ success: false, error: "service_not_found" }),
-          human: () => error(`Service not found: ${serviceIdOrName}`),
+          json: () => ({ success: false, error: "resource_not_found" }),
+          human: () => error(`Resource not found: ${opts.resource}`),
         });
         process.exit(1);
       }
 
-      const targetId = resolveId<Service>(root, "services", opts.on);
-      const dep: Dependency = {
-        service: targetId,
-        api: opts.api,
+      const use: ResourceUse = {
+        resource: resource.id,
+        access: opts.access as ResourceUse["access"],
         description: opts.description,
       };
 
-      service.dependsOn = service.dependsOn ?? [];
-      service.dependsOn.push(dep);
-      service.updated = new Date().toISOString();
-      writeRecord(root, "services", service);
+      // One entry per resource: adding it again replaces the access mode
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          service.uses = [
+            ...(service.uses ?? []).filter((u) => u.resource !== resource.id),
+            use,
+          ];
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
 
       output(options, {
-        json: () => ({ success: true, service }),
+        json: () => ({ success: true, use, service }),
         human: () =>
-          success(`${bold(service.name)} now depends on ${bold(opts.on)}`),
+          success(
+            `${bold(service.name)} now uses ${bold(resource.name)}${use.access ? ` (${use.access})` : ""}`,
+          ),
+      });
+    },
+  );
+
+// --- use rm ---
+serviceCommand
+  .command("use-rm <service-id-or-name>")
+  .requiredOption("--resource <id-or-name>", "Resource to stop using")
+  .action(
+    (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      // Also accepts the raw id of a resource that no longer exists
+      const resourceId = resolveId<Resource>(root, "resources", opts.resource);
+      let removed: ResourceUse[] = [];
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          const uses = service.uses ?? [];
+          removed = uses.filter((u) => u.resource === resourceId);
+
+          if (removed.length === 0) {
+            output(options, {
+              json: () => ({ success: false, error: "use_not_found" }),
+              human: () =>
+                error(
+                  `${service.name} does not use resource: ${opts.resource}`,
+                ),
+            });
+            process.exit(1);
+          }
+
+          service.uses = uses.filter((u) => u.resource !== resourceId);
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
+
+      output(options, {
+        json: () => ({ success: true, removed, service }),
+        human: () =>
+          success(
+            `${bold(service.name)} no longer uses ${bold(opts.resource)}`,
+          ),
+      });
+    },
+  );
+
+// --- env add ---
+serviceCommand
+  .command("env-add <service-id-or-name>")
+  .requiredOption(
+    "--name <name>",
+    "Environment name (e.g. production, staging)",
+  )
+  .option("--url <url>", "Base URL in this environment")
+  .option("--region <region>", "Region it runs in")
+  .option("--cluster <cluster>", "Cluster it runs on")
+  .option("--health <url>", "Health check endpoint")
+  .option(
+    "--lifecycle <stage>",
+    "experimental | production | deprecated | decommissioned",
+  )
+  .action(
+    (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      const env: Environment = {
+        name: opts.name,
+        url: opts.url,
+        region: opts.region,
+        cluster: opts.cluster,
+        health: opts.health,
+        lifecycle: opts.lifecycle as Environment["lifecycle"],
+      };
+
+      // One entry per name: adding it again replaces it
+      let existing: number | undefined;
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          const envs = service.environments ?? [];
+          [existing] = matchEnvironments(service, env.name);
+          if (existing === undefined) envs.push(env);
+          else envs[existing] = env;
+          service.environments = envs;
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
+
+      output(options, {
+        json: () => ({ success: true, environment: env, service }),
+        human: () =>
+          success(
+            `${existing === undefined ? "Added" : "Replaced"} environment ${bold(env.name)} on ${bold(service.name)}`,
+          ),
+      });
+    },
+  );
+
+// --- env rm ---
+serviceCommand
+  .command("env-rm <service-id-or-name>")
+  .requiredOption("--name <name>", "Environment name")
+  .action(
+    (serviceIdOrName: string, opts: Record<string, string>, cmd: Command) => {
+      const options = getOutputOptions(cmd);
+      const root = requireRoot();
+
+      let removed: Environment | undefined;
+      const service = mutateService(
+        root,
+        options,
+        serviceIdOrName,
+        (service) => {
+          const envs = service.environments ?? [];
+          const matches = matchEnvironments(service, opts.name);
+          requireSingleMatch(
+            options,
+            "environment",
+            opts.name,
+            envs,
+            matches,
+            envLabel,
+          );
+
+          [removed] = envs.splice(matches[0], 1);
+          service.environments = envs;
+          service.updated = new Date().toISOString();
+          return service;
+        },
+      );
+
+      output(options, {
+        json: () => ({ success: true, removed, service }),
+        human: () =>
+          success(
+            `Removed environment ${bold(removed?.name ?? opts.name)} from ${bold(service.name)}`,
+          ),
       });
     },
   );
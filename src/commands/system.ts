@@ -1,15 +1,30 @@
 import { Command } from "commander";
-import { loadCatalog, resolveSystem } from "../relations.js";
+import { sourceOf } from "../federation.js";
+import { applyPatch, parseKeyValues, unknownFields } from "../patch.js";
+import { loadCatalog, resolveCatalogId, resolveSystem } from "../relations.js";
 import {
-  deleteRecord,
+  mutateRecord,
   newId,
   requireRoot,
   resolveId,
   writeRecord,
 } from "../store.js";
-import type { Owner, System } from "../types.js";
+import type { System } from "../types.js";
 import type { OutputOptions } from "../utils/output.js";
-import { bold, bullet, dim, error, output, success } from "../utils/output.js";
+import {
+  bold,
+  bullet,
+  dim,
+  error,
+  info,
+  output,
+  success,
+} from "../utils/output.js";
+import { parseSetOption, requireValidCustom } from "./custom.js";
+import { addLinkCommands, printLinks } from "./link.js";
+import { requireReference } from "./reference.js";
+import { addRemoveCommand } from "./remove.js";
+import { addRenameCommand } from "./rename.js";
 
 function getOutputOptions(cmd: Command): OutputOptions {
   const root = cmd.optsWithGlobals();
@@ -26,6 +41,9 @@ systemCommand
   .requiredOption("--name <name>", "System name")
   .option("--description <desc>", "What this system does")
   .option("--owner <id-or-name>", "Team or person who owns this system")
+  .option("--domain <id-or-name>", "Business domain this system belongs to")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--allow-dangling", "Keep references to records that do not exist")
   .action((opts, cmd) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
@@ -35,13 +53,30 @@ systemCommand
       id: newId(),
       name: opts.name,
       description: opts.description,
+      domain: opts.domain
+        ? requireReference(
+            root,
+            options,
+            "domains",
+            opts.domain,
+            opts.allowDangling,
+          )
+        : undefined,
       owner: opts.owner
-        ? resolveId<Owner>(root, "owners", opts.owner)
+        ? requireReference(
+            root,
+            options,
+            "owners",
+            opts.owner,
+            opts.allowDangling,
+          )
         : undefined,
+      custom: parseSetOption(opts.set, options),
       created: now,
       updated: now,
     };
 
+    requireValidCustom(root, options, "system", system.custom);
     writeRecord(root, "systems", system);
 
     output(options, {
@@ -52,25 +87,34 @@ systemCommand
   });
 
 // --- list ---
-systemCommand.command("list").action((_opts, cmd) => {
-  const options = getOutputOptions(cmd);
-  const root = requireRoot();
-  const catalog = loadCatalog(root);
-
-  output(options, {
-    json: () => ({ systems: catalog.systems }),
-    human: () => {
-      if (catalog.systems.length === 0) {
-        console.log(dim("No systems found."));
-        return;
-      }
-      for (const s of catalog.systems) {
-        bullet(`${bold(s.name)}  ${dim(s.id)}`);
-        if (s.description) console.log(`    ${dim(s.description)}`);
-      }
-    },
+systemCommand
+  .command("list")
+  .option("--domain <id-or-name>", "Filter by domain")
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+    const catalog = loadCatalog(root);
+
+    let systems = catalog.systems;
+    if (opts.domain) {
+      const domainId = resolveCatalogId(catalog, "domains", opts.domain);
+      systems = systems.filter((s) => s.domain === domainId);
+    }
+
+    output(options, {
+      json: () => ({ systems }),
+      human: () => {
+        if (systems.length === 0) {
+          console.log(dim("No systems found."));
+          return;
+        }
+        for (const s of systems) {
+          bullet(`${bold(s.name)}  ${dim(s.id)}`);
+          if (s.description) console.log(`    ${dim(s.description)}`);
+        }
+      },
+    });
   });
-});
 
 // --- show ---
 systemCommand
@@ -79,8 +123,8 @@ systemCommand
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
-    const id = resolveId<System>(root, "systems", idOrName);
     const catalog = loadCatalog(root);
+    const id = resolveCatalogId(catalog, "systems", idOrName);
     const resolved = resolveSystem(id, catalog);
 
     if (!resolved) {
@@ -91,16 +135,21 @@ systemCommand
       process.exit(1);
     }
 
-    const { system, owner, services } = resolved;
+    const { system, owner, domain, services } = resolved;
 
     output(options, {
-      json: () => ({ system, owner, services }),
+      json: () => ({ system, owner, domain, services }),
       human: () => {
         console.log();
         console.log(bold(system.name), dim(system.id));
         if (system.description) console.log(dim(system.description));
         console.log();
         if (owner) console.log(`  Owner: ${owner.name}`);
+        if (domain) console.log(`  Domain: ${domain.name}`);
+        if (system.aliases?.length)
+          console.log(`  Aliases: ${system.aliases.join(", ")}`);
+        if (sourceOf(system))
+          console.log(`  Source: ${sourceOf(system)} (read-only)`);
         console.log(`  Services: ${services.length}`);
         if (services.length > 0) {
           console.log();
@@ -108,22 +157,98 @@ systemCommand
             bullet(`${s.name}  ${dim(s.id)}`);
           }
         }
+        printLinks(system.links);
         console.log();
       },
     });
   });
 
-// --- rm ---
+// --- update ---
+const SYSTEM_CLEARABLE = [
+  "description",
+  "owner",
+  "domain",
+  "links",
+  "aliases",
+] as const;
+
 systemCommand
-  .command("rm <id-or-name>")
-  .action((idOrName: string, _opts: unknown, cmd: Command) => {
+  .command("update <id-or-name>")
+  .option("--name <name>", "New system name")
+  .option("--description <desc>", "What this system does")
+  .option("--owner <id-or-name>", "Team or person who owns this system")
+  .option("--domain <id-or-name>", "Business domain this system belongs to")
+  .option("--set <key=value...>", "Set custom keys")
+  .option("--unset <keys...>", "Remove custom keys")
+  .option(
+    "--clear <fields...>",
+    `Clear fields (${SYSTEM_CLEARABLE.join(", ")})`,
+  )
+  .option("--allow-dangling", "Keep references to records that do not exist")
+  .action((idOrName: string, opts, cmd: Command) => {
     const options = getOutputOptions(cmd);
     const root = requireRoot();
 
     const id = resolveId<System>(root, "systems", idOrName);
-    const deleted = deleteRecord(root, "systems", id);
+    let changed = false;
+    const updated = mutateRecord<System>(root, "systems", id, (system) => {
+      const badFields = unknownFields(opts.clear ?? [], SYSTEM_CLEARABLE);
+      const custom = parseKeyValues(opts.set ?? []);
+      if (badFields.length > 0 || custom.invalid.length > 0) {
+        output(options, {
+          json: () => ({
+            success: false,
+            error: "invalid_arguments",
+            clear: badFields,
+            set: custom.invalid,
+          }),
+          human: () => {
+            if (badFields.length > 0)
+              error(`Cannot clear: ${badFields.join(", ")}`);
+            if (custom.invalid.length > 0)
+              error(`Expected key=value: ${custom.invalid.join(", ")}`);
+          },
+        });
+        process.exit(1);
+      }
 
-    if (!deleted) {
+      const patch = applyPatch(system, {
+        set: {
+          name: opts.name,
+          description: opts.description,
+          owner: opts.owner
+            ? requireReference(
+                root,
+                options,
+                "owners",
+                opts.owner,
+                opts.allowDangling,
+              )
+            : undefined,
+          domain: opts.domain
+            ? requireReference(
+                root,
+                options,
+                "domains",
+                opts.domain,
+                opts.allowDangling,
+              )
+            : undefined,
+        },
+        clear: opts.clear,
+        setCustom: opts.set ? custom.values : undefined,
+        unsetCustom: opts.unset,
+      });
+
+      requireValidCustom(root, options, "system", patch.record.custom, [
+        ...Object.keys(custom.values),
+        ...(opts.unset ?? []),
+      ]);
+      changed = patch.changed;
+      return changed ? patch.record : null;
+    });
+
+    if (!updated) {
       output(options, {
         json: () => ({ success: false, error: "not_found" }),
         human: () => error(`System not found: ${idOrName}`),
@@ -132,7 +257,19 @@ systemCommand
     }
 
     output(options, {
-      json: () => ({ success: true, deleted: id }),
-      human: () => success(`Removed system ${dim(id)}`),
+      json: () => ({ success: true, changed, system: updated }),
+      human: () =>
+        changed
+          ? success(`System ${bold(updated.name)} updated (${dim(updated.id)})`)
+          : info(`System ${bold(updated.name)} unchanged`),
     });
   });
+
+// --- rename ---
+addRenameCommand(systemCommand, "systems");
+
+// --- rm ---
+addRemoveCommand(systemCommand, "systems");
+
+// --- link add / link rm ---
+addLinkCommands(systemCommand, "systems");
@@ -0,0 +1,24 @@
+import { parseTier } from "../tiers.js";
+import type { Tier } from "../types.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
+import type { OutputOptions } from "../utils/output.js";
+import { error, output } from "../utils/output.js";
+
+/**
+ * Parse a `--tier` option, exiting unless it is 1-4.
+ */
+export function requireTier(
+  value: string | undefined,
+  options: OutputOptions,
+): Tier | undefined {
+  if (value === undefined) return undefined;
+  const tier = parseTier(value);
+  if (tier === undefined) {
+    output(options, {
+      json: () => ({ success: false, error: "invalid_arguments", tier: value }),
+      human: () => error(`Tier must be 1, 2, 3 or 4, got: ${value}`),
+    });
+    process.exit(EXIT_USER_ERROR);
+  }
+  return tier;
+}
@@ -0,0 +1,311 @@
+import { relative } from "node:path";
+import { Command } from "commander";
+import { loadCatalog } from "../relations.js";
+import {
+  findByName,
+  purgeTrash,
+  readAll,
+  readTrash,
+  readTrashedWith,
+  readUnreadable,
+  requireRoot,
+  restoreRecord,
+} from "../store.js";
+import type { Api, Collection, TrashEntry } from "../types.js";
+import { COLLECTIONS, KIND_LABELS } from "../types.js";
+import { parseDuration } from "../utils/duration.js";
+import { EXIT_USER_ERROR } from "../utils/exit-codes.js";
+import type { OutputOptions } from "../utils/output.js";
+import {
+  bold,
+  bullet,
+  dim,
+  error,
+  hint,
+  info,
+  output,
+  success,
+  warn,
+} from "../utils/output.js";
+
+const KIND_COLLECTIONS = Object.fromEntries(
+  COLLECTIONS.map((c) => [KIND_LABELS[c], c]),
+) as Record<string, Collection>;
+
+function getOutputOptions(cmd: Command): OutputOptions {
+  const root = cmd.optsWithGlobals();
+  return { json: root.json, quiet: root.quiet };
+}
+
+function kindOf(entry: TrashEntry): string {
+  return entry.collection.slice(0, -1);
+}
+
+function summarize(entry: TrashEntry) {
+  return {
+    kind: kindOf(entry),
+    id: entry.record.id,
+    name: entry.record.name,
+    deletedAt: entry.deletedAt,
+    deletedBy: entry.deletedBy,
+  };
+}
+
+/**
+ * Resolve --kind to the collections to look in, exiting on a bad value.
+ */
+function kindCollections(
+  options: OutputOptions,
+  kind: string | undefined,
+): readonly Collection[] {
+  if (!kind) return COLLECTIONS;
+  const collection = KIND_COLLECTIONS[kind];
+  if (!collection) {
+    output(options, {
+      json: () => ({ success: false, error: "invalid_kind" }),
+      human: () =>
+        error(
+          `Unknown kind: ${kind} (expected ${Object.keys(KIND_COLLECTIONS).join(" | ")})`,
+        ),
+    });
+    process.exit(1);
+  }
+  return [collection];
+}
+
+/**
+ * Trash files that cannot be read, relative to the working directory.
+ * readTrash skips them, so they are listed wherever the trash is.
+ */
+function unreadableTrash(
+  root: string,
+  collections: readonly Collection[],
+): string[] {
+  return readUnreadable(root)
+    .filter((r) => r.trashed && collections.includes(r.collection))
+    .map((r) => relative(process.cwd(), r.path));
+}
+
+function warnUnreadable(paths: string[]): void {
+  if (paths.length === 0) return;
+  warn(`Skipped ${paths.length} trash file(s) that cannot be read:`);
+  for (const path of paths) console.log(`    ${path}`);
+  hint("Run yp lint for details");
+}
+
+export const trashCommand = new Command("trash").description(
+  "Inspect and empty the trash of removed records",
+);
+
+// --- list ---
+trashCommand
+  .command("list")
+  .option(
+    "--kind <kind>",
+    "Only one kind (service, system, owner, resource, domain, api)",
+  )
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+    const collections = kindCollections(options, opts.kind);
+    const entries = readTrash(root, collections);
+    const unreadable = unreadableTrash(root, collections);
+
+    output(options, {
+      json: () => ({
+        trash: entries.map(summarize),
+        ...(unreadable.length > 0 ? { unreadable } : {}),
+      }),
+      human: () => {
+        if (entries.length === 0) {
+          console.log(dim("Trash is empty."));
+        }
+        for (const e of entries) {
+          bullet(
+            `${bold(e.record.name)}  ${kindOf(e)}  ${dim(e.record.id)}  ${dim(`removed ${e.deletedAt} by ${e.deletedBy}`)}`,
+          );
+        }
+        warnUnreadable(unreadable);
+      },
+    });
+  });
+
+// --- purge ---
+trashCommand
+  .command("purge")
+  .requiredOption(
+    "--older-than <duration>",
+    "Only entries removed longer ago than this (e.g. 30d, 12h, 2w; 0d for all)",
+  )
+  .action((opts, cmd) => {
+    const options = getOutputOptions(cmd);
+    const root = requireRoot();
+
+    const ms = parseDuration(opts.olderThan);
+    if (ms === null) {
+      output(options, {
+        json: () => ({ success: false, error: "invalid_duration" }),
+        human: () =>
+          error(
+            `Invalid duration: ${opts.olderThan} (use e.g. 90m, 12h, 30d, 2w)`,
+          ),
+      });
+      process.exit(1);
+    }
+
+    const purged = purgeTrash(root, new Date(Date.now() - ms));
+
+    output(options, {
+      json: () => ({ success: true, purged: purged.map(summarize) }),
+      human: () => {
+        if (purged.length === 0) {
+          info(`Nothing in the trash is older than ${opts.olderThan}`);
+          return;
+        }
+        success(`Purged ${purged.length} record(s) from the trash`);
+      },
+    });
+  });
+
+// --- restore ---
+
+export async function restore(
+  args: string[],
+  options: OutputOptions & { kind?: string },
+): Promise<void> {
+  const root = requireRoot();
+  const idOrName = args[0];
+  const lower = idOrName.toLowerCase();
+
+  const collections = kindCollections(options, options.kind);
+  const found = readTrash(root, collections).filter(
+    (e) => e.record.id === idOrName || e.record.name.toLowerCase() === lower,
+  );
+  // An API named like its service comes back with the service
+  const ids = new Set(found.map((e) => e.record.id));
+  const matches =
+    found.length > 1
+      ? found.filter((e) => !e.trashedWith || !ids.has(e.trashedWith))
+      : found;
+
+  if (matches.length === 0) {
+    const unreadable = unreadableTrash(root, collections);
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "not_found",
+        ...(unreadable.length > 0 ? { unreadable } : {}),
+      }),
+      human: () => {
+        error(`Not in the trash: ${idOrName}`);
+        warnUnreadable(unreadable);
+      },
+    });
+    process.exit(1);
+  }
+
+  if (matches.length > 1) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "ambiguous",
+        matches: matches.map(summarize),
+      }),
+      human: () => {
+        error(`${idOrName} matches ${matches.length} trashed records:`);
+        for (const m of matches) {
+          console.log(
+            `    ${kindOf(m)} ${m.record.id}  ${dim(`removed ${m.deletedAt}`)}`,
+          );
+        }
+        hint("Pass an id or --kind to pick one");
+      },
+    });
+    process.exit(EXIT_USER_ERROR);
+  }
+
+  const [entry] = matches;
+  const { collection, record } = entry;
+
+  // API names are only unique among the APIs of one provider
+  const existing =
+    collection === "apis"
+      ? readAll<Api>(root, "apis").find(
+          (a) =>
+            a.provider === record.provider &&
+            a.name.toLowerCase() === record.name.toLowerCase(),
+        )
+      : findByName(root, collection, record.name);
+  if (existing) {
+    output(options, {
+      json: () => ({
+        success: false,
+        error: "name_conflict",
+        existing: existing.id,
+      }),
+      human: () =>
+        error(
+          `A ${kindOf(entry)} named ${bold(record.name)} already exists (${dim(existing.id)}). Rename it first.`,
+        ),
+    });
+    process.exit(1);
+  }
+
+  const along = readTrashedWith(root, record.id);
+  restoreRecord(root, collection, record.id);
+
+  // References the record holds to others that are gone now
+  const catalog = loadCatalog(root);
+  const dangling: string[] = [];
+  const targets = {
+    owner: catalog.owners,
+    system: catalog.systems,
+    domain: catalog.domains,
+    parent: catalog.owners,
+    provider: catalog.services,
+  };
+  for (const [field, target] of Object.entries(targets)) {
+    const ref = record[field];
+    if (typeof ref !== "string") continue;
+    if (!target.some((t) => t.id === ref)) dangling.push(`${field} ${ref}`);
+  }
+  for (const dep of (record.dependsOn ?? []) as { service: string }[]) {
+    if (!catalog.services.some((s) => s.id === dep.service)) {
+      dangling.push(`dependsOn ${dep.service}`);
+    }
+  }
+  for (const m of (record.members ?? []) as { person: string }[]) {
+    if (!catalog.owners.some((o) => o.id === m.person)) {
+      dangling.push(`members ${m.person}`);
+    }
+  }
+  for (const use of (record.uses ?? []) as { resource: string }[]) {
+    if (!catalog.resources.some((r) => r.id === use.resource)) {
+      dangling.push(`uses ${use.resource}`);
+    }
+  }
+
+  output(options, {
+    json: () => ({
+      success: true,
+      kind: kindOf(entry),
+      id: record.id,
+      name: record.name,
+      restoredWith: along.map(summarize),
+      dangling,
+    }),
+    human: () => {
+      success(
+        `Restored ${kindOf(entry)} ${bold(record.name)} (${dim(record.id)})`,
+      );
+      for (const e of along) {
+        info(`Restored its ${kindOf(e)} ${bold(e.record.name)} with it`);
+      }
+      if (dangling.length > 0) {
+        warn("It still points at records that no longer exist:");
+        for (const d of dangling) console.log(`    ${d}`);
+        hint("Run yp lint to review, or restore those records too");
+      }
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { checkCustomFields } from "./custom-fields.js";
+import type { CustomFieldDef } from "./types.js";
+
+const DEFS: CustomFieldDef[] = [
+  { key: "cost-center", type: "number", requiredFor: ["service"] },
+  { key: "tier", type: "enum", values: ["gold", "silver"] },
+  { key: "runbook", type: "url" },
+  { key: "sunset", type: "date" },
+  { key: "notes", type: "string" },
+];
+
+describe("checkCustomFields", () => {
+  test("accepts anything without definitions", () => {
+    expect(checkCustomFields({ whatever: "x" }, "service", [])).toEqual([]);
+  });
+
+  test("accepts valid values of each type", () => {
+    expect(
+      checkCustomFields(
+        {
+          "cost-center": "42",
+          tier: "gold",
+          runbook: "https://wiki.example.com/rb",
+          sunset: "2027-01-31",
+          notes: "anything",
+        },
+        "service",
+        DEFS,
+      ),
+    ).toEqual([]);
+  });
+
+  test("reports invalid values", () => {
+    const issues = checkCustomFields(
+      {
+        "cost-center": "forty-two",
+        tier: "bronze",
+        runbook: "wiki page",
+        sunset: "next year",
+      },
+      "service",
+      DEFS,
+    );
+    expect(issues.map((i) => [i.key, i.problem])).toEqual([
+      ["cost-center", "invalid"],
+      ["tier", "invalid"],
+      ["runbook", "invalid"],
+      ["sunset", "invalid"],
+    ]);
+    expect(issues[1].message).toContain("one of gold, silver");
+  });
+
+  test("reports unknown keys with a hint for near misses", () => {
+    const issues = checkCustomFields(
+      { costCenter: "42", region: "eu" },
+      "system",
+      DEFS,
+    );
+    expect(issues.map((i) => i.problem)).toEqual(["unknown", "unknown"]);
+    expect(issues[0].message).toContain('did you mean "cost-center"');
+    expect(issues[1].message).not.toContain("did you mean");
+  });
+
+  test("required fields apply only to their kinds", () => {
+    expect(checkCustomFields(undefined, "service", DEFS)).toEqual([
+      {
+        key: "cost-center",
+        problem: "missing",
+        message: 'Custom field "cost-center" is required for every service',
+      },
+    ]);
+    expect(checkCustomFields(undefined, "owner", DEFS)).toEqual([]);
+  });
+});
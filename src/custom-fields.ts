@@ -0,0 +1,94 @@
+import type { CustomFieldDef } from "./types.js";
+
+/**
+ * Validation of `custom` values against the definitions in config.json.
+ * Without definitions any key is accepted, as before they existed.
+ */
+
+export type CustomFieldProblem = "unknown" | "invalid" | "missing";
+
+export interface CustomFieldIssue {
+  key: string;
+  problem: CustomFieldProblem;
+  message: string;
+}
+
+// cost-center, costCenter and cost_center all normalize to "costcenter"
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, "");
+}
+
+function isValidValue(def: CustomFieldDef, value: string): boolean {
+  switch (def.type) {
+    case "string":
+      return true;
+    case "enum":
+      return (def.values ?? []).includes(value);
+    case "number":
+      return value.trim() !== "" && Number.isFinite(Number(value));
+    case "url":
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    case "date":
+      return (
+        /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+      );
+    default:
+      return false;
+  }
+}
+
+function describeType(def: CustomFieldDef): string {
+  if (def.type === "enum") return `one of ${(def.values ?? []).join(", ")}`;
+  if (def.type === "date") return "a date (YYYY-MM-DD)";
+  return `a ${def.type}`;
+}
+
+/**
+ * Check a record's custom values for a kind (service, system, ...).
+ * Unknown keys that differ from a defined key only in case or separators
+ * get a did-you-mean hint.
+ */
+export function checkCustomFields(
+  custom: Record<string, string> | undefined,
+  kind: string,
+  defs: CustomFieldDef[],
+): CustomFieldIssue[] {
+  if (defs.length === 0) return [];
+  const issues: CustomFieldIssue[] = [];
+  const byKey = new Map(defs.map((d) => [d.key, d]));
+
+  for (const [key, value] of Object.entries(custom ?? {})) {
+    const def = byKey.get(key);
+    if (!def) {
+      const near = defs.find((d) => normalizeKey(d.key) === normalizeKey(key));
+      issues.push({
+        key,
+        problem: "unknown",
+        message: `Unknown custom field "${key}"${near ? ` (did you mean "${near.key}"?)` : ""}`,
+      });
+    } else if (!isValidValue(def, value)) {
+      issues.push({
+        key,
+        problem: "invalid",
+        message: `Custom field "${key}" must be ${describeType(def)}, got "${value}"`,
+      });
+    }
+  }
+
+  for (const def of defs) {
+    if (def.requiredFor?.includes(kind) && custom?.[def.key] === undefined) {
+      issues.push({
+        key: def.key,
+        problem: "missing",
+        message: `Custom field "${def.key}" is required for every ${kind}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -3,10 +3,11 @@ import {
   buildReverseIndex,
   findOrphans,
   resolveDeps,
+  resolveResourceUsers,
   walkDown,
   walkUp,
 } from "./deps.js";
-import type { Service } from "./types.js";
+import type { Resource, Service } from "./types.js";
 
 function makeService(
   overrides: Partial<Service> & { id: string; name: string },
@@ -222,3 +223,62 @@ describe("resolveDeps", () => {
     expect(result.dependencies).toEqual([]);
   });
 });
+
+// --- resources ---
+
+describe("resources", () => {
+  const db: Resource = {
+    id: "db",
+    name: "orders-db",
+    kind: "database",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+  };
+  const withUses = [
+    makeService({
+      id: "checkout",
+      name: "checkout",
+      uses: [{ resource: "db", access: "readwrite" }],
+    }),
+    makeService({
+      id: "reports",
+      name: "reports",
+      uses: [{ resource: "db", access: "read" }, { resource: "gone" }],
+    }),
+    makeService({ id: "other", name: "other" }),
+  ];
+
+  test("resolveDeps lists the resources a service uses", () => {
+    const result = resolveDeps("reports", withUses, 10, undefined, [db]);
+    expect(result.resources).toEqual([
+      {
+        id: "db",
+        name: "orders-db",
+        kind: "database",
+        access: "read",
+        description: undefined,
+      },
+      {
+        id: "gone",
+        name: "gone",
+        kind: undefined,
+        access: undefined,
+        description: undefined,
+      },
+    ]);
+  });
+
+  test("direction up leaves resources out", () => {
+    const result = resolveDeps("checkout", withUses, 10, "up", [db]);
+    expect(result.resources).toEqual([]);
+  });
+
+  test("resolveResourceUsers lists every service with its access", () => {
+    const result = resolveResourceUsers(db, withUses);
+    expect(result.resource.name).toBe("orders-db");
+    expect(result.users.map((u) => [u.name, u.access])).toEqual([
+      ["checkout", "readwrite"],
+      ["reports", "read"],
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import type { Service } from "./types.js";
+import type { Access, Resource, ResourceKind, Service } from "./types.js";
 
 export interface DepNode {
   id: string;
@@ -8,10 +8,24 @@ export interface DepNode {
   children: DepNode[];
 }
 
+export interface ResourceNode {
+  id: string;
+  name: string;
+  kind?: ResourceKind;
+  access?: Access;
+  description?: string;
+}
+
 export interface DepsResult {
   service: { id: string; name: string };
   dependents: DepNode[];
   dependencies: DepNode[];
+  resources: ResourceNode[];
+}
+
+export interface ResourceUsersResult {
+  resource: { id: string; name: string; kind?: ResourceKind };
+  users: { id: string; name: string; access?: Access; description?: string }[];
 }
 
 /**
@@ -115,10 +129,12 @@ export function resolveDeps(
   services: Service[],
   maxDepth: number,
   direction?: "up" | "down",
+  resources: Resource[] = [],
 ): DepsResult {
   const serviceMap = new Map(services.map((s) => [s.id, s]));
   const reverseIndex = buildReverseIndex(services);
   const service = serviceMap.get(serviceId);
+  const resourceMap = new Map(resources.map((r) => [r.id, r]));
 
   return {
     service: { id: serviceId, name: service?.name ?? serviceId },
@@ -126,5 +142,41 @@ export function resolveDeps(
       direction === "down" ? [] : walkUp(serviceId, reverseIndex, maxDepth),
     dependencies:
       direction === "up" ? [] : walkDown(serviceId, serviceMap, maxDepth),
+    // Resources are leaves: only the ones this service uses directly
+    resources:
+      direction === "up"
+        ? []
+        : (service?.uses ?? []).map((use) => {
+            const target = resourceMap.get(use.resource);
+            return {
+              id: use.resource,
+              name: target?.name ?? use.resource,
+              kind: target?.kind,
+              access: use.access,
+              description: use.description,
+            };
+          }),
+  };
+}
+
+/**
+ * List the services that use a resource, with how they use it.
+ */
+export function resolveResourceUsers(
+  resource: Resource,
+  services: Service[],
+): ResourceUsersResult {
+  return {
+    resource: { id: resource.id, name: resource.name, kind: resource.kind },
+    users: services.flatMap((s) =>
+      (s.uses ?? [])
+        .filter((use) => use.resource === resource.id)
+        .map((use) => ({
+          id: s.id,
+          name: s.name,
+          access: use.access,
+          description: use.description,
+        })),
+    ),
   };
 }
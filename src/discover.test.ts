@@ -285,6 +285,23 @@ describe("diffServices", () => {
     expect(diff.updated).toHaveLength(0);
   });
 
+  test("matches renamed services by alias", () => {
+    const discovered: DiscoveredService[] = [
+      { name: "payment-api", description: "Same", source: "inferred" },
+    ];
+    const existing = [
+      makeService({
+        id: "s1",
+        name: "payments-gateway",
+        aliases: ["payment-api"],
+        description: "Same",
+      }),
+    ];
+    const diff = diffServices(discovered, existing);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.updated).toHaveLength(0);
+  });
+
   test("detects updated services", () => {
     const discovered: DiscoveredService[] = [
       { name: "svc-a", description: "New desc", source: "inferred" },
@@ -10,11 +10,15 @@ export interface CatalogFileSpec {
   kind?: string;
   metadata?: {
     name?: string;
+    aliases?: string[];
     description?: string;
   };
   spec?: {
     system?: string;
     owner?: string;
+    type?: string; // kind: Owner
+    email?: string; // kind: Owner
+    slack?: string; // kind: Owner
     lifecycle?: string;
     repo?: string;
     tags?: string[];
@@ -31,16 +35,20 @@ export interface CatalogFileSpec {
   };
 }
 
+// An API a service declares it provides; becomes an `apis` record
+export type DeclaredApi = Pick<Api, "name" | "type" | "spec" | "description">;
+
 export interface DiscoveredService {
   name: string;
+  aliases?: string[];
   description?: string;
   system?: string; // name, not ID
   owner?: string; // name, not ID
   lifecycle?: Lifecycle;
   repo?: string;
   tags?: string[];
-  apis?: Api[];
-  dependsOn?: Dependency[];
+  apis?: DeclaredApi[];
+  dependsOn?: Dependency[]; // `api` holds a name of an API of the target
   source: "catalog-file" | "inferred";
   sourcePath?: string;
 }
@@ -60,13 +68,24 @@ export function parseCatalogFile(
   }
 
   if (!doc || typeof doc !== "object") return null;
+  return serviceFromSpec(doc, sourcePath);
+}
+
+/**
+ * Map a parsed catalog document to a DiscoveredService.
+ * Returns null when the document has no name.
+ */
+export function serviceFromSpec(
+  doc: CatalogFileSpec,
+  sourcePath: string,
+): DiscoveredService | null {
   if (!doc.metadata?.name) return null;
 
   const deps: Dependency[] = (doc.spec?.dependsOn ?? []).map((d) =>
     typeof d === "string" ? { service: d } : d,
   );
 
-  const apis: Api[] = (doc.spec?.apis ?? []).map((a) => ({
+  const apis: DeclaredApi[] = (doc.spec?.apis ?? []).map((a) => ({
     name: a.name,
     type: (a.type ?? "other") as Api["type"],
     spec: a.spec,
@@ -75,6 +94,7 @@ export function parseCatalogFile(
 
   return {
     name: doc.metadata.name,
+    aliases: doc.metadata.aliases,
     description: doc.metadata.description,
     system: doc.spec?.system,
     owner: doc.spec?.owner,
@@ -301,15 +321,19 @@ export interface DiscoverDiff {
 
 /**
  * Diff discovered services against existing catalog.
- * Matches on service name (case-insensitive).
+ * Matches on service name or alias (case-insensitive).
  */
 export function diffServices(
   discovered: DiscoveredService[],
   existing: Service[],
 ): DiscoverDiff {
+  // Names win over aliases, so a renamed service keeps matching its old name
   const existingByName = new Map(
-    existing.map((s) => [s.name.toLowerCase(), s]),
+    existing.flatMap((s) =>
+      (s.aliases ?? []).map((a) => [a.toLowerCase(), s] as const),
+    ),
   );
+  for (const s of existing) existingByName.set(s.name.toLowerCase(), s);
 
   const added: DiscoveredService[] = [];
   const updated: { existing: Service; discovered: DiscoveredService }[] = [];
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import {
+  matchApis,
+  matchDependencies,
+  matchEnvironments,
+  matchLinks,
+} from "./embedded.js";
+import type { Api, Service } from "./types.js";
+
+function makeService(
+  overrides: Partial<Service> & { id: string; name: string },
+): Service {
+  return {
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function makeApi(overrides: Partial<Api> & { id: string; name: string }): Api {
+  return {
+    type: "rest",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const payments = makeService({ id: "s2", name: "payments" });
+const auth = makeService({ id: "s3", name: "auth" });
+
+describe("matchApis", () => {
+  const apis: Api[] = [
+    makeApi({ id: "a1", name: "REST" }),
+    makeApi({ id: "a2", name: "gRPC", aliases: ["rpc"] }),
+  ];
+
+  test("matches by id, or by name or alias case-insensitively", () => {
+    expect(matchApis(apis, "grpc")).toEqual([1]);
+    expect(matchApis(apis, "RPC")).toEqual([1]);
+    expect(matchApis(apis, "a1")).toEqual([0]);
+  });
+
+  test("returns empty when nothing matches", () => {
+    expect(matchApis(apis, "graphql")).toEqual([]);
+  });
+
+  test("returns every duplicate", () => {
+    const dup = [
+      makeApi({ id: "a1", name: "REST" }),
+      makeApi({ id: "a2", name: "rest" }),
+    ];
+    expect(matchApis(dup, "REST")).toEqual([0, 1]);
+  });
+});
+
+describe("matchEnvironments", () => {
+  const service = makeService({
+    id: "s1",
+    name: "gateway",
+    environments: [{ name: "production" }, { name: "Staging" }],
+  });
+
+  test("matches by name case-insensitively", () => {
+    expect(matchEnvironments(service, "staging")).toEqual([1]);
+  });
+
+  test("returns empty when the service has none", () => {
+    expect(matchEnvironments(payments, "production")).toEqual([]);
+  });
+});
+
+describe("matchDependencies", () => {
+  const services = [payments, auth];
+
+  test("matches by target id", () => {
+    const s = makeService({
+      id: "s1",
+      name: "gateway",
+      dependsOn: [{ service: "s2" }, { service: "s3" }],
+    });
+    expect(matchDependencies(s, "s3", services)).toEqual([1]);
+  });
+
+  test("matches by target name when stored as id", () => {
+    const s = makeService({
+      id: "s1",
+      name: "gateway",
+      dependsOn: [{ service: "s2" }],
+    });
+    expect(matchDependencies(s, "Payments", services)).toEqual([0]);
+  });
+
+  test("matches dependencies stored as names", () => {
+    const s = makeService({
+      id: "s1",
+      name: "gateway",
+      dependsOn: [{ service: "payments" }, { service: "stripe" }],
+    });
+    expect(matchDependencies(s, "s2", services)).toEqual([0]);
+    expect(matchDependencies(s, "stripe", services)).toEqual([1]);
+  });
+
+  test("narrows by api", () => {
+    const s = makeService({
+      id: "s1",
+      name: "gateway",
+      dependsOn: [
+        { service: "s2", api: "REST" },
+        { service: "s2", api: "Events" },
+      ],
+    });
+    expect(matchDependencies(s, "payments", services)).toEqual([0, 1]);
+    expect(matchDependencies(s, "payments", services, "events")).toEqual([1]);
+  });
+
+  test("narrows by the name of an API referenced by id", () => {
+    const s = makeService({
+      id: "s1",
+      name: "gateway",
+      dependsOn: [{ service: "s2", api: "a1" }, { service: "s2" }],
+    });
+    const apis = [makeApi({ id: "a1", name: "Charges", provider: "s2" })];
+    expect(matchDependencies(s, "payments", services, "charges", apis)).toEqual(
+      [0],
+    );
+    expect(matchDependencies(s, "payments", services, "a1")).toEqual([0]);
+  });
+});
+
+describe("matchLinks", () => {
+  const service = makeService({
+    id: "s1",
+    name: "gateway",
+    links: [
+      { title: "Runbook", url: "https://wiki/rb", type: "runbook" },
+      { title: "Grafana", url: "https://grafana/d/1", type: "dashboard" },
+      { title: "Old dashboard", url: "https://grafana/d/1" },
+    ],
+  });
+
+  test("matches by title case-insensitively", () => {
+    expect(matchLinks(service, "runbook")).toEqual([0]);
+  });
+
+  test("matches by URL, which may be shared", () => {
+    expect(matchLinks(service, "https://grafana/d/1")).toEqual([1, 2]);
+  });
+
+  test("no links", () => {
+    expect(matchLinks(makeService({ id: "s2", name: "x" }), "a")).toEqual([]);
+  });
+});
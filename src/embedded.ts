@@ -0,0 +1,94 @@
+import type { Api, Link, Service } from "./types.js";
+
+/**
+ * Matching for records embedded in a service (`dependsOn`,
+ * `environments`) or in any linkable entity (`links`), and for the APIs
+ * a service provides.
+ * All return indexes so callers can edit or splice in place; more than one
+ * index means the input is ambiguous.
+ */
+
+/**
+ * Find APIs by id, or by name or alias (case-insensitive). API names are
+ * only unique per provider, so pass the APIs of one service.
+ */
+export function matchApis(apis: Api[], idOrName: string): number[] {
+  const lower = idOrName.toLowerCase();
+  const matches: number[] = [];
+  apis.forEach((api, i) => {
+    if (
+      api.id === idOrName ||
+      api.name.toLowerCase() === lower ||
+      api.aliases?.some((a) => a.toLowerCase() === lower)
+    )
+      matches.push(i);
+  });
+  return matches;
+}
+
+/**
+ * Find environments on a service by name (case-insensitive).
+ */
+export function matchEnvironments(service: Service, name: string): number[] {
+  const lower = name.toLowerCase();
+  const matches: number[] = [];
+  (service.environments ?? []).forEach((env, i) => {
+    if (env.name.toLowerCase() === lower) matches.push(i);
+  });
+  return matches;
+}
+
+/**
+ * Find links by title (case-insensitive) or exact URL.
+ */
+export function matchLinks(
+  record: { links?: Link[] },
+  titleOrUrl: string,
+): number[] {
+  const lower = titleOrUrl.toLowerCase();
+  const matches: number[] = [];
+  (record.links ?? []).forEach((link, i) => {
+    if (link.title.toLowerCase() === lower || link.url === titleOrUrl)
+      matches.push(i);
+  });
+  return matches;
+}
+
+/**
+ * Find dependencies on a target service, given its id or name.
+ * `Dependency.service` may hold an id or a name (discovery writes names it
+ * could not resolve), so both forms of the target are accepted.
+ * When `api` is given, only dependencies on that API match: its id, the
+ * name of one of `apis`, or the reference as written.
+ */
+export function matchDependencies(
+  service: Service,
+  target: string,
+  services: Service[],
+  api?: string,
+  apis: Api[] = [],
+): number[] {
+  const lower = target.toLowerCase();
+  const ids = new Set([target]);
+  const names = new Set([lower]);
+  for (const s of services) {
+    if (s.id === target || s.name.toLowerCase() === lower) {
+      ids.add(s.id);
+      names.add(s.name.toLowerCase());
+    }
+  }
+
+  const apiRefs = new Set<string>();
+  if (api) {
+    apiRefs.add(api.toLowerCase());
+    for (const i of matchApis(apis, api)) apiRefs.add(apis[i].id.toLowerCase());
+  }
+
+  const matches: number[] = [];
+  (service.dependsOn ?? []).forEach((dep, i) => {
+    if (!ids.has(dep.service) && !names.has(dep.service.toLowerCase())) return;
+    if (api && !apiRefs.has(dep.api?.toLowerCase() ?? "")) return;
+    matches.push(i);
+  });
+  return matches;
+}
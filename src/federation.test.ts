@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findSourceConflicts,
+  mergeCatalogs,
+  type SourceCatalog,
+  sourceOf,
+} from "./federation.js";
+import type { CatalogData } from "./relations.js";
+import { resolveService } from "./relations.js";
+
+const at = { created: "2026-01-01T00:00:00Z", updated: "2026-01-01T00:00:00Z" };
+
+function makeCatalog(overrides: Partial<CatalogData> = {}): CatalogData {
+  return {
+    services: [],
+    systems: [],
+    owners: [],
+    resources: [],
+    domains: [],
+    apis: [],
+    ...overrides,
+  };
+}
+
+const local = makeCatalog({
+  services: [
+    {
+      id: "s1",
+      name: "checkout",
+      owner: "Platform-Team", // a team of the central catalog, by name
+      dependsOn: [{ service: "billing" }],
+      ...at,
+    },
+  ],
+});
+
+const central: SourceCatalog = {
+  name: "central",
+  root: "/catalogs/central/.yellowpages",
+  catalog: makeCatalog({
+    services: [
+      { id: "s1", name: "shadowed", ...at },
+      { id: "s9", name: "billing", owner: "o1", ...at },
+    ],
+    owners: [{ id: "o1", name: "platform-team", type: "team", ...at }],
+  }),
+};
+
+describe("mergeCatalogs", () => {
+  test("without sources the local catalog is returned unchanged", () => {
+    expect(mergeCatalogs(local, [])).toBe(local);
+  });
+
+  test("tags source records and keeps local ones on id clashes", () => {
+    const merged = mergeCatalogs(local, [central]);
+    expect(merged.services.map((s) => [s.name, sourceOf(s)])).toEqual([
+      ["checkout", undefined],
+      ["billing", "central"],
+    ]);
+    expect(sourceOf(merged.owners[0])).toBe("central");
+  });
+
+  test("resolves references by name across catalogs", () => {
+    const merged = mergeCatalogs(local, [central]);
+    const resolved = resolveService("s1", merged);
+    expect(resolved?.owner?.id).toBe("o1");
+    expect(resolved?.service.dependsOn).toEqual([{ service: "s9" }]);
+    // The local record itself is not modified
+    expect(local.services[0].owner).toBe("Platform-Team");
+  });
+
+  test("resolves API and on-call references by name", () => {
+    const consumer = makeCatalog({
+      services: [
+        {
+          id: "s1",
+          name: "checkout",
+          dependsOn: [{ service: "billing", api: "Invoices" }],
+          ...at,
+        },
+      ],
+      owners: [
+        {
+          id: "o2",
+          name: "checkout-team",
+          type: "team",
+          oncall: { primary: "alice", escalation: ["bob", "ops@example.com"] },
+          ...at,
+        },
+      ],
+    });
+    const provider: SourceCatalog = {
+      ...central,
+      catalog: makeCatalog({
+        services: [
+          { id: "s8", name: "ledger", ...at },
+          { id: "s9", name: "billing", ...at },
+        ],
+        apis: [
+          // Same name under another provider
+          { id: "a1", name: "invoices", type: "rest", provider: "s8", ...at },
+          { id: "a2", name: "invoices", type: "rest", provider: "s9", ...at },
+        ],
+        owners: [
+          { id: "p1", name: "alice", type: "person", ...at },
+          { id: "p2", name: "bob", type: "person", ...at },
+        ],
+      }),
+    };
+    const merged = mergeCatalogs(consumer, [provider]);
+    expect(merged.services[0].dependsOn).toEqual([
+      { service: "s9", api: "a2" },
+    ]);
+    expect(merged.owners[0].oncall).toEqual({
+      primary: "p1",
+      escalation: ["p2", "ops@example.com"],
+    });
+  });
+});
+
+describe("findSourceConflicts", () => {
+  test("reports shared ids and names", () => {
+    const withName = makeCatalog({
+      ...local,
+      owners: [{ id: "o7", name: "Platform-Team", type: "team", ...at }],
+    });
+    expect(findSourceConflicts(withName, [central])).toEqual([
+      {
+        kind: "id",
+        collection: "services",
+        value: "s1",
+        catalogs: ["local", "central"],
+      },
+      {
+        kind: "name",
+        collection: "owners",
+        value: "Platform-Team",
+        catalogs: ["local", "central"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,321 @@
+import { existsSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { planMigration, type RawCatalog } from "./migrate.js";
+import type { CatalogData } from "./relations.js";
+import { catalogVersion, readAll, readConfig } from "./store.js";
+import type { Collection, SourceConfig } from "./types.js";
+import { CATALOG_VERSION, COLLECTIONS } from "./types.js";
+
+/**
+ * Federated catalogs: other `.yellowpages` directories listed under
+ * `sources` in config.json, merged read-only into the local catalog.
+ * Records from a source carry its name in `source`; local records have
+ * none. References that hold a name instead of an id (the local catalog
+ * cannot resolve a team that lives in the central one) are resolved by
+ * name across every catalog.
+ */
+
+export interface SourceCatalog {
+  name: string;
+  root: string; // the source's .yellowpages directory
+  catalog: CatalogData;
+}
+
+export interface SourceProblem {
+  name: string;
+  path: string;
+  message: string;
+}
+
+type AnyRecord = {
+  id: string;
+  name: string;
+  aliases?: string[];
+  provider?: string;
+};
+// `provider` scopes API names to the service that provides them
+type Lookup = (
+  collection: Collection,
+  ref: string,
+  provider?: string,
+) => string;
+
+/**
+ * Name a source is reported under: its `name`, else the last segment of
+ * its path.
+ */
+export function sourceName(source: SourceConfig): string {
+  return source.name ?? basename(resolve(source.path));
+}
+
+/**
+ * The source a record was loaded from, or undefined for local records.
+ */
+export function sourceOf(record: object): string | undefined {
+  return (record as { source?: string }).source;
+}
+
+/**
+ * Find a source's .yellowpages directory. `path` is relative to the
+ * directory holding the local `.yellowpages`, and may point at a checkout
+ * that contains one or at the directory itself.
+ */
+export function resolveSourceRoot(
+  root: string,
+  source: SourceConfig,
+): string | null {
+  const path = resolve(dirname(root), source.path);
+  if (existsSync(join(path, ".yellowpages", "config.json"))) {
+    return join(path, ".yellowpages");
+  }
+  if (existsSync(join(path, "config.json"))) return path;
+  return null;
+}
+
+/**
+ * Read every source listed in config.json. Sources of sources are not
+ * followed. Sources at an older schema version are migrated in memory;
+ * sources that cannot be found or are newer than this yp reads are
+ * returned as problems.
+ */
+export function loadSourceCatalogs(root: string): {
+  sources: SourceCatalog[];
+  problems: SourceProblem[];
+} {
+  const sources: SourceCatalog[] = [];
+  const problems: SourceProblem[] = [];
+  for (const source of readConfig(root).sources ?? []) {
+    const name = sourceName(source);
+    const sourceRoot = resolveSourceRoot(root, source);
+    if (!sourceRoot) {
+      problems.push({
+        name,
+        path: source.path,
+        message: `No .yellowpages catalog at ${source.path}`,
+      });
+      continue;
+    }
+    if (resolve(sourceRoot) === resolve(root)) continue;
+    const version = catalogVersion(sourceRoot);
+    if (version > CATALOG_VERSION) {
+      problems.push({
+        name,
+        path: source.path,
+        message: `Catalog at ${source.path} is at version ${version}, newer than this yp supports (${CATALOG_VERSION})`,
+      });
+      continue;
+    }
+    const raw = Object.fromEntries(
+      COLLECTIONS.map((c) => [c, readAll(sourceRoot, c)]),
+    ) as RawCatalog;
+    const catalog = (version < CATALOG_VERSION
+      ? planMigration(raw, version).catalog
+      : raw) as unknown as CatalogData;
+    sources.push({ name, root: sourceRoot, catalog });
+  }
+  return { sources, problems };
+}
+
+function createLookup(catalog: CatalogData): Lookup {
+  const ids = new Map<Collection, Set<string>>();
+  const names = new Map<Collection, Map<string, string>>();
+  // API names are only unique per provider, so they are keyed by both
+  const nameKey = (collection: Collection, name: string, provider?: string) =>
+    collection === "apis"
+      ? `${provider ?? ""}/${name.toLowerCase()}`
+      : name.toLowerCase();
+  for (const collection of COLLECTIONS) {
+    const records = catalog[collection] as AnyRecord[];
+    ids.set(collection, new Set(records.map((r) => r.id)));
+    // Earlier catalogs win: names before aliases, local before sources
+    const byName = new Map<string, string>();
+    for (const r of records) {
+      const key = nameKey(collection, String(r.name), r.provider);
+      if (!byName.has(key)) byName.set(key, r.id);
+    }
+    for (const r of records) {
+      for (const alias of Array.isArray(r.aliases) ? r.aliases : []) {
+        const key = nameKey(collection, String(alias), r.provider);
+        if (!byName.has(key)) byName.set(key, r.id);
+      }
+    }
+    names.set(collection, byName);
+  }
+  return (collection, ref, provider) =>
+    ids.get(collection)?.has(ref)
+      ? ref
+      : (names.get(collection)?.get(nameKey(collection, ref, provider)) ?? ref);
+}
+
+/**
+ * Copy a record with every reference held as a name replaced by the id
+ * it names. Malformed fields are left as they are for lint to report.
+ */
+function resolveRecordReferences<T extends object>(
+  collection: Collection,
+  record: T,
+  lookup: Lookup,
+): T {
+  const fields = { ...record } as Record<string, unknown>;
+  const ref = (field: string, target: Collection) => {
+    if (typeof fields[field] === "string") {
+      fields[field] = lookup(target, fields[field] as string);
+    }
+  };
+  const refs = (field: string, key: string, target: Collection) => {
+    if (!Array.isArray(fields[field])) return;
+    fields[field] = (fields[field] as Record<string, unknown>[]).map((e) =>
+      typeof e?.[key] === "string"
+        ? { ...e, [key]: lookup(target, e[key] as string) }
+        : e,
+    );
+  };
+
+  switch (collection) {
+    case "services":
+      ref("system", "systems");
+      ref("owner", "owners");
+      refs("dependsOn", "service", "services");
+      refs("uses", "resource", "resources");
+      // After dependsOn[].service: an API is named within its provider
+      if (Array.isArray(fields.dependsOn)) {
+        fields.dependsOn = (fields.dependsOn as Record<string, unknown>[]).map(
+          (d) =>
+            typeof d?.api === "string" && typeof d.service === "string"
+              ? { ...d, api: lookup("apis", d.api, d.service) }
+              : d,
+        );
+      }
+      break;
+    case "systems":
+      ref("owner", "owners");
+      ref("domain", "domains");
+      break;
+    case "owners":
+      ref("parent", "owners");
+      refs("members", "person", "owners");
+      if (fields.oncall && typeof fields.oncall === "object") {
+        const oncall = { ...fields.oncall } as Record<string, unknown>;
+        if (typeof oncall.primary === "string") {
+          oncall.primary = lookup("owners", oncall.primary);
+        }
+        if (Array.isArray(oncall.escalation)) {
+          oncall.escalation = oncall.escalation.map((e) =>
+            typeof e === "string" ? lookup("owners", e) : e,
+          );
+        }
+        fields.oncall = oncall;
+      }
+      break;
+    case "resources":
+      ref("system", "systems");
+      ref("owner", "owners");
+      break;
+    case "domains":
+      ref("owner", "owners");
+      break;
+    case "apis":
+      ref("provider", "services");
+      ref("owner", "owners");
+      break;
+  }
+  return fields as T;
+}
+
+/**
+ * Resolve references held as names in `catalog` against `lookupIn`
+ * (default: the catalog itself). Pure — returns copies.
+ */
+export function resolveReferencesByName(
+  catalog: CatalogData,
+  lookupIn: CatalogData = catalog,
+): CatalogData {
+  const lookup = createLookup(lookupIn);
+  return Object.fromEntries(
+    COLLECTIONS.map((c) => [
+      c,
+      (catalog[c] as object[]).map((r) =>
+        resolveRecordReferences(c, r, lookup),
+      ),
+    ]),
+  ) as unknown as CatalogData;
+}
+
+/**
+ * Merge sources into the local catalog. A source record whose id is
+ * already taken is left out (lint reports it). Without sources the local
+ * catalog is returned as it is.
+ */
+export function mergeCatalogs(
+  local: CatalogData,
+  sources: SourceCatalog[],
+): CatalogData {
+  if (sources.length === 0) return local;
+  const merged = Object.fromEntries(
+    COLLECTIONS.map((c) => [c, [...local[c]]]),
+  ) as unknown as CatalogData;
+  for (const collection of COLLECTIONS) {
+    const records = merged[collection] as AnyRecord[];
+    const seen = new Set(records.map((r) => r.id));
+    for (const source of sources) {
+      for (const r of source.catalog[collection] as AnyRecord[]) {
+        if (seen.has(r.id)) continue;
+        seen.add(r.id);
+        records.push({ ...r, source: source.name } as AnyRecord);
+      }
+    }
+  }
+  return resolveReferencesByName(merged);
+}
+
+export interface SourceConflict {
+  kind: "id" | "name";
+  collection: Collection;
+  value: string; // the shared id or name
+  catalogs: string[]; // "local" or source names, in load order
+}
+
+/**
+ * Records that more than one catalog defines: the same id (one copy is
+ * dropped when merging) or the same name (references by name become
+ * ambiguous). Names are compared case-insensitively.
+ */
+export function findSourceConflicts(
+  local: CatalogData,
+  sources: SourceCatalog[],
+): SourceConflict[] {
+  const catalogs = [
+    { name: "local", catalog: local },
+    ...sources.map((s) => ({ name: s.name, catalog: s.catalog })),
+  ];
+  const conflicts: SourceConflict[] = [];
+  for (const collection of COLLECTIONS) {
+    const byId = new Map<string, string[]>();
+    const byName = new Map<string, { name: string; catalogs: string[] }>();
+    for (const { name, catalog } of catalogs) {
+      for (const r of catalog[collection] as AnyRecord[]) {
+        byId.set(r.id, [...(byId.get(r.id) ?? []), name]);
+        const key = String(r.name).toLowerCase();
+        const entry = byName.get(key) ?? { name: r.name, catalogs: [] };
+        if (!entry.catalogs.includes(name)) entry.catalogs.push(name);
+        byName.set(key, entry);
+      }
+    }
+    for (const [id, names] of byId) {
+      if (names.length > 1) {
+        conflicts.push({ kind: "id", collection, value: id, catalogs: names });
+      }
+    }
+    for (const entry of byName.values()) {
+      if (entry.catalogs.length > 1) {
+        conflicts.push({
+          kind: "name",
+          collection,
+          value: entry.name,
+          catalogs: entry.catalogs,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,67 @@
+import { afterEach, expect, test } from "bun:test";
+import { currentActor, diffRecords, historyEntry } from "./history";
+
+const ACTOR = process.env.YP_ACTOR;
+
+afterEach(() => {
+  if (ACTOR === undefined) delete process.env.YP_ACTOR;
+  else process.env.YP_ACTOR = ACTOR;
+});
+
+test("diffRecords lists changed, added and cleared fields", () => {
+  const changes = diffRecords(
+    { id: "s1", name: "checkout", owner: "o1", repo: "x", updated: "a" },
+    { id: "s1", name: "checkout", owner: "o2", lifecycle: "production" },
+  );
+  expect(changes).toEqual([
+    { field: "lifecycle", to: "production" },
+    { field: "owner", from: "o1", to: "o2" },
+    { field: "repo", from: "x" },
+  ]);
+});
+
+test("diffRecords ignores updated and undefined fields", () => {
+  expect(
+    diffRecords(
+      { id: "s1", updated: "a" },
+      { id: "s1", updated: "b", owner: undefined },
+    ),
+  ).toEqual([]);
+});
+
+test("diffRecords compares nested values", () => {
+  const changes = diffRecords(
+    { id: "s1", tags: ["a"] },
+    { id: "s1", tags: ["a", "b"] },
+  );
+  expect(changes).toEqual([{ field: "tags", from: ["a"], to: ["a", "b"] }]);
+});
+
+test("historyEntry picks the action from which side is missing", () => {
+  process.env.YP_ACTOR = "alice";
+  const record = { id: "s1", name: "checkout" };
+  expect(historyEntry(null, record)?.action).toBe("create");
+  expect(historyEntry(record, null)?.action).toBe("delete");
+  expect(
+    historyEntry(record, { ...record, repo: "x" }, "2026-01-01T00:00:00Z"),
+  ).toEqual({
+    at: "2026-01-01T00:00:00Z",
+    actor: "alice",
+    action: "update",
+    id: "s1",
+    name: "checkout",
+    changes: [{ field: "repo", to: "x" }],
+  });
+});
+
+test("historyEntry returns null when nothing changed", () => {
+  const record = { id: "s1", name: "checkout" };
+  expect(historyEntry(record, { ...record })).toBeNull();
+});
+
+test("currentActor prefers YP_ACTOR", () => {
+  process.env.YP_ACTOR = "deploy-bot";
+  expect(currentActor()).toBe("deploy-bot");
+  delete process.env.YP_ACTOR;
+  expect(currentActor().length).toBeGreaterThan(0);
+});
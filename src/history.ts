@@ -0,0 +1,77 @@
+import { spawnSync } from "node:child_process";
+import { userInfo } from "node:os";
+import type { FieldChange, HistoryAction, HistoryEntry } from "./types.js";
+
+type AnyRecord = { id: string } & Record<string, unknown>;
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(["updated"]);
+
+/**
+ * Field-level differences between two versions of a record.
+ * Either side may be null (create / delete). Undefined fields count as
+ * absent, as they are once written.
+ */
+export function diffRecords(
+  before: object | null,
+  after: object | null,
+): FieldChange[] {
+  const a = before ? JSON.parse(JSON.stringify(before)) : {};
+  const b = after ? JSON.parse(JSON.stringify(after)) : {};
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter((f) => !IGNORED_FIELDS.has(f))
+    .sort();
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (JSON.stringify(a[field]) === JSON.stringify(b[field])) continue;
+    const change: FieldChange = { field };
+    if (field in a) change.from = a[field];
+    if (field in b) change.to = b[field];
+    changes.push(change);
+  }
+  return changes;
+}
+
+let gitActor: string | null | undefined;
+
+/**
+ * Who is making changes: $YP_ACTOR, else the git user, else the OS user.
+ */
+export function currentActor(): string {
+  if (process.env.YP_ACTOR) return process.env.YP_ACTOR;
+  if (gitActor === undefined) {
+    const result = spawnSync("git", ["config", "user.email"], {
+      encoding: "utf-8",
+    });
+    gitActor = result.status === 0 ? result.stdout.trim() || null : null;
+  }
+  return gitActor ?? userInfo().username;
+}
+
+/**
+ * Build the history entry for a write or delete, or null when nothing
+ * changed.
+ */
+export function historyEntry(
+  before: AnyRecord | null,
+  after: AnyRecord | null,
+  at: string = new Date().toISOString(),
+): HistoryEntry | null {
+  const record = (after ?? before) as AnyRecord;
+  const changes = diffRecords(before, after);
+  if (changes.length === 0) return null;
+  const action: HistoryAction = !before
+    ? "create"
+    : !after
+      ? "delete"
+      : "update";
+  return {
+    at,
+    actor: currentActor(),
+    action,
+    id: record.id,
+    name: String(record.name ?? record.id),
+    changes,
+  };
+}
@@ -2,15 +2,27 @@
 
 import { createRequire } from "node:module";
 import { Command } from "commander";
+import { AmbiguousIdError } from "./catalog-index.js";
+import { apiCommand } from "./commands/api.js";
+import { apply } from "./commands/apply.js";
 import { deps } from "./commands/deps.js";
 import { discover } from "./commands/discover.js";
+import { domainCommand } from "./commands/domain.js";
 import { init } from "./commands/init.js";
 import { lint } from "./commands/lint.js";
+import { log } from "./commands/log.js";
+import { migrate } from "./commands/migrate.js";
 import { onboard } from "./commands/onboard.js";
 import { ownerCommand } from "./commands/owner.js";
+import { resourceCommand } from "./commands/resource.js";
 import { search } from "./commands/search.js";
 import { serviceCommand } from "./commands/service.js";
 import { systemCommand } from "./commands/system.js";
+import { requireTier } from "./commands/tier.js";
+import { restore, trashCommand } from "./commands/trash.js";
+import { KIND_LABELS } from "./types.js";
+import { EXIT_USER_ERROR } from "./utils/exit-codes.js";
+import { dim, error, hint, output } from "./utils/output.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
@@ -29,9 +41,14 @@ program
 program
   .command("init")
   .description("Create .yellowpages/ in current repo")
-  .action(async (_opts, cmd) => {
+  .option("--storage <backend>", "Storage backend: file (default) | sqlite")
+  .action(async (opts, cmd) => {
     const root = cmd.optsWithGlobals();
-    await init([], { json: root.json, quiet: root.quiet });
+    await init([], {
+      json: root.json,
+      quiet: root.quiet,
+      storage: opts.storage,
+    });
   });
 
 program
@@ -42,13 +59,33 @@ program
     await lint([], { json: root.json, quiet: root.quiet });
   });
 
+program
+  .command("log <id-or-name>")
+  .description("Show the change history of a service, system or owner")
+  .option(
+    "--kind <kind>",
+    "Only look at one kind (service, system, owner, resource, domain, api)",
+  )
+  .action(async (idOrName: string, opts, cmd) => {
+    const root = cmd.optsWithGlobals();
+    await log([idOrName], {
+      json: root.json,
+      quiet: root.quiet,
+      kind: opts.kind,
+    });
+  });
+
 program
   .command("search [query...]")
   .description("Search across all entities")
-  .option("--kind <kind>", "Filter by entity kind (service, system, owner)")
+  .option(
+    "--kind <kind>",
+    "Filter by entity kind (service, system, owner, resource, domain, api)",
+  )
   .option("--unowned", "Find services with no owner")
   .option("--unassigned", "Find services with no system")
   .option("--lifecycle <stage>", "Filter by lifecycle stage")
+  .option("--tier <tier>", "Filter by service tier")
   .action(async (query: string[], opts, cmd) => {
     const root = cmd.optsWithGlobals();
     await search(query, {
@@ -58,12 +95,13 @@ program
       noOwner: opts.unowned,
       noSystem: opts.unassigned,
       lifecycle: opts.lifecycle,
+      tier: requireTier(opts.tier, root),
     });
   });
 
 program
   .command("deps [service]")
-  .description("Show dependency graph for a service")
+  .description("Show dependency graph for a service, or who uses a resource")
   .option("--direction <dir>", "up (dependents) or down (dependencies)")
   .option("--depth <n>", "Max depth for transitive deps", parseInt)
   .option("--tree", "ASCII tree view")
@@ -101,6 +139,52 @@ program
     });
   });
 
+program
+  .command("apply")
+  .description("Make the catalog match a YAML/JSON manifest")
+  .requiredOption("-f, --file <path>", "Manifest file (- for stdin)")
+  .option("--prune", "Delete records the manifest does not mention")
+  .option("--dry-run", "Show the plan without making changes")
+  .action(async (opts, cmd) => {
+    const root = cmd.optsWithGlobals();
+    await apply([], {
+      json: root.json,
+      quiet: root.quiet,
+      file: opts.file,
+      prune: opts.prune,
+      dryRun: opts.dryRun,
+    });
+  });
+
+program
+  .command("migrate")
+  .description("Upgrade the catalog to this version's record schema")
+  .option("--dry-run", "Show what would change without writing")
+  .action(async (opts, cmd) => {
+    const root = cmd.optsWithGlobals();
+    await migrate([], {
+      json: root.json,
+      quiet: root.quiet,
+      dryRun: opts.dryRun,
+    });
+  });
+
+program
+  .command("restore <id-or-name>")
+  .description("Bring a removed record back from the trash")
+  .option(
+    "--kind <kind>",
+    "Only look at one kind (service, system, owner, resource, domain, api)",
+  )
+  .action(async (idOrName: string, opts, cmd) => {
+    const root = cmd.optsWithGlobals();
+    await restore([idOrName], {
+      json: root.json,
+      quiet: root.quiet,
+      kind: opts.kind,
+    });
+  });
+
 program
   .command("onboard")
   .description("Add agent instructions to CLAUDE.md")
@@ -111,9 +195,32 @@ program
 
 program.addCommand(serviceCommand);
 program.addCommand(systemCommand);
+program.addCommand(domainCommand);
 program.addCommand(ownerCommand);
+program.addCommand(resourceCommand);
+program.addCommand(apiCommand);
+program.addCommand(trashCommand);
 
 program.parseAsync(process.argv).catch((err) => {
+  if (err instanceof AmbiguousIdError) {
+    const kind = KIND_LABELS[err.collection];
+    output(program.opts(), {
+      json: () => ({
+        success: false,
+        error: "ambiguous",
+        input: err.input,
+        matches: err.candidates.map((c) => ({ kind, ...c })),
+      }),
+      human: () => {
+        error(`${err.input} matches ${err.candidates.length} ${kind}s:`);
+        for (const c of err.candidates) {
+          console.log(`    ${kind} ${c.id}  ${dim(c.name)}`);
+        }
+        hint("Pass more of the id to pick one");
+      },
+    });
+    process.exit(EXIT_USER_ERROR);
+  }
   if (err instanceof Error) {
     console.error("Fatal error:", err.message);
   }
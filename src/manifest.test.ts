@@ -0,0 +1,285 @@
+import { expect, test } from "bun:test";
+import { parseManifest, planApply } from "./manifest";
+import type { CatalogData } from "./relations";
+import type { Api, Owner, Service } from "./types";
+
+const NOW = "2026-02-01T00:00:00Z";
+
+const MANIFEST = `
+kind: Owner
+metadata:
+  name: platform
+spec:
+  type: team
+  slack: "#platform"
+---
+kind: System
+metadata:
+  name: payments
+spec:
+  owner: platform
+---
+kind: Service
+metadata:
+  name: checkout
+spec:
+  system: payments
+  owner: platform
+  dependsOn:
+    - payment-api
+---
+metadata:
+  name: payment-api
+`;
+
+function sequentialIds() {
+  let n = 0;
+  return () => `new${++n}`;
+}
+
+function emptyCatalog(): CatalogData {
+  return {
+    services: [],
+    systems: [],
+    owners: [],
+    resources: [],
+    domains: [],
+    apis: [],
+  };
+}
+
+function makeService(id: string, name: string, extra = {}): Service {
+  return {
+    id,
+    name,
+    dependsOn: [],
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...extra,
+  };
+}
+
+test("parseManifest reads every kind, defaulting to Service", () => {
+  const { manifest, errors } = parseManifest(MANIFEST, "catalog.yaml");
+  expect(errors).toEqual([]);
+  expect(manifest.owners.map((o) => o.name)).toEqual(["platform"]);
+  expect(manifest.systems.map((s) => s.name)).toEqual(["payments"]);
+  expect(manifest.services.map((s) => s.name)).toEqual([
+    "checkout",
+    "payment-api",
+  ]);
+});
+
+test("parseManifest reads a JSON array of documents", () => {
+  const json = JSON.stringify([
+    { kind: "Owner", metadata: { name: "platform" } },
+    { kind: "Service", metadata: { name: "checkout" } },
+  ]);
+  const { manifest, errors } = parseManifest(json, "catalog.json");
+  expect(errors).toEqual([]);
+  expect(manifest.owners).toHaveLength(1);
+  expect(manifest.services).toHaveLength(1);
+});
+
+test("parseManifest reports bad documents", () => {
+  const { errors } = parseManifest(
+    [
+      "kind: Widget\nmetadata:\n  name: w",
+      "kind: Service\nmetadata: {}",
+      "metadata:\n  name: a",
+      "metadata:\n  name: A",
+    ].join("\n---\n"),
+    "catalog.yaml",
+  );
+  expect(errors).toEqual([
+    'document 1 (w): unknown kind "Widget"',
+    "document 2: missing metadata.name",
+    'duplicate service "A"',
+  ]);
+});
+
+test("planApply creates everything in an empty catalog and links by name", () => {
+  const { manifest } = parseManifest(MANIFEST, "catalog.yaml");
+  const plan = planApply(manifest, emptyCatalog(), {
+    now: NOW,
+    newId: sequentialIds(),
+  });
+  expect(plan.errors).toEqual([]);
+  expect(plan.create).toHaveLength(4);
+  const checkout = plan.create.find((c) => c.record.name === "checkout")
+    ?.record as Service;
+  const api = plan.create.find((c) => c.record.name === "payment-api");
+  expect(checkout.owner).toBe("new1");
+  expect(checkout.system).toBe("new2");
+  expect(checkout.dependsOn).toEqual([{ service: api?.record.id }]);
+});
+
+test("planApply reports new records that miss required custom fields", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "Checkout"));
+  const { manifest } = parseManifest(
+    "metadata:\n  name: checkout\n  description: new\n---\nmetadata:\n  name: payments",
+    "catalog.yaml",
+  );
+  const plan = planApply(manifest, catalog, {
+    now: NOW,
+    customFields: [
+      { key: "cost-center", type: "number", requiredFor: ["service"] },
+    ],
+  });
+  // The existing service is not blocked by a value it never had
+  expect(plan.errors).toEqual([
+    'service "payments": Custom field "cost-center" is required for every service',
+  ]);
+});
+
+test("planApply updates changed fields and keeps ids and custom fields", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(
+    makeService("s1", "Checkout", {
+      description: "old",
+      custom: { tier: "1" },
+    }),
+  );
+  const { manifest } = parseManifest(
+    "metadata:\n  name: checkout\n  description: new",
+    "catalog.yaml",
+  );
+  const plan = planApply(manifest, catalog, { now: NOW });
+  expect(plan.create).toHaveLength(0);
+  expect(plan.update).toHaveLength(1);
+  expect(plan.update[0].fields).toEqual(["description", "name"]);
+  const record = plan.update[0].record as Service;
+  expect(record.id).toBe("s1");
+  expect(record.custom).toEqual({ tier: "1" });
+  expect(record.created).toBe("2026-01-01T00:00:00Z");
+});
+
+test("planApply counts matching records as unchanged", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "checkout"));
+  const { manifest } = parseManifest("metadata:\n  name: checkout", "x");
+  const plan = planApply(manifest, catalog, { now: NOW });
+  expect(plan.update).toHaveLength(0);
+  expect(plan.unchanged).toBe(1);
+});
+
+test("planApply resolves references to existing catalog records", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "payments"));
+  const { manifest } = parseManifest(
+    "metadata:\n  name: checkout\nspec:\n  dependsOn: [payments]",
+    "x",
+  );
+  const plan = planApply(manifest, catalog, { now: NOW });
+  expect((plan.create[0].record as Service).dependsOn).toEqual([
+    { service: "s1" },
+  ]);
+});
+
+test("planApply reports unknown references", () => {
+  const { manifest } = parseManifest(
+    "metadata:\n  name: checkout\nspec:\n  owner: ghost",
+    "x",
+  );
+  const plan = planApply(manifest, emptyCatalog());
+  expect(plan.errors).toEqual(['service "checkout": unknown owner "ghost"']);
+});
+
+test("planApply with prune deletes unmentioned records", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "checkout"));
+  catalog.services.push(makeService("s2", "legacy"));
+  const owner: Owner = {
+    id: "o1",
+    name: "platform",
+    type: "team",
+    created: NOW,
+    updated: NOW,
+  };
+  catalog.owners.push(owner);
+  const { manifest } = parseManifest("metadata:\n  name: checkout", "x");
+
+  const plan = planApply(manifest, catalog, { prune: true });
+  expect(plan.delete.map((c) => c.record.id).sort()).toEqual(["o1", "s2"]);
+  expect(planApply(manifest, catalog).delete).toHaveLength(0);
+});
+
+test("planApply with prune only deletes APIs of managed services", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "checkout"));
+  catalog.services.push(makeService("s2", "legacy"));
+  const api = (id: string, provider?: string): Api => ({
+    id,
+    name: id,
+    type: "rest",
+    provider,
+    created: NOW,
+    updated: NOW,
+  });
+  catalog.apis.push(api("a1", "s1"), api("a2", "s2"), api("stripe"));
+  catalog.apis.push(api("a3", "external-vendor"));
+  const { manifest } = parseManifest("metadata:\n  name: checkout", "x");
+
+  const plan = planApply(manifest, catalog, { prune: true });
+  expect(plan.delete.map((c) => c.record.id).sort()).toEqual([
+    "a1",
+    "a2",
+    "s2",
+  ]);
+});
+
+test("planApply with prune lists references to pruned owners it keeps", () => {
+  const catalog = emptyCatalog();
+  const owner = (id: string, name: string): Owner => ({
+    id,
+    name,
+    type: "team",
+    created: NOW,
+    updated: NOW,
+  });
+  catalog.owners.push(owner("o1", "platform"), owner("o2", "legacy-team"));
+  catalog.services.push(makeService("s1", "legacy", { owner: "o2" }));
+  const { manifest } = parseManifest(
+    "kind: Owner\nmetadata:\n  name: platform",
+    "x",
+  );
+  // The service that points at legacy-team is pruned along with it
+  expect(planApply(manifest, catalog, { prune: true }).referenced).toEqual([]);
+
+  catalog.owners[0].parent = "o2";
+  const plan = planApply(manifest, catalog, { prune: true });
+  expect(
+    plan.referenced.map((r) => [r.change.record.id, r.references]),
+  ).toEqual([
+    ["o2", [{ kind: "owner", id: "o1", name: "platform", field: "parent" }]],
+  ]);
+});
+
+test("planApply with prune only resolves references inside the manifest", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(makeService("s1", "payments"));
+  const { manifest } = parseManifest(
+    "metadata:\n  name: checkout\nspec:\n  dependsOn: [payments]",
+    "x",
+  );
+  const plan = planApply(manifest, catalog, { prune: true });
+  expect(plan.errors).toHaveLength(1);
+});
+
+test("planApply matches renamed records by alias and keeps aliases", () => {
+  const catalog = emptyCatalog();
+  catalog.services.push(
+    makeService("s1", "payments-gateway", { aliases: ["payment-api"] }),
+  );
+  const { manifest } = parseManifest(
+    "metadata:\n  name: payments-gateway\n---\nmetadata:\n  name: checkout\nspec:\n  dependsOn: [payment-api]",
+    "x",
+  );
+  const plan = planApply(manifest, catalog, { now: NOW, prune: true });
+  expect(plan.unchanged).toBe(1);
+  expect(plan.delete).toHaveLength(0);
+  expect((plan.create[0].record as Service).dependsOn).toEqual([
+    { service: "s1" },
+  ]);
+});
@@ -0,0 +1,458 @@
+import yaml from "js-yaml";
+import { checkCustomFields } from "./custom-fields.js";
+import {
+  type CatalogFileSpec,
+  type DiscoveredService,
+  serviceFromSpec,
+} from "./discover.js";
+import { diffRecords } from "./history.js";
+import {
+  type CatalogData,
+  findReferences,
+  type Reference,
+} from "./relations.js";
+import { newId } from "./store.js";
+import type {
+  Api,
+  Collection,
+  CustomFieldDef,
+  Owner,
+  OwnerType,
+  Service,
+  System,
+} from "./types.js";
+import { KIND_LABELS } from "./types.js";
+
+// --- Manifest parsing ---
+
+export interface ManifestOwner {
+  name: string;
+  aliases?: string[];
+  type?: OwnerType;
+  email?: string;
+  slack?: string;
+}
+
+export interface ManifestSystem {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  owner?: string; // name or id
+}
+
+/**
+ * The desired state of a catalog, with references by name.
+ */
+export interface Manifest {
+  owners: ManifestOwner[];
+  systems: ManifestSystem[];
+  services: DiscoveredService[];
+}
+
+/**
+ * Parse a multi-document YAML (or JSON) manifest. Each document uses the
+ * catalog-info.yaml shape, with `kind: Owner | System | Service`
+ * (default Service). A JSON array is read as a list of documents.
+ */
+export function parseManifest(
+  content: string,
+  sourcePath: string,
+): { manifest: Manifest; errors: string[] } {
+  const manifest: Manifest = { owners: [], systems: [], services: [] };
+  const errors: string[] = [];
+
+  let docs: unknown[];
+  try {
+    docs = yaml.loadAll(content).flatMap((d) => (Array.isArray(d) ? d : [d]));
+  } catch (err) {
+    return { manifest, errors: [(err as Error).message] };
+  }
+
+  docs.forEach((raw, i) => {
+    if (raw === null || raw === undefined) return; // empty document
+    const where = `document ${i + 1}`;
+    if (typeof raw !== "object") {
+      errors.push(`${where}: not a mapping`);
+      return;
+    }
+    const doc = raw as CatalogFileSpec;
+    const name = doc.metadata?.name;
+    if (!name) {
+      errors.push(`${where}: missing metadata.name`);
+      return;
+    }
+
+    switch (doc.kind ?? "Service") {
+      case "Owner":
+        manifest.owners.push({
+          name,
+          aliases: doc.metadata?.aliases,
+          type: doc.spec?.type as OwnerType | undefined,
+          email: doc.spec?.email,
+          slack: doc.spec?.slack,
+        });
+        break;
+      case "System":
+        manifest.systems.push({
+          name,
+          aliases: doc.metadata?.aliases,
+          description: doc.metadata?.description,
+          owner: doc.spec?.owner,
+        });
+        break;
+      case "Service": {
+        const service = serviceFromSpec(doc, sourcePath);
+        if (service) manifest.services.push(service);
+        break;
+      }
+      default:
+        errors.push(`${where} (${name}): unknown kind "${doc.kind}"`);
+    }
+  });
+
+  for (const [kind, entries] of [
+    ["owner", manifest.owners],
+    ["system", manifest.systems],
+    ["service", manifest.services],
+  ] as const) {
+    const seen = new Set<string>();
+    for (const e of entries) {
+      const key = e.name.toLowerCase();
+      if (seen.has(key)) errors.push(`duplicate ${kind} "${e.name}"`);
+      seen.add(key);
+    }
+  }
+
+  return { manifest, errors };
+}
+
+// --- Planning ---
+
+export type CatalogRecord = Service | System | Owner | Api;
+
+// Resources and domains are not described by manifests; apply leaves them
+// alone. APIs are declared by the service that provides them.
+type ManifestCollection = Exclude<Collection, "resources" | "domains" | "apis">;
+
+// Fields manifests do not describe, carried over from the catalog record
+const UNMANAGED_FIELDS: Record<ManifestCollection, string[]> = {
+  owners: ["custom", "parent", "members", "oncall", "links"],
+  systems: ["custom", "domain", "links"],
+  services: ["custom", "tier", "uses", "environments", "links"],
+};
+
+// Fields of APIs that service declarations do not describe
+const UNMANAGED_API_FIELDS = ["aliases", "owner", "lifecycle", "custom"];
+
+export interface PlannedChange {
+  collection: ManifestCollection | "apis";
+  record: CatalogRecord;
+  fields?: string[]; // updates only: which fields change
+}
+
+export interface ApplyPlan {
+  create: PlannedChange[];
+  update: PlannedChange[];
+  delete: PlannedChange[];
+  unchanged: number;
+  errors: string[];
+  /** Pruned owners and systems that records the plan keeps still reference */
+  referenced: { change: PlannedChange; references: Reference[] }[];
+}
+
+// References to the owners and systems a plan deletes, as rm would find
+// them once the plan's writes are made. Resources, domains and the fields
+// manifests do not describe can point at them; records the plan deletes
+// as well do not count.
+function prunedReferences(
+  catalog: CatalogData,
+  plan: ApplyPlan,
+): ApplyPlan["referenced"] {
+  const written = [...plan.create, ...plan.update];
+  const writtenIds = new Set(written.map((c) => c.record.id));
+  const withWrites = <T extends CatalogRecord>(
+    collection: PlannedChange["collection"],
+    records: T[],
+  ): T[] => [
+    ...records.filter((r) => !writtenIds.has(r.id)),
+    ...written
+      .filter((c) => c.collection === collection)
+      .map((c) => c.record as T),
+  ];
+  const after: CatalogData = {
+    ...catalog,
+    owners: withWrites("owners", catalog.owners),
+    systems: withWrites("systems", catalog.systems),
+    services: withWrites("services", catalog.services),
+    apis: withWrites("apis", catalog.apis),
+  };
+  const deleted = new Set(
+    plan.delete.map((c) => `${KIND_LABELS[c.collection]}/${c.record.id}`),
+  );
+  return plan.delete
+    .filter((c) => c.collection === "owners" || c.collection === "systems")
+    .map((change) => ({
+      change,
+      references: findReferences(
+        change.collection,
+        change.record.id,
+        after,
+      ).filter((r) => !deleted.has(`${r.kind}/${r.id}`)),
+    }))
+    .filter((r) => r.references.length > 0);
+}
+
+export interface PlanOptions {
+  /** Delete catalog records the manifest does not mention */
+  prune?: boolean;
+  /** Definitions from config.json that new records must satisfy */
+  customFields?: CustomFieldDef[];
+  now?: string;
+  newId?: () => string;
+}
+
+/**
+ * Compute the creates, updates and deletes that make the catalog match
+ * a manifest. Records match by name (case-insensitive). References may
+ * name records in the manifest or, without prune, already in the catalog.
+ * Pure — nothing is written.
+ */
+export function planApply(
+  manifest: Manifest,
+  catalog: CatalogData,
+  options: PlanOptions = {},
+): ApplyPlan {
+  const now = options.now ?? new Date().toISOString();
+  const generateId = options.newId ?? newId;
+  const plan: ApplyPlan = {
+    create: [],
+    update: [],
+    delete: [],
+    unchanged: 0,
+    errors: [],
+    referenced: [],
+  };
+
+  const entries: Record<ManifestCollection, { name: string }[]> = {
+    owners: manifest.owners,
+    systems: manifest.systems,
+    services: manifest.services,
+  };
+
+  // Existing record per manifest entry, and an id for every manifest name
+  const existing = new Map<string, CatalogRecord>();
+  const ids: Record<ManifestCollection, Map<string, string>> = {
+    owners: new Map(),
+    systems: new Map(),
+    services: new Map(),
+  };
+  for (const collection of Object.keys(entries) as ManifestCollection[]) {
+    const records = catalog[collection] as CatalogRecord[];
+    if (!options.prune) {
+      for (const r of records) {
+        ids[collection].set(r.id, r.id);
+        ids[collection].set(r.name.toLowerCase(), r.id);
+      }
+      for (const r of records) {
+        for (const alias of r.aliases ?? []) {
+          const key = alias.toLowerCase();
+          if (!ids[collection].has(key)) ids[collection].set(key, r.id);
+        }
+      }
+    }
+    for (const e of entries[collection]) {
+      const key = e.name.toLowerCase();
+      const match =
+        records.find((r) => r.name.toLowerCase() === key) ??
+        records.find((r) => r.aliases?.some((a) => a.toLowerCase() === key));
+      if (match) existing.set(`${collection}/${key}`, match);
+      ids[collection].set(key, match?.id ?? generateId());
+    }
+    // Records the manifest keeps stay reachable by their aliases
+    for (const match of existing.values()) {
+      if (!records.includes(match)) continue;
+      for (const alias of match.aliases ?? []) {
+        const key = alias.toLowerCase();
+        if (!ids[collection].has(key)) ids[collection].set(key, match.id);
+      }
+    }
+  }
+
+  const resolve = (
+    collection: ManifestCollection,
+    ref: string | undefined,
+    from: string,
+  ): string | undefined => {
+    if (!ref) return undefined;
+    const id =
+      ids[collection].get(ref) ?? ids[collection].get(ref.toLowerCase());
+    if (!id) {
+      plan.errors.push(
+        `${from}: unknown ${collection.slice(0, -1)} "${ref}"${options.prune ? " (with --prune, references must be in the manifest)" : ""}`,
+      );
+    }
+    return id;
+  };
+
+  const stage = (
+    collection: ManifestCollection,
+    fields: { name: string } & Record<string, unknown>,
+  ) => {
+    const key = fields.name.toLowerCase();
+    const before = existing.get(`${collection}/${key}`);
+    const aliases = (
+      (fields.aliases as string[] | undefined) ?? before?.aliases
+    )?.filter((a) => a.toLowerCase() !== key);
+    const kept = UNMANAGED_FIELDS[collection].map((field) => [
+      field,
+      (before as Record<string, unknown> | undefined)?.[field],
+    ]);
+    const record = {
+      id: ids[collection].get(key) as string,
+      ...fields,
+      aliases: aliases?.length ? aliases : undefined,
+      ...Object.fromEntries(kept),
+      created: before?.created ?? now,
+      updated: now,
+    } as CatalogRecord;
+    if (!before) {
+      plan.create.push({ collection, record });
+      return;
+    }
+    const changed = diffRecords(before, record).map((c) => c.field);
+    if (changed.length === 0) plan.unchanged++;
+    else plan.update.push({ collection, record, fields: changed });
+  };
+
+  for (const o of manifest.owners) {
+    stage("owners", {
+      name: o.name,
+      aliases: o.aliases,
+      type: o.type ?? "team",
+      email: o.email,
+      slack: o.slack,
+    });
+  }
+
+  for (const s of manifest.systems) {
+    stage("systems", {
+      name: s.name,
+      aliases: s.aliases,
+      description: s.description,
+      owner: resolve("owners", s.owner, `system "${s.name}"`),
+    });
+  }
+
+  // APIs match by name among those of their provider. Dependencies name
+  // an API of their target, kept as written when it has none by that name.
+  const apiIds = new Map<string, string>(); // provider id/lowercase name → id
+  const existingApis = new Map<string, Api>();
+  for (const a of catalog.apis) {
+    if (!a.provider) continue;
+    const key = `${a.provider}/${a.name.toLowerCase()}`;
+    if (!existingApis.has(key)) existingApis.set(key, a);
+    apiIds.set(key, a.id);
+  }
+  for (const s of manifest.services) {
+    const providerId = ids.services.get(s.name.toLowerCase()) as string;
+    for (const api of s.apis ?? []) {
+      const key = `${providerId}/${api.name.toLowerCase()}`;
+      apiIds.set(key, existingApis.get(key)?.id ?? generateId());
+    }
+  }
+  const declaredApis = new Set<string>();
+  const resolveApi = (serviceId: string | undefined, ref?: string) =>
+    ref && (apiIds.get(`${serviceId}/${ref.toLowerCase()}`) ?? ref);
+
+  for (const s of manifest.services) {
+    const from = `service "${s.name}"`;
+    stage("services", {
+      name: s.name,
+      aliases: s.aliases,
+      description: s.description,
+      system: resolve("systems", s.system, from),
+      owner: resolve("owners", s.owner, from),
+      lifecycle: s.lifecycle,
+      repo: s.repo,
+      tags: s.tags,
+      dependsOn: (s.dependsOn ?? []).map((d) => {
+        const service = resolve("services", d.service, from) ?? d.service;
+        const api = resolveApi(service, d.api);
+        return api ? { ...d, service, api } : { ...d, service };
+      }),
+    });
+
+    const providerId = ids.services.get(s.name.toLowerCase()) as string;
+    for (const api of s.apis ?? []) {
+      const key = `${providerId}/${api.name.toLowerCase()}`;
+      const before = existingApis.get(key);
+      const record = {
+        id: apiIds.get(key) as string,
+        name: api.name,
+        type: api.type,
+        provider: providerId,
+        spec: api.spec,
+        description: api.description,
+        ...Object.fromEntries(
+          UNMANAGED_API_FIELDS.map((field) => [
+            field,
+            (before as Record<string, unknown> | undefined)?.[field],
+          ]),
+        ),
+        created: before?.created ?? now,
+        updated: now,
+      } as Api;
+      declaredApis.add(record.id);
+      if (!before) {
+        plan.create.push({ collection: "apis", record });
+        continue;
+      }
+      const changed = diffRecords(before, record).map((c) => c.field);
+      if (changed.length === 0) plan.unchanged++;
+      else plan.update.push({ collection: "apis", record, fields: changed });
+    }
+  }
+
+  // Manifests do not set custom values and updates keep the ones a record
+  // has, so only new records can break the definitions (e.g. a required
+  // field), as with add
+  for (const { collection, record } of plan.create) {
+    const kind = KIND_LABELS[collection];
+    for (const issue of checkCustomFields(
+      record.custom,
+      kind,
+      options.customFields ?? [],
+    )) {
+      plan.errors.push(`${kind} "${record.name}": ${issue.message}`);
+    }
+  }
+
+  if (options.prune) {
+    for (const collection of Object.keys(entries) as ManifestCollection[]) {
+      const wanted = new Set(
+        [...existing.entries()]
+          .filter(([key]) => key.startsWith(`${collection}/`))
+          .map(([, r]) => r.id),
+      );
+      for (const r of catalog[collection] as CatalogRecord[]) {
+        if (!wanted.has(r.id)) {
+          plan.delete.push({ collection, record: r });
+        }
+      }
+    }
+    // Only APIs of services the manifest manages go with it; those with
+    // no provider or a third-party one are not described by manifests
+    const managed = new Set([
+      ...catalog.services.map((s) => s.id),
+      ...ids.services.values(),
+    ]);
+    for (const a of catalog.apis) {
+      if (a.provider && managed.has(a.provider) && !declaredApis.has(a.id)) {
+        plan.delete.push({ collection: "apis", record: a });
+      }
+    }
+    plan.referenced = prunedReferences(catalog, plan);
+  }
+
+  return plan;
+}
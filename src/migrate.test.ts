@@ -0,0 +1,161 @@
+import { expect, test } from "bun:test";
+import { MIGRATIONS, planMigration, type RawCatalog } from "./migrate";
+import { CATALOG_VERSION } from "./types";
+
+function makeCatalog(services: RawCatalog["services"]): RawCatalog {
+  return {
+    services,
+    systems: [],
+    owners: [],
+    resources: [],
+    domains: [],
+    apis: [],
+  };
+}
+
+test("migrations end at the current catalog version", () => {
+  const versions = MIGRATIONS.map((m) => m.version);
+  expect(versions).toEqual([...versions].sort((a, b) => a - b));
+  expect(versions.at(-1)).toBe(CATALOG_VERSION);
+});
+
+test("no-op when already at the target version", () => {
+  const plan = planMigration(makeCatalog([]), CATALOG_VERSION);
+  expect(plan.migrations).toHaveLength(0);
+  expect(plan.changes).toHaveLength(0);
+});
+
+test("v2 resolves dependency names to ids", () => {
+  const catalog = makeCatalog([
+    { id: "s1", name: "Checkout", dependsOn: [{ service: "payments" }] },
+    { id: "s2", name: "payments" },
+  ]);
+  const plan = planMigration(catalog, 1, 2);
+  expect(plan.changes).toHaveLength(1);
+  expect(plan.changes[0].record.dependsOn).toEqual([{ service: "s2" }]);
+});
+
+test("v2 leaves ids and unknown names alone", () => {
+  const catalog = makeCatalog([
+    {
+      id: "s1",
+      name: "checkout",
+      dependsOn: [{ service: "s2", api: "v1" }, { service: "ghost" }],
+    },
+    { id: "s2", name: "payments" },
+  ]);
+  expect(planMigration(catalog, 1, 2).changes).toHaveLength(0);
+});
+
+test("planning does not mutate the input catalog", () => {
+  const catalog = makeCatalog([
+    { id: "s1", name: "checkout", dependsOn: [{ service: "payments" }] },
+    { id: "s2", name: "payments" },
+  ]);
+  planMigration(catalog, 1, 2);
+  expect(catalog.services[0].dependsOn).toEqual([{ service: "payments" }]);
+});
+
+test("migrating twice is idempotent", () => {
+  const catalog = makeCatalog([
+    { id: "s1", name: "checkout", dependsOn: [{ service: "payments" }] },
+    { id: "s2", name: "payments" },
+  ]);
+  const first = planMigration(catalog, 1, 2);
+  const migrated = makeCatalog(
+    catalog.services.map(
+      (s) => first.changes.find((c) => c.record.id === s.id)?.record ?? s,
+    ),
+  );
+  expect(planMigration(migrated, 1, 2).changes).toHaveLength(0);
+});
+
+test("v3 moves embedded APIs to records and points dependencies at them", () => {
+  const catalog = makeCatalog([
+    {
+      id: "s1",
+      name: "payments",
+      updated: "2026-01-02T00:00:00Z",
+      apis: [{ name: "Charges", type: "rest", spec: "openapi.yaml" }],
+    },
+    {
+      id: "s2",
+      name: "checkout",
+      dependsOn: [
+        { service: "s1", api: "charges" },
+        { service: "s1", api: "refunds" },
+      ],
+    },
+  ]);
+  const plan = planMigration(catalog, 2, 3);
+  const api = plan.changes.find((c) => c.collection === "apis")?.record;
+  expect(api).toEqual({
+    id: expect.any(String),
+    name: "Charges",
+    type: "rest",
+    spec: "openapi.yaml",
+    provider: "s1",
+    created: "2026-01-02T00:00:00Z",
+    updated: "2026-01-02T00:00:00Z",
+  });
+  const services = plan.changes.filter((c) => c.collection === "services");
+  expect(services.map((c) => c.record.id)).toEqual(["s1", "s2"]);
+  expect(services[0].record.apis).toBeUndefined();
+  // Names without a matching API are left for lint to report
+  expect(services[1].record.dependsOn).toEqual([
+    { service: "s1", api: api?.id },
+    { service: "s1", api: "refunds" },
+  ]);
+
+  expect(planMigration(catalog, 2, 3).changes).toEqual(plan.changes);
+});
+
+test("v3 keeps APIs whose names differ only in case", () => {
+  const catalog = makeCatalog([
+    {
+      id: "s1",
+      name: "payments",
+      apis: [
+        { name: "Charges", type: "rest" },
+        { name: "charges", type: "grpc" },
+      ],
+    },
+    {
+      id: "s2",
+      name: "checkout",
+      dependsOn: [{ service: "s1", api: "charges" }],
+    },
+  ]);
+  const plan = planMigration(catalog, 2, 3);
+  const apis = plan.changes
+    .filter((c) => c.collection === "apis")
+    .map((c) => c.record);
+  expect(apis.map((a) => [a.name, a.type])).toEqual([
+    ["Charges", "rest"],
+    ["charges", "grpc"],
+  ]);
+  expect(apis[0].id).not.toBe(apis[1].id);
+  const checkout = plan.changes.find((c) => c.record.id === "s2")?.record;
+  expect(checkout?.dependsOn).toEqual([{ service: "s1", api: apis[1].id }]);
+});
+
+test("v3 is idempotent", () => {
+  const catalog = makeCatalog([
+    { id: "s1", name: "payments", apis: [{ name: "Charges", type: "rest" }] },
+    {
+      id: "s2",
+      name: "checkout",
+      dependsOn: [{ service: "s1", api: "charges" }],
+    },
+  ]);
+  const plan = planMigration(catalog, 2, 3);
+  const migrated = makeCatalog(
+    catalog.services.map(
+      (s) => plan.changes.find((c) => c.record.id === s.id)?.record ?? s,
+    ),
+  );
+  migrated.apis = plan.changes
+    .filter((c) => c.collection === "apis")
+    .map((c) => c.record);
+  expect(planMigration(migrated, 2, 3).changes).toHaveLength(0);
+});
@@ -0,0 +1,182 @@
+import { createHash } from "node:crypto";
+import type { Collection } from "./types.js";
+import { CATALOG_VERSION, COLLECTIONS } from "./types.js";
+
+// Records as they are on disk, which may predate the shapes in types.ts.
+export type RawRecord = { id: string } & Record<string, unknown>;
+export type RawCatalog = Record<Collection, RawRecord[]>;
+
+export interface Migration {
+  version: number; // catalog version this migration produces
+  description: string;
+  /**
+   * Transform one record. Must be idempotent: running it on an already
+   * migrated record returns that record unchanged.
+   */
+  migrate(
+    collection: Collection,
+    record: RawRecord,
+    catalog: RawCatalog,
+  ): RawRecord;
+  /**
+   * Records to add before any record is migrated, so `migrate` sees
+   * them in the catalog. Must return nothing once the catalog is
+   * migrated.
+   */
+  create?(catalog: RawCatalog): MigrationChange[];
+}
+
+export interface MigrationChange {
+  collection: Collection;
+  record: RawRecord;
+}
+
+export interface MigrationPlan {
+  from: number;
+  to: number;
+  migrations: Migration[];
+  changes: MigrationChange[];
+  catalog: RawCatalog; // the whole catalog once migrated
+}
+
+/**
+ * Every schema change, in order. Add new entries at the end and bump
+ * CATALOG_VERSION to match.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Resolve dependency references stored as names to service ids",
+    migrate(collection, record, catalog) {
+      if (collection !== "services" || !Array.isArray(record.dependsOn)) {
+        return record;
+      }
+      const ids = new Set(catalog.services.map((s) => s.id));
+      const byName = new Map(
+        catalog.services.map((s) => [String(s.name).toLowerCase(), s.id]),
+      );
+      const dependsOn = (record.dependsOn as { service: string }[]).map((d) => {
+        if (ids.has(d.service)) return d;
+        const id = byName.get(d.service.toLowerCase());
+        return id ? { ...d, service: id } : d;
+      });
+      return { ...record, dependsOn };
+    },
+  },
+  {
+    version: 3,
+    description:
+      "Move APIs embedded in services to the apis collection and point dependencies at API ids",
+    create(catalog) {
+      return catalog.services.flatMap((service) => {
+        const seen = new Map<string, number>(); // lowercased name → count
+        return embeddedApis(service).map((api) => {
+          const key = String(api.name).toLowerCase();
+          const n = seen.get(key) ?? 0;
+          seen.set(key, n + 1);
+          return {
+            collection: "apis" as const,
+            record: {
+              id: embeddedApiId(service.id, api.name, n),
+              ...api,
+              provider: service.id,
+              created: service.updated ?? service.created,
+              updated: service.updated ?? service.created,
+            },
+          };
+        });
+      });
+    },
+    migrate(collection, record, catalog) {
+      if (collection !== "services") return record;
+      const { apis: _, ...rest } = record;
+      if (!Array.isArray(record.dependsOn)) return rest;
+      const ids = new Set(catalog.apis.map((a) => a.id));
+      const dependsOn = (
+        record.dependsOn as { service: string; api?: string }[]
+      ).map((d) => {
+        if (d.api === undefined || ids.has(d.api)) return d;
+        // Names that differ only in case are told apart by the exact one
+        const provided = catalog.apis.filter((a) => a.provider === d.service);
+        const name = d.api.toLowerCase();
+        const api =
+          provided.find((a) => a.name === d.api) ??
+          provided.find((a) => String(a.name).toLowerCase() === name);
+        return api ? { ...d, api: api.id } : d;
+      });
+      return { ...rest, dependsOn };
+    },
+  },
+];
+
+type EmbeddedApi = { name: string } & Record<string, unknown>;
+
+function embeddedApis(service: RawRecord): EmbeddedApi[] {
+  return Array.isArray(service.apis) ? (service.apis as EmbeddedApi[]) : [];
+}
+
+// The same service and API name always get the same id, so a plan
+// previewed with --dry-run matches the one applied. `n` counts the
+// earlier APIs of the service with the same name in any case, which get
+// ids of their own instead of being dropped as duplicates.
+function embeddedApiId(serviceId: string, apiName: string, n: number): string {
+  const key = `${serviceId}/${apiName.toLowerCase()}`;
+  return createHash("sha256")
+    .update(n === 0 ? key : `${key}#${n}`)
+    .digest("base64url")
+    .slice(0, 8);
+}
+
+/**
+ * Compute the records that change when migrating a catalog from one
+ * version to another. Pure — nothing is written.
+ * Each migration sees the output of the ones before it.
+ */
+export function planMigration(
+  catalog: RawCatalog,
+  from: number,
+  to: number = CATALOG_VERSION,
+): MigrationPlan {
+  const migrations = MIGRATIONS.filter(
+    (m) => m.version > from && m.version <= to,
+  ).sort((a, b) => a.version - b.version);
+
+  let current = catalog;
+  const changes = new Map<string, MigrationChange>();
+
+  for (const migration of migrations) {
+    const created = migration.create?.(current) ?? [];
+    if (created.length > 0) {
+      current = { ...current };
+      for (const change of created) {
+        const existing = current[change.collection] ?? [];
+        if (existing.some((r) => r.id === change.record.id)) continue;
+        current[change.collection] = [...existing, change.record];
+        changes.set(`${change.collection}/${change.record.id}`, change);
+      }
+    }
+
+    const next = {} as RawCatalog;
+    for (const collection of COLLECTIONS) {
+      next[collection] = (current[collection] ?? []).map((record) => {
+        const migrated = migration.migrate(collection, record, current);
+        if (JSON.stringify(migrated) !== JSON.stringify(record)) {
+          changes.set(`${collection}/${record.id}`, {
+            collection,
+            record: migrated,
+          });
+        }
+        return migrated;
+      });
+    }
+    current = next;
+  }
+
+  return {
+    from,
+    to,
+    migrations,
+    changes: [...changes.values()],
+    catalog: current,
+  };
+}
@@ -0,0 +1,39 @@
+import { expect, test } from "bun:test";
+import { isValidTimeZone, isWithinHours, parseHours } from "./oncall";
+
+test("parses working hours", () => {
+  expect(parseHours("09:00-17:30")).toEqual({ start: 540, end: 1050 });
+  expect(parseHours("22:00-06:00")).toEqual({ start: 1320, end: 360 });
+});
+
+test("rejects malformed hours", () => {
+  expect(parseHours("9-5")).toBeNull();
+  expect(parseHours("09:00")).toBeNull();
+  expect(parseHours("25:00-26:00")).toBeNull();
+});
+
+test("validates time zones", () => {
+  expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+  expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+});
+
+test("checks hours in the on-call time zone", () => {
+  // 08:30 UTC is 10:30 in Berlin (summer time)
+  const now = new Date("2026-07-01T08:30:00Z");
+  const hours = { hours: "09:00-17:00" };
+  expect(isWithinHours(hours, now)).toBe(false);
+  expect(isWithinHours({ ...hours, timezone: "Europe/Berlin" }, now)).toBe(
+    true,
+  );
+});
+
+test("overnight hours wrap past midnight", () => {
+  const night = { hours: "22:00-06:00" };
+  expect(isWithinHours(night, new Date("2026-07-01T23:00:00Z"))).toBe(true);
+  expect(isWithinHours(night, new Date("2026-07-01T05:59:00Z"))).toBe(true);
+  expect(isWithinHours(night, new Date("2026-07-01T12:00:00Z"))).toBe(false);
+});
+
+test("no hours means unknown", () => {
+  expect(isWithinHours({ pager: "PD123" })).toBeNull();
+});
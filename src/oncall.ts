@@ -0,0 +1,54 @@
+import type { OnCall } from "./types.js";
+
+/**
+ * Parse working hours such as "09:00-17:00" into minutes after midnight.
+ * An end before the start wraps past midnight ("22:00-06:00").
+ * Returns null if the input is not a range of HH:MM times.
+ */
+export function parseHours(
+  input: string,
+): { start: number; end: number } | null {
+  const match = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/.exec(input.trim());
+  if (!match) return null;
+  const [h1, m1, h2, m2] = match.slice(1).map(Number);
+  if (h1 > 23 || h2 > 24 || m1 > 59 || m2 > 59) return null;
+  return { start: h1 * 60 + m1, end: h2 * 60 + m2 };
+}
+
+/**
+ * Whether a time zone name is one the runtime knows (e.g. Europe/Berlin).
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether `now` falls inside the on-call working hours, read in their
+ * time zone (UTC when none is set). Null when no hours are recorded.
+ */
+export function isWithinHours(
+  oncall: OnCall,
+  now: Date = new Date(),
+): boolean | null {
+  const hours = oncall.hours ? parseHours(oncall.hours) : null;
+  if (!hours) return null;
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: oncall.timezone ?? "UTC",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const minutes = get("hour") * 60 + get("minute");
+
+  return hours.start <= hours.end
+    ? minutes >= hours.start && minutes < hours.end
+    : minutes >= hours.start || minutes < hours.end;
+}
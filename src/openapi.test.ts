@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  ApiSpecError,
+  isRemoteSpec,
+  loadApiSpec,
+  loadApiSpecs,
+  parseApiSpec,
+} from "./openapi.js";
+import type { Api } from "./types.js";
+
+const TEST_DIR = join(import.meta.dir, "..", ".test-openapi-tmp");
+const ROOT = join(TEST_DIR, ".yellowpages");
+
+function makeApi(overrides: Partial<Api> = {}): Api {
+  return {
+    id: "a1",
+    name: "Payments",
+    type: "rest",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const OPENAPI_YAML = `
+openapi: 3.1.0
+info:
+  title: Payments API
+  version: 2.4.0
+servers:
+  - url: https://api.example.com/v1
+  - url: https://sandbox.example.com/v1
+paths:
+  /refunds:
+    parameters:
+      - name: limit
+        in: query
+    get:
+      operationId: listRefunds
+    post:
+      operationId: createRefund
+      summary: Refund a charge
+  /refunds/{id}:
+    delete: {}
+`;
+
+function reason(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ApiSpecError) return err.reason;
+    throw err;
+  }
+  return undefined;
+}
+
+describe("parseApiSpec", () => {
+  test("reads title, version, servers and operations of OpenAPI 3", () => {
+    expect(parseApiSpec(OPENAPI_YAML)).toEqual({
+      format: "openapi",
+      formatVersion: "3.1.0",
+      title: "Payments API",
+      version: "2.4.0",
+      servers: ["https://api.example.com/v1", "https://sandbox.example.com/v1"],
+      operations: [
+        { method: "GET", path: "/refunds", operationId: "listRefunds" },
+        {
+          method: "POST",
+          path: "/refunds",
+          operationId: "createRefund",
+          summary: "Refund a charge",
+        },
+        { method: "DELETE", path: "/refunds/{id}" },
+      ],
+    });
+  });
+
+  test("builds Swagger 2 servers from host, basePath and schemes", () => {
+    const spec = parseApiSpec(
+      JSON.stringify({
+        swagger: "2.0",
+        info: { title: "Legacy", version: "1" },
+        host: "legacy.example.com",
+        basePath: "/api",
+        schemes: ["https", "http"],
+        paths: { "/users": { get: { summary: "List users" } } },
+      }),
+    );
+    expect(spec.format).toBe("swagger");
+    expect(spec.servers).toEqual([
+      "https://legacy.example.com/api",
+      "http://legacy.example.com/api",
+    ]);
+    expect(spec.operations).toEqual([
+      { method: "GET", path: "/users", summary: "List users" },
+    ]);
+  });
+
+  test("accepts an unquoted version in YAML", () => {
+    expect(parseApiSpec("swagger: 2.0\npaths: {}").formatVersion).toBe("2");
+  });
+
+  test("rejects other documents", () => {
+    expect(reason(() => parseApiSpec("openapi: [unclosed"))).toBe("invalid");
+    expect(reason(() => parseApiSpec("just text"))).toBe("invalid");
+    expect(reason(() => parseApiSpec("swagger: '1.2'"))).toBe("unsupported");
+    expect(reason(() => parseApiSpec("name: not a spec"))).toBe("unsupported");
+  });
+});
+
+describe("loadApiSpec", () => {
+  beforeEach(() => {
+    mkdirSync(ROOT, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("resolves the spec next to .yellowpages", () => {
+    mkdirSync(join(TEST_DIR, "docs"));
+    writeFileSync(join(TEST_DIR, "docs", "openapi.yaml"), OPENAPI_YAML);
+    const spec = loadApiSpec(ROOT, makeApi({ spec: "./docs/openapi.yaml" }));
+    expect(spec.title).toBe("Payments API");
+  });
+
+  test("does not open URLs or missing files", () => {
+    expect(isRemoteSpec("https://example.com/openapi.json")).toBe(true);
+    expect(isRemoteSpec("specs/openapi.json")).toBe(false);
+    expect(
+      reason(() =>
+        loadApiSpec(ROOT, makeApi({ spec: "https://example.com/a.json" })),
+      ),
+    ).toBe("remote");
+    expect(
+      reason(() => loadApiSpec(ROOT, makeApi({ spec: "missing.yaml" }))),
+    ).toBe("not_found");
+    expect(reason(() => loadApiSpec(ROOT, makeApi()))).toBe("no_spec");
+  });
+
+  test("loadApiSpecs skips specs that cannot be read", () => {
+    writeFileSync(join(TEST_DIR, "openapi.yaml"), OPENAPI_YAML);
+    const specs = loadApiSpecs(ROOT, [
+      makeApi({ id: "a1", spec: "openapi.yaml" }),
+      makeApi({ id: "a2", spec: "missing.yaml" }),
+      makeApi({ id: "a3" }),
+    ]);
+    expect([...specs.keys()]).toEqual(["a1"]);
+  });
+});
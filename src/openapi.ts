@@ -0,0 +1,245 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import yaml from "js-yaml";
+import { resolveSourceRoot, sourceName, sourceOf } from "./federation.js";
+import { readConfig } from "./store.js";
+import type { Api } from "./types.js";
+
+/**
+ * Reading the OpenAPI 3 and Swagger 2 documents `Api.spec` points at.
+ * Only local files are opened; relative paths are resolved against the
+ * directory that holds the .yellowpages/ the API was loaded from.
+ */
+
+export interface ApiOperation {
+  method: string; // upper case, e.g. POST
+  path: string;
+  operationId?: string;
+  summary?: string;
+}
+
+export interface ApiSpecSummary {
+  format: "openapi" | "swagger";
+  formatVersion: string; // e.g. 3.0.3 or 2.0
+  title?: string;
+  version?: string;
+  servers: string[];
+  operations: ApiOperation[];
+}
+
+export type ApiSpecErrorReason =
+  | "no_spec"
+  | "remote"
+  | "not_found"
+  | "invalid"
+  | "unsupported";
+
+/**
+ * Thrown when a spec cannot be summarized: there is none, it is a URL,
+ * the file is missing, it does not parse, or it is neither OpenAPI 3 nor Swagger 2.
+ */
+export class ApiSpecError extends Error {
+  constructor(
+    readonly reason: ApiSpecErrorReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiSpecError";
+  }
+}
+
+const METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+interface SpecDocument {
+  openapi?: unknown;
+  swagger?: unknown;
+  info?: { title?: unknown; version?: unknown };
+  servers?: { url?: unknown }[];
+  host?: unknown;
+  basePath?: unknown;
+  schemes?: unknown[];
+  paths?: Record<string, Record<string, unknown> | null>;
+}
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined;
+
+/**
+ * Whether a spec is a URL rather than a local file.
+ */
+export function isRemoteSpec(spec: string): boolean {
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(spec);
+}
+
+/**
+ * Absolute path of a local spec.
+ */
+export function specPath(root: string, spec: string): string {
+  return isAbsolute(spec) ? spec : resolve(dirname(root), spec);
+}
+
+// Swagger 2 spells its servers as host, basePath and schemes
+function swaggerServers(doc: SpecDocument): string[] {
+  const host = text(doc.host);
+  const basePath = text(doc.basePath) ?? "";
+  if (!host) return basePath ? [basePath] : [];
+  const schemes = (doc.schemes ?? [])
+    .map(text)
+    .filter((scheme): scheme is string => Boolean(scheme));
+  return (schemes.length > 0 ? schemes : ["https"]).map(
+    (scheme) => `${scheme}://${host}${basePath}`,
+  );
+}
+
+/**
+ * Summarize an OpenAPI 3 or Swagger 2 document, given as JSON or YAML:
+ * its title, version, servers and operations, in document order.
+ */
+export function parseApiSpec(content: string): ApiSpecSummary {
+  let doc: SpecDocument;
+  try {
+    doc = yaml.load(content) as SpecDocument;
+  } catch (err) {
+    throw new ApiSpecError(
+      "invalid",
+      `Not valid JSON or YAML: ${(err as Error).message.split("\n")[0]}`,
+    );
+  }
+  if (!doc || typeof doc !== "object") {
+    throw new ApiSpecError("invalid", "Not an OpenAPI document");
+  }
+
+  const openapi = text(doc.openapi);
+  const swagger = text(doc.swagger);
+  let format: ApiSpecSummary["format"];
+  let formatVersion: string;
+  // An unquoted `swagger: 2.0` in YAML reads as the number 2
+  if (openapi && /^3(\.|$)/.test(openapi)) {
+    format = "openapi";
+    formatVersion = openapi;
+  } else if (swagger && /^2(\.|$)/.test(swagger)) {
+    format = "swagger";
+    formatVersion = swagger;
+  } else {
+    throw new ApiSpecError(
+      "unsupported",
+      `Unsupported spec version ${openapi ?? swagger ?? "(none)"}; expected OpenAPI 3 or Swagger 2`,
+    );
+  }
+
+  const servers =
+    format === "openapi"
+      ? (doc.servers ?? [])
+          .map((s) => text(s?.url))
+          .filter((url): url is string => Boolean(url))
+      : swaggerServers(doc);
+
+  const operations: ApiOperation[] = [];
+  for (const [path, item] of Object.entries(doc.paths ?? {})) {
+    if (!item || typeof item !== "object") continue;
+    for (const [method, op] of Object.entries(item)) {
+      if (!METHODS.includes(method) || !op || typeof op !== "object") continue;
+      const { operationId, summary } = op as Record<string, unknown>;
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operationId: text(operationId),
+        summary: text(summary),
+      });
+    }
+  }
+
+  return {
+    format,
+    formatVersion,
+    title: text(doc.info?.title),
+    version: text(doc.info?.version),
+    servers,
+    operations,
+  };
+}
+
+// The .yellowpages directory an API was loaded from
+function catalogRootOf(root: string, api: Api): string | null {
+  const source = sourceOf(api);
+  if (!source) return root;
+  const config = (readConfig(root).sources ?? []).find(
+    (s) => sourceName(s) === source,
+  );
+  return config ? resolveSourceRoot(root, config) : null;
+}
+
+/**
+ * Read and summarize the spec of an API. Throws ApiSpecError.
+ */
+export function loadApiSpec(root: string, api: Api): ApiSpecSummary {
+  const { spec } = api;
+  if (!spec) {
+    throw new ApiSpecError("no_spec", `${api.name} has no spec`);
+  }
+  if (isRemoteSpec(spec)) {
+    throw new ApiSpecError("remote", `Only local specs are read: ${spec}`);
+  }
+  const catalogRoot = catalogRootOf(root, api);
+  const path = catalogRoot ? specPath(catalogRoot, spec) : spec;
+  if (!catalogRoot || !existsSync(path) || !statSync(path).isFile()) {
+    throw new ApiSpecError("not_found", `Spec not found: ${path}`);
+  }
+  return parseApiSpec(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Summaries of the specs of APIs, by API id. Specs that cannot be read
+ * are left out.
+ */
+export function loadApiSpecs(
+  root: string,
+  apis: Api[],
+): Map<string, ApiSpecSummary> {
+  const specs = new Map<string, ApiSpecSummary>();
+  for (const api of apis) {
+    if (!api.spec) continue;
+    try {
+      specs.set(api.id, loadApiSpec(root, api));
+    } catch (err) {
+      if (!(err instanceof ApiSpecError)) throw err;
+    }
+  }
+  return specs;
+}
+
+/**
+ * A fingerprint of the local spec files of APIs, so caches built from
+ * them notice when a spec is edited.
+ */
+export function specRevision(root: string, apis: Api[]): string {
+  const stats = apis
+    .filter((a) => a.spec && !isRemoteSpec(a.spec))
+    .map((a) => {
+      const path = specPath(root, a.spec as string);
+      if (!existsSync(path)) return `${a.id}:-`;
+      const stat = statSync(path);
+      return `${a.id}:${stat.size}:${stat.mtimeMs}`;
+    })
+    .join(",");
+  return createHash("sha256").update(stats).digest("hex").slice(0, 12);
+}
+
+/**
+ * "POST /v1/refunds"
+ */
+export function operationLabel(op: ApiOperation): string {
+  return `${op.method} ${op.path}`;
+}
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyPatch,
+  applyRename,
+  parseKeyValues,
+  unknownFields,
+} from "./patch.js";
+import type { Service } from "./types.js";
+
+const NOW = "2026-02-01T00:00:00Z";
+
+function makeService(overrides: Partial<Service> = {}): Service {
+  return {
+    id: "s1",
+    name: "checkout",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("parseKeyValues", () => {
+  test("splits on the first =", () => {
+    const { values, invalid } = parseKeyValues(["team=core", "url=a=b"]);
+    expect(values).toEqual({ team: "core", url: "a=b" });
+    expect(invalid).toEqual([]);
+  });
+
+  test("reports pairs without a key or =", () => {
+    const { values, invalid } = parseKeyValues(["novalue", "=x", "ok="]);
+    expect(values).toEqual({ ok: "" });
+    expect(invalid).toEqual(["novalue", "=x"]);
+  });
+});
+
+describe("unknownFields", () => {
+  test("returns fields not in the allowed list", () => {
+    expect(unknownFields(["owner", "id"], ["owner", "system"])).toEqual(["id"]);
+  });
+});
+
+describe("applyPatch", () => {
+  test("sets fields and bumps updated", () => {
+    const { record, changed } = applyPatch(
+      makeService(),
+      { set: { description: "Handles checkout", owner: undefined } },
+      NOW,
+    );
+    expect(changed).toBe(true);
+    expect(record.description).toBe("Handles checkout");
+    expect("owner" in record).toBe(false);
+    expect(record.updated).toBe(NOW);
+  });
+
+  test("keeps id and created stable", () => {
+    const { record } = applyPatch(
+      makeService(),
+      { set: { id: "other", created: NOW, name: "renamed" }, clear: ["id"] },
+      NOW,
+    );
+    expect(record.id).toBe("s1");
+    expect(record.created).toBe("2026-01-01T00:00:00Z");
+    expect(record.name).toBe("renamed");
+  });
+
+  test("clears fields", () => {
+    const { record } = applyPatch(
+      makeService({ owner: "o1", repo: "https://x" }),
+      { clear: ["owner"] },
+      NOW,
+    );
+    expect(record.owner).toBeUndefined();
+    expect(record.repo).toBe("https://x");
+  });
+
+  test("adds and removes tags without duplicates", () => {
+    const { record } = applyPatch(
+      makeService({ tags: ["backend", "legacy"] }),
+      { addTags: ["backend", "critical"], removeTags: ["legacy"] },
+      NOW,
+    );
+    expect(record.tags).toEqual(["backend", "critical"]);
+  });
+
+  test("drops tags when the last one is removed", () => {
+    const { record } = applyPatch(
+      makeService({ tags: ["backend"] }),
+      { removeTags: ["backend"] },
+      NOW,
+    );
+    expect(record.tags).toBeUndefined();
+  });
+
+  test("sets and unsets custom keys", () => {
+    const { record } = applyPatch(
+      makeService({ custom: { team: "core", region: "eu" } }),
+      { setCustom: { region: "us" }, unsetCustom: ["team"] },
+      NOW,
+    );
+    expect(record.custom).toEqual({ region: "us" });
+  });
+
+  test("reports unchanged and leaves updated alone", () => {
+    const original = makeService({ description: "same" });
+    const { record, changed } = applyPatch(
+      original,
+      { set: { description: "same" } },
+      NOW,
+    );
+    expect(changed).toBe(false);
+    expect(record.updated).toBe(original.updated);
+  });
+
+  test("does not mutate the input record", () => {
+    const original = makeService({ tags: ["a"] });
+    applyPatch(original, { addTags: ["b"] }, NOW);
+    expect(original.tags).toEqual(["a"]);
+  });
+});
+
+describe("applyRename", () => {
+  test("keeps the old name as an alias", () => {
+    const { record, changed } = applyRename(
+      makeService(),
+      "checkout-v2",
+      true,
+      NOW,
+    );
+    expect(changed).toBe(true);
+    expect(record.name).toBe("checkout-v2");
+    expect(record.aliases).toEqual(["checkout"]);
+    expect(record.updated).toBe(NOW);
+    expect(record.id).toBe("s1");
+  });
+
+  test("accumulates aliases across renames", () => {
+    const first = applyRename(makeService(), "b").record;
+    const second = applyRename(first, "c").record;
+    expect(second.aliases).toEqual(["checkout", "b"]);
+  });
+
+  test("renaming back to an alias drops it from the aliases", () => {
+    const renamed = applyRename(makeService(), "b").record;
+    const back = applyRename(renamed, "Checkout").record;
+    expect(back.name).toBe("Checkout");
+    expect(back.aliases).toEqual(["b"]);
+  });
+
+  test("keepAlias false does not record the old name", () => {
+    const { record } = applyRename(makeService(), "b", false);
+    expect(record.aliases).toBeUndefined();
+  });
+
+  test("same name is not a change", () => {
+    const service = makeService();
+    const { record, changed } = applyRename(service, "checkout");
+    expect(changed).toBe(false);
+    expect(record).toBe(service);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * In-place record patching for the `update` subcommands.
+ * Patches never touch `id` or `created`, so references stay valid.
+ */
+export interface RecordPatch {
+  set?: Record<string, unknown>;
+  clear?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  setCustom?: Record<string, string>;
+  unsetCustom?: string[];
+}
+
+interface PatchableRecord {
+  id: string;
+  created: string;
+  updated: string;
+  tags?: string[];
+  custom?: Record<string, string>;
+}
+
+const PROTECTED_FIELDS = ["id", "created", "updated"];
+
+/**
+ * Parse `key=value` pairs. Pairs without a key or an `=` are returned
+ * in `invalid` so the caller can report them.
+ */
+export function parseKeyValues(pairs: string[]): {
+  values: Record<string, string>;
+  invalid: string[];
+} {
+  const values: Record<string, string> = {};
+  const invalid: string[] = [];
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) {
+      invalid.push(pair);
+      continue;
+    }
+    values[pair.slice(0, eq).trim()] = pair.slice(eq + 1);
+  }
+  return { values, invalid };
+}
+
+/**
+ * Return the fields in `fields` that are not in `allowed`.
+ */
+export function unknownFields(
+  fields: string[],
+  allowed: readonly string[],
+): string[] {
+  return fields.filter((f) => !allowed.includes(f));
+}
+
+/**
+ * Apply a patch to a copy of the record. `updated` is bumped only when
+ * something actually changed.
+ */
+export function applyPatch<T extends PatchableRecord>(
+  record: T,
+  patch: RecordPatch,
+  now: string = new Date().toISOString(),
+): { record: T; changed: boolean } {
+  const next = structuredClone(record);
+  const fields = next as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(patch.set ?? {})) {
+    if (value === undefined || PROTECTED_FIELDS.includes(key)) continue;
+    fields[key] = value;
+  }
+
+  for (const key of patch.clear ?? []) {
+    if (PROTECTED_FIELDS.includes(key)) continue;
+    delete fields[key];
+  }
+
+  if (patch.addTags?.length || patch.removeTags?.length) {
+    const tags = new Set(next.tags ?? []);
+    for (const t of patch.addTags ?? []) tags.add(t);
+    for (const t of patch.removeTags ?? []) tags.delete(t);
+    if (tags.size > 0) next.tags = [...tags];
+    else delete next.tags;
+  }
+
+  if (patch.setCustom || patch.unsetCustom?.length) {
+    const custom = { ...(next.custom ?? {}), ...(patch.setCustom ?? {}) };
+    for (const key of patch.unsetCustom ?? []) delete custom[key];
+    if (Object.keys(custom).length > 0) next.custom = custom;
+    else delete next.custom;
+  }
+
+  const changed = JSON.stringify(next) !== JSON.stringify(record);
+  if (changed) next.updated = now;
+  return { record: next, changed };
+}
+
+/**
+ * Rename a record, keeping the old name as an alias (unless keepAlias is
+ * false) so lookups by the old name still resolve. The new name is never
+ * also an alias.
+ */
+export function applyRename<
+  T extends { name: string; aliases?: string[]; updated: string },
+>(
+  record: T,
+  newName: string,
+  keepAlias = true,
+  now: string = new Date().toISOString(),
+): { record: T; changed: boolean } {
+  if (record.name === newName) return { record, changed: false };
+
+  const seen = new Set([newName.toLowerCase()]);
+  const aliases: string[] = [];
+  for (const alias of [
+    ...(record.aliases ?? []),
+    ...(keepAlias ? [record.name] : []),
+  ]) {
+    const lower = alias.toLowerCase();
+    if (seen.has(lower)) continue;
+    seen.add(lower);
+    aliases.push(alias);
+  }
+
+  const next: T = { ...record, name: newName, updated: now };
+  if (aliases.length > 0) next.aliases = aliases;
+  else delete next.aliases;
+  return { record: next, changed: true };
+}
@@ -2,11 +2,18 @@ import { describe, expect, test } from "bun:test";
 import type { CatalogData } from "./relations.js";
 import {
   filterServices,
+  findReferences,
+  resolveApi,
+  resolveDomain,
+  resolveOnCall,
   resolveOwner,
+  resolveOwnerTree,
+  resolveResource,
   resolveService,
   resolveSystem,
+  rewriteReferences,
 } from "./relations.js";
-import type { Owner, Service, System } from "./types.js";
+import type { Api, Domain, Owner, Resource, Service, System } from "./types.js";
 
 function makeCatalog(): CatalogData {
   const owners: Owner[] = [
@@ -30,6 +37,7 @@ function makeCatalog(): CatalogData {
       id: "sys1",
       name: "payments",
       owner: "o1",
+      domain: "d1",
       created: "2026-01-01T00:00:00Z",
       updated: "2026-01-01T00:00:00Z",
     },
@@ -49,7 +57,8 @@ function makeCatalog(): CatalogData {
       owner: "o1",
       lifecycle: "production",
       tags: ["backend"],
-      dependsOn: [{ service: "s2", api: "OAuth" }],
+      dependsOn: [{ service: "s2", api: "a1" }],
+      uses: [{ resource: "r1", access: "readwrite" }],
       created: "2026-01-01T00:00:00Z",
       updated: "2026-01-01T00:00:00Z",
     },
@@ -61,6 +70,7 @@ function makeCatalog(): CatalogData {
       lifecycle: "production",
       tags: ["backend", "critical"],
       dependsOn: [],
+      uses: [{ resource: "r1", access: "read", description: "fraud checks" }],
       created: "2026-01-01T00:00:00Z",
       updated: "2026-01-01T00:00:00Z",
     },
@@ -75,7 +85,43 @@ function makeCatalog(): CatalogData {
       updated: "2026-01-01T00:00:00Z",
     },
   ];
-  return { services, systems, owners };
+  const resources: Resource[] = [
+    {
+      id: "r1",
+      name: "orders-db",
+      kind: "database",
+      owner: "o2",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    },
+    {
+      id: "r2",
+      name: "events-queue",
+      kind: "queue",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    },
+  ];
+  const domains: Domain[] = [
+    {
+      id: "d1",
+      name: "commerce",
+      owner: "o2",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    },
+  ];
+  const apis: Api[] = [
+    {
+      id: "a1",
+      name: "OAuth",
+      type: "rest",
+      provider: "s2",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    },
+  ];
+  return { services, systems, owners, resources, domains, apis };
 }
 
 describe("resolveService", () => {
@@ -103,7 +149,14 @@ describe("resolveService", () => {
     const fromCheckout = resolved?.dependents.find(
       (d) => d.service.name === "checkout",
     );
-    expect(fromCheckout?.api).toBe("OAuth");
+    expect(fromCheckout?.api).toBe("a1");
+  });
+
+  test("resolves the APIs a service provides", () => {
+    expect(resolveService("s2", catalog)?.apis.map((a) => a.name)).toEqual([
+      "OAuth",
+    ]);
+    expect(resolveService("s1", catalog)?.apis).toEqual([]);
   });
 
   test("returns null for unknown service", () => {
@@ -114,6 +167,37 @@ describe("resolveService", () => {
     const resolved = resolveService("s3", catalog);
     expect(resolved?.system).toBeNull();
   });
+
+  test("resolves the resources a service uses", () => {
+    const resolved = resolveService("s1", catalog);
+    expect(resolved?.resources).toHaveLength(1);
+    expect(resolved?.resources[0].resource.name).toBe("orders-db");
+    expect(resolved?.resources[0].access).toBe("readwrite");
+  });
+});
+
+describe("resolveResource", () => {
+  const catalog = makeCatalog();
+
+  test("resolves owner and every service that uses it", () => {
+    const resolved = resolveResource("r1", catalog);
+    expect(resolved?.owner?.name).toBe("auth-team");
+    expect(resolved?.system).toBeNull();
+    expect(
+      resolved?.users.map((u) => [u.service.name, u.access, u.description]),
+    ).toEqual([
+      ["checkout", "readwrite", undefined],
+      ["auth", "read", "fraud checks"],
+    ]);
+  });
+
+  test("unused resource has no users", () => {
+    expect(resolveResource("r2", catalog)?.users).toEqual([]);
+  });
+
+  test("returns null for unknown resource", () => {
+    expect(resolveResource("ghost", catalog)).toBeNull();
+  });
 });
 
 describe("resolveSystem", () => {
@@ -128,11 +212,62 @@ describe("resolveSystem", () => {
     expect(resolved?.services[0].name).toBe("checkout");
   });
 
+  test("resolves the domain", () => {
+    expect(resolveSystem("sys1", catalog)?.domain?.name).toBe("commerce");
+    expect(resolveSystem("sys2", catalog)?.domain).toBeNull();
+  });
+
   test("returns null for unknown system", () => {
     expect(resolveSystem("ghost", catalog)).toBeNull();
   });
 });
 
+describe("resolveDomain", () => {
+  const catalog = makeCatalog();
+
+  test("rolls up systems, services and owners", () => {
+    const resolved = resolveDomain("d1", catalog);
+    expect(resolved?.owner?.name).toBe("auth-team");
+    expect(resolved?.systems.map((s) => s.name)).toEqual(["payments"]);
+    expect(resolved?.services.map((s) => s.name)).toEqual(["checkout"]);
+    // auth-team owns the domain, platform owns payments and checkout
+    expect(resolved?.owners.map((o) => o.name).sort()).toEqual([
+      "auth-team",
+      "platform",
+    ]);
+  });
+
+  test("returns null for unknown domain", () => {
+    expect(resolveDomain("ghost", catalog)).toBeNull();
+  });
+});
+
+describe("resolveApi", () => {
+  test("resolves provider, consumers and who is responsible", () => {
+    const catalog = makeCatalog();
+    const resolved = resolveApi("a1", catalog);
+    expect(resolved?.provider?.name).toBe("auth");
+    expect(resolved?.owner).toBeNull();
+    expect(resolved?.consumers.map((c) => c.service.name)).toEqual([
+      "checkout",
+    ]);
+    expect(resolved?.responsible).toMatchObject({
+      owner: { id: "o2" },
+      via: "provider",
+    });
+
+    catalog.apis[0].owner = "o1";
+    expect(resolveApi("a1", catalog)?.responsible).toMatchObject({
+      owner: { id: "o1" },
+      via: "api",
+    });
+  });
+
+  test("returns null for unknown API", () => {
+    expect(resolveApi("ghost", makeCatalog())).toBeNull();
+  });
+});
+
 describe("resolveOwner", () => {
   const catalog = makeCatalog();
 
@@ -149,6 +284,126 @@ describe("resolveOwner", () => {
   });
 });
 
+describe("team hierarchy", () => {
+  // platform → auth-team → ana (person, member of auth-team)
+  function makeTree(): CatalogData {
+    const catalog = makeCatalog();
+    catalog.owners[1].parent = "o1";
+    catalog.owners.push({
+      id: "p1",
+      name: "ana",
+      type: "person",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    });
+    catalog.owners[1].members = [{ person: "p1", role: "lead" }];
+    return catalog;
+  }
+
+  test("resolveOwner links parent, sub-teams, members and teams", () => {
+    const catalog = makeTree();
+    const team = resolveOwner("o2", catalog);
+    expect(team?.parent?.name).toBe("platform");
+    expect(team?.members.map((m) => [m.person.name, m.role])).toEqual([
+      ["ana", "lead"],
+    ]);
+    expect(resolveOwner("o1", catalog)?.children.map((o) => o.name)).toEqual([
+      "auth-team",
+    ]);
+    expect(resolveOwner("p1", catalog)?.teams.map((t) => t.team.name)).toEqual([
+      "auth-team",
+    ]);
+  });
+
+  test("resolveOwnerTree walks sub-teams and stops at cycles", () => {
+    const catalog = makeTree();
+    expect(resolveOwnerTree("o1", catalog).map((r) => r.owner.id)).toEqual([
+      "o1",
+      "o2",
+    ]);
+    catalog.owners[0].parent = "o2";
+    expect(resolveOwnerTree("o1", catalog)).toHaveLength(2);
+  });
+
+  test("filterServices --recursive includes services of sub-teams", () => {
+    const catalog = makeTree();
+    expect(filterServices(catalog, { ownerId: "o1" })).toHaveLength(2);
+    const all = filterServices(catalog, { ownerId: "o1", recursive: true });
+    expect(all.map((s) => s.name).sort()).toEqual([
+      "admin-ui",
+      "auth",
+      "checkout",
+    ]);
+  });
+
+  test("removing a team or person rewrites parents and memberships", () => {
+    const catalog = makeTree();
+    const refs = findReferences("owners", "p1", catalog);
+    expect(refs).toEqual([
+      { kind: "owner", id: "o2", name: "auth-team", field: "members" },
+    ]);
+    expect(rewriteReferences(refs, catalog, "p1").owners[0].members).toEqual(
+      [],
+    );
+
+    const parentRefs = findReferences("owners", "o1", catalog).filter(
+      (r) => r.kind === "owner",
+    );
+    const { owners } = rewriteReferences(parentRefs, catalog, "o1");
+    expect(owners[0].parent).toBeUndefined();
+  });
+});
+
+describe("on-call", () => {
+  test("services fall back to the owner of their system", () => {
+    const catalog = makeCatalog();
+    expect(resolveService("s1", catalog)?.responsible).toEqual({
+      owner: catalog.owners[0],
+      via: "service",
+    });
+    delete catalog.services[0].owner;
+    expect(resolveService("s1", catalog)?.responsible?.via).toBe("system");
+    expect(resolveService("s1", catalog)?.responsible?.owner.name).toBe(
+      "platform",
+    );
+    delete catalog.services[2].owner;
+    expect(resolveService("s3", catalog)?.responsible).toBeNull();
+  });
+
+  test("resolveOnCall fills in owner contacts and keeps other refs", () => {
+    const catalog = makeCatalog();
+    catalog.owners[1].email = "auth@example.com";
+    catalog.owners[0].oncall = {
+      primary: "o2",
+      escalation: ["boss@example.com"],
+      pager: "PD-1",
+    };
+    const resolved = resolveOnCall("o1", catalog);
+    expect(resolved?.primary).toEqual({
+      id: "o2",
+      name: "auth-team",
+      email: "auth@example.com",
+      slack: undefined,
+    });
+    expect(resolved?.escalation).toEqual([{ name: "boss@example.com" }]);
+    expect(resolveOnCall("o2", catalog)?.oncall).toBeNull();
+  });
+
+  test("removing an on-call contact clears or repoints it", () => {
+    const catalog = makeCatalog();
+    catalog.owners[0].oncall = { primary: "o2", escalation: ["o2", "x"] };
+    const refs = findReferences("owners", "o2", catalog).filter(
+      (r) => r.field === "oncall",
+    );
+    expect(refs.map((r) => r.name)).toEqual(["platform"]);
+
+    const cleared = rewriteReferences(refs, catalog, "o2").owners[0];
+    expect(cleared.oncall).toEqual({ escalation: ["x"] });
+    const moved = rewriteReferences(refs, catalog, "o2", "o9").owners[0];
+    expect(moved.oncall).toEqual({ primary: "o9", escalation: ["o9", "x"] });
+  });
+});
+
 describe("filterServices", () => {
   const catalog = makeCatalog();
 
@@ -175,6 +430,13 @@ describe("filterServices", () => {
     expect(result[0].name).toBe("auth");
   });
 
+  test("filter by environment", () => {
+    const catalog = makeCatalog();
+    catalog.services[1].environments = [{ name: "Staging" }];
+    const result = filterServices(catalog, { env: "staging" });
+    expect(result.map((s) => s.name)).toEqual(["auth"]);
+  });
+
   test("multiple filters combine", () => {
     const result = filterServices(catalog, {
       ownerId: "o1",
@@ -189,3 +451,178 @@ describe("filterServices", () => {
     expect(result).toHaveLength(3);
   });
 });
+
+describe("findReferences", () => {
+  const catalog = makeCatalog();
+
+  test("finds services and systems owned by an owner", () => {
+    const refs = findReferences("owners", "o1", catalog);
+    expect(refs).toEqual([
+      { kind: "system", id: "sys1", name: "payments", field: "owner" },
+      { kind: "service", id: "s1", name: "checkout", field: "owner" },
+      { kind: "service", id: "s3", name: "admin-ui", field: "owner" },
+    ]);
+  });
+
+  test("finds services in a system", () => {
+    const refs = findReferences("systems", "sys2", catalog);
+    expect(refs).toEqual([
+      { kind: "service", id: "s2", name: "auth", field: "system" },
+    ]);
+  });
+
+  test("finds dependents of a service, not the APIs it provides", () => {
+    const refs = findReferences("services", "s2", catalog);
+    expect(refs.map((r) => [r.name, r.field])).toEqual([
+      ["checkout", "dependsOn"],
+      ["admin-ui", "dependsOn"],
+    ]);
+  });
+
+  test("finds the consumers of an API", () => {
+    expect(findReferences("apis", "a1", catalog)).toEqual([
+      { kind: "service", id: "s1", name: "checkout", field: "api" },
+    ]);
+  });
+
+  test("finds resources owned by an owner", () => {
+    const refs = findReferences("owners", "o2", catalog);
+    expect(refs).toContainEqual({
+      kind: "resource",
+      id: "r1",
+      name: "orders-db",
+      field: "owner",
+    });
+  });
+
+  test("finds systems in a domain", () => {
+    expect(findReferences("domains", "d1", catalog)).toEqual([
+      { kind: "system", id: "sys1", name: "payments", field: "domain" },
+    ]);
+  });
+
+  test("finds services that use a resource", () => {
+    const refs = findReferences("resources", "r1", catalog);
+    expect(refs.map((r) => r.name)).toEqual(["checkout", "auth"]);
+    expect(refs.every((r) => r.field === "uses")).toBe(true);
+  });
+
+  test("returns empty for unreferenced or unknown entities", () => {
+    expect(findReferences("services", "s3", catalog)).toEqual([]);
+    expect(findReferences("resources", "r2", catalog)).toEqual([]);
+    expect(findReferences("owners", "ghost", catalog)).toEqual([]);
+  });
+});
+
+describe("rewriteReferences", () => {
+  const NOW = "2026-02-01T00:00:00Z";
+
+  test("reassigns owner references", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("owners", "o1", catalog);
+    const { services, systems } = rewriteReferences(
+      refs,
+      catalog,
+      "o1",
+      "o2",
+      NOW,
+    );
+    expect(systems.map((s) => s.owner)).toEqual(["o2"]);
+    expect(services.map((s) => s.owner)).toEqual(["o2", "o2"]);
+    expect(services[0].updated).toBe(NOW);
+  });
+
+  test("clears system references on cascade", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("systems", "sys1", catalog);
+    const { services } = rewriteReferences(refs, catalog, "sys1");
+    expect(services).toHaveLength(1);
+    expect(services[0].system).toBeUndefined();
+  });
+
+  test("removes dependencies on cascade", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("services", "s2", catalog);
+    const { services } = rewriteReferences(refs, catalog, "s2");
+    const adminUi = services.find((s) => s.id === "s3");
+    expect(adminUi?.dependsOn).toEqual([{ service: "s1" }]);
+    const checkout = services.find((s) => s.id === "s1");
+    expect(checkout?.dependsOn).toEqual([]);
+  });
+
+  test("repoints dependencies on reassign, dropping self and duplicate deps", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("services", "s2", catalog);
+    const { services } = rewriteReferences(refs, catalog, "s2", "s1");
+    const adminUi = services.find((s) => s.id === "s3");
+    expect(adminUi?.dependsOn).toEqual([{ service: "s1" }]);
+    const checkout = services.find((s) => s.id === "s1");
+    expect(checkout?.dependsOn).toEqual([]);
+  });
+
+  test("repoints resource uses on reassign", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("resources", "r1", catalog);
+    const { services } = rewriteReferences(refs, catalog, "r1", "r2");
+    expect(services.map((s) => s.uses)).toEqual([
+      [{ resource: "r2", access: "readwrite" }],
+      [{ resource: "r2", access: "read", description: "fraud checks" }],
+    ]);
+  });
+
+  test("clears resource uses and resource owners on cascade", () => {
+    const catalog = makeCatalog();
+    const { services } = rewriteReferences(
+      findReferences("resources", "r1", catalog),
+      catalog,
+      "r1",
+    );
+    expect(services.every((s) => s.uses?.length === 0)).toBe(true);
+
+    const { resources } = rewriteReferences(
+      findReferences("owners", "o2", catalog),
+      catalog,
+      "o2",
+    );
+    expect(resources).toHaveLength(1);
+    expect(resources[0].owner).toBeUndefined();
+  });
+
+  test("moves systems to another domain, or clears the domain", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("domains", "d1", catalog);
+    const moved = rewriteReferences(refs, catalog, "d1", "d2");
+    expect(moved.systems.map((s) => [s.domain, s.owner])).toEqual([
+      ["d2", "o1"],
+    ]);
+    const cleared = rewriteReferences(refs, catalog, "d1");
+    expect(cleared.systems[0].domain).toBeUndefined();
+    expect(cleared.systems[0].owner).toBe("o1");
+  });
+
+  test("clears or repoints the API of consuming dependencies", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("apis", "a1", catalog);
+    const cleared = rewriteReferences(refs, catalog, "a1");
+    expect(cleared.services[0].dependsOn).toEqual([{ service: "s2" }]);
+    const moved = rewriteReferences(refs, catalog, "a1", "a2");
+    expect(moved.services[0].dependsOn).toEqual([{ service: "s2", api: "a2" }]);
+  });
+
+  test("a repointed dependency leaves the API with its provider", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("services", "s2", catalog);
+    const { services, apis } = rewriteReferences(refs, catalog, "s2", "s3");
+    expect(services.find((s) => s.id === "s1")?.dependsOn).toEqual([
+      { service: "s3" },
+    ]);
+    expect(apis).toEqual([]);
+  });
+
+  test("does not mutate the catalog", () => {
+    const catalog = makeCatalog();
+    const refs = findReferences("owners", "o1", catalog);
+    rewriteReferences(refs, catalog, "o1");
+    expect(catalog.services[0].owner).toBe("o1");
+  });
+});
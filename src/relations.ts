@@ -1,5 +1,17 @@
+import { type CatalogIndex, createCatalogIndex } from "./catalog-index.js";
+import { loadSourceCatalogs, mergeCatalogs } from "./federation.js";
 import { readAll } from "./store.js";
-import type { Owner, Service, System } from "./types.js";
+import type {
+  Access,
+  Api,
+  Collection,
+  Domain,
+  OnCall,
+  Owner,
+  Resource,
+  Service,
+  System,
+} from "./types.js";
 
 /**
  * Load and cross-reference the entire catalog.
@@ -9,36 +21,152 @@ export interface CatalogData {
   services: Service[];
   systems: System[];
   owners: Owner[];
+  resources: Resource[];
+  domains: Domain[];
+  apis: Api[];
 }
 
 export interface ResolvedService {
   service: Service;
   owner: Owner | null;
   system: System | null;
+  apis: Api[]; // APIs the service provides
   dependents: { service: Service; api?: string; description?: string }[];
+  resources: { resource: Resource; access?: Access; description?: string }[];
+  // Who answers for the service: its owner, else the owner of its system
+  responsible: { owner: Owner; via: "service" | "system" } | null;
 }
 
 export interface ResolvedSystem {
   system: System;
   owner: Owner | null;
+  domain: Domain | null;
   services: Service[];
+  resources: Resource[];
 }
 
 export interface ResolvedOwner {
   owner: Owner;
+  parent: Owner | null;
+  children: Owner[]; // direct sub-teams
+  members: { person: Owner; role?: string }[];
+  teams: { team: Owner; role?: string }[]; // teams this owner is a member of
+  onCallFor: Owner[]; // owners whose on-call names this one
   services: Service[];
   systems: System[];
+  resources: Resource[];
+  domains: Domain[];
+  apis: Api[];
+}
+
+export interface Contact {
+  id?: string; // set when the contact is an owner in the catalog
+  name: string;
+  email?: string;
+  slack?: string;
+}
+
+export interface ResolvedOnCall {
+  owner: Owner;
+  oncall: OnCall | null;
+  primary: Contact | null;
+  escalation: Contact[];
+}
+
+export interface ResolvedDomain {
+  domain: Domain;
+  owner: Owner | null;
+  systems: System[];
+  services: Service[]; // services of the domain's systems
+  resources: Resource[]; // resources of the domain's systems
+  owners: Owner[]; // everyone who owns the domain or something in it
+}
+
+export interface ResolvedApi {
+  api: Api;
+  provider: Service | null;
+  owner: Owner | null;
+  consumers: { service: Service; description?: string }[];
+  // Who answers for the API: its owner, else the owner of its provider
+  responsible: { owner: Owner; via: "api" | "provider" } | null;
+}
+
+export interface ResolvedResource {
+  resource: Resource;
+  owner: Owner | null;
+  system: System | null;
+  users: { service: Service; access?: Access; description?: string }[];
 }
 
 /**
- * Load the full catalog from disk.
+ * Load the full catalog: the local one merged with the sources in
+ * config.json. Use it for reading only — records from sources must never
+ * be written to the local catalog.
  */
 export function loadCatalog(root: string): CatalogData {
-  return {
+  return indexed(
+    mergeCatalogs(loadLocalCatalog(root), loadSourceCatalogs(root).sources),
+  );
+}
+
+// Indexes of loaded catalogs, shared by every lookup during an invocation
+const catalogIndexes = new WeakMap<CatalogData, CatalogIndex>();
+
+function indexed(catalog: CatalogData): CatalogData {
+  catalogIndexes.set(
+    catalog,
+    createCatalogIndex((collection) => catalog[collection]),
+  );
+  return catalog;
+}
+
+/**
+ * The index of a catalog. Catalogs from loadCatalog and loadLocalCatalog
+ * are indexed once; any other catalog gets a fresh index, so one built
+ * by hand can be changed between lookups.
+ */
+export function catalogIndex(catalog: CatalogData): CatalogIndex {
+  return (
+    catalogIndexes.get(catalog) ??
+    createCatalogIndex((collection) => catalog[collection])
+  );
+}
+
+/**
+ * Resolve an id-or-name against a loaded catalog, including records from
+ * sources: by id, then name, then alias (case-insensitive), then id
+ * prefix. Like store.resolveId, returns the input when nothing matches and
+ * throws AmbiguousIdError when several records do.
+ */
+export function resolveCatalogId(
+  catalog: CatalogData,
+  collection: Collection,
+  idOrName: string,
+): string {
+  return catalogIndex(catalog).resolve(collection, idOrName) ?? idOrName;
+}
+
+/**
+ * Load only the local catalog, for commands that write back what they read.
+ */
+export function loadLocalCatalog(root: string): CatalogData {
+  return indexed({
     services: readAll<Service>(root, "services"),
     systems: readAll<System>(root, "systems"),
     owners: readAll<Owner>(root, "owners"),
-  };
+    resources: readAll<Resource>(root, "resources"),
+    domains: readAll<Domain>(root, "domains"),
+    apis: readAll<Api>(root, "apis"),
+  });
+}
+
+// A referenced record, or null when the reference is unset or dangling
+function lookup<T>(
+  index: CatalogIndex,
+  collection: Collection,
+  id: string | undefined,
+): T | null {
+  return id ? (index.get<T>(collection, id) ?? null) : null;
 }
 
 /**
@@ -48,25 +176,30 @@ export function resolveService(
   serviceId: string,
   catalog: CatalogData,
 ): ResolvedService | null {
-  const service = catalog.services.find((s) => s.id === serviceId);
+  const index = catalogIndex(catalog);
+  const service = index.get<Service>("services", serviceId);
   if (!service) return null;
 
+  const owner = lookup<Owner>(index, "owners", service.owner);
+  const system = lookup<System>(index, "systems", service.system);
+  const systemOwner = lookup<Owner>(index, "owners", system?.owner);
+
   return {
     service,
-    owner: service.owner
-      ? (catalog.owners.find((o) => o.id === service.owner) ?? null)
-      : null,
-    system: service.system
-      ? (catalog.systems.find((s) => s.id === service.system) ?? null)
-      : null,
-    dependents: catalog.services
-      .filter((s) => (s.dependsOn ?? []).some((d) => d.service === serviceId))
-      .map((s) => {
-        const dep = s.dependsOn?.find((d) => d.service === serviceId);
-        if (!dep) return null;
-        return { service: s, api: dep.api, description: dep.description };
-      })
-      .filter((x): x is NonNullable<typeof x> => x !== null),
+    owner,
+    system,
+    apis: index.providedBy(serviceId),
+    dependents: index.dependents(serviceId),
+    resources: (service.uses ?? []).flatMap((use) => {
+      const resource = index.get<Resource>("resources", use.resource);
+      if (!resource) return [];
+      return [{ resource, access: use.access, description: use.description }];
+    }),
+    responsible: owner
+      ? { owner, via: "service" }
+      : systemOwner
+        ? { owner: systemOwner, via: "system" }
+        : null,
   };
 }
 
@@ -77,15 +210,16 @@ export function resolveSystem(
   systemId: string,
   catalog: CatalogData,
 ): ResolvedSystem | null {
-  const system = catalog.systems.find((s) => s.id === systemId);
+  const index = catalogIndex(catalog);
+  const system = index.get<System>("systems", systemId);
   if (!system) return null;
 
   return {
     system,
-    owner: system.owner
-      ? (catalog.owners.find((o) => o.id === system.owner) ?? null)
-      : null,
-    services: catalog.services.filter((s) => s.system === systemId),
+    owner: lookup<Owner>(index, "owners", system.owner),
+    domain: lookup<Domain>(index, "domains", system.domain),
+    services: index.inSystem<Service>("services", systemId),
+    resources: index.inSystem<Resource>("resources", systemId),
   };
 }
 
@@ -96,13 +230,188 @@ export function resolveOwner(
   ownerId: string,
   catalog: CatalogData,
 ): ResolvedOwner | null {
-  const owner = catalog.owners.find((o) => o.id === ownerId);
+  const index = catalogIndex(catalog);
+  const owner = index.get<Owner>("owners", ownerId);
+  if (!owner) return null;
+
+  return {
+    owner,
+    parent: lookup<Owner>(index, "owners", owner.parent),
+    children: catalog.owners.filter((o) => o.parent === ownerId),
+    members: (owner.members ?? []).flatMap((m) => {
+      const person = index.get<Owner>("owners", m.person);
+      return person ? [{ person, role: m.role }] : [];
+    }),
+    teams: catalog.owners.flatMap((team) =>
+      (team.members ?? [])
+        .filter((m) => m.person === ownerId)
+        .map((m) => ({ team, role: m.role })),
+    ),
+    onCallFor: catalog.owners.filter(
+      (o) =>
+        o.oncall?.primary === ownerId ||
+        (o.oncall?.escalation ?? []).includes(ownerId),
+    ),
+    services: index.ownedBy<Service>("services", ownerId),
+    systems: index.ownedBy<System>("systems", ownerId),
+    resources: index.ownedBy<Resource>("resources", ownerId),
+    domains: index.ownedBy<Domain>("domains", ownerId),
+    apis: index.ownedBy<Api>("apis", ownerId),
+  };
+}
+
+/**
+ * Resolve an on-call reference: an owner id becomes that owner's contact
+ * details, anything else (an email, a handle) is kept as given.
+ */
+export function resolveContact(ref: string, catalog: CatalogData): Contact {
+  const owner = catalogIndex(catalog).get<Owner>("owners", ref);
+  if (!owner) return { name: ref };
+  return {
+    id: owner.id,
+    name: owner.name,
+    email: owner.email,
+    slack: owner.slack,
+  };
+}
+
+/**
+ * Resolve an owner's on-call data, with contacts filled in.
+ */
+export function resolveOnCall(
+  ownerId: string,
+  catalog: CatalogData,
+): ResolvedOnCall | null {
+  const owner = catalogIndex(catalog).get<Owner>("owners", ownerId);
   if (!owner) return null;
 
+  const oncall = owner.oncall ?? null;
   return {
     owner,
-    services: catalog.services.filter((s) => s.owner === ownerId),
-    systems: catalog.systems.filter((s) => s.owner === ownerId),
+    oncall,
+    primary: oncall?.primary ? resolveContact(oncall.primary, catalog) : null,
+    escalation: (oncall?.escalation ?? []).map((ref) =>
+      resolveContact(ref, catalog),
+    ),
+  };
+}
+
+/**
+ * An owner and every team below it, walking `children` from resolveOwner.
+ * Cycles in the parent chain are cut off.
+ */
+export function resolveOwnerTree(
+  ownerId: string,
+  catalog: CatalogData,
+): ResolvedOwner[] {
+  const tree: ResolvedOwner[] = [];
+  const seen = new Set<string>();
+  const walk = (id: string) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const resolved = resolveOwner(id, catalog);
+    if (!resolved) return;
+    tree.push(resolved);
+    for (const child of resolved.children) walk(child.id);
+  };
+  walk(ownerId);
+  return tree;
+}
+
+/**
+ * Resolve all relations for a domain, rolling up the systems in it and
+ * the services, resources and owners of those systems.
+ */
+export function resolveDomain(
+  domainId: string,
+  catalog: CatalogData,
+): ResolvedDomain | null {
+  const index = catalogIndex(catalog);
+  const domain = index.get<Domain>("domains", domainId);
+  if (!domain) return null;
+
+  const systems = catalog.systems.filter((s) => s.domain === domainId);
+  const systemIds = new Set(systems.map((s) => s.id));
+  const services = catalog.services.filter(
+    (s) => s.system !== undefined && systemIds.has(s.system),
+  );
+  const resources = catalog.resources.filter(
+    (r) => r.system !== undefined && systemIds.has(r.system),
+  );
+  const ownerIds = new Set(
+    [domain, ...systems, ...services, ...resources]
+      .map((r) => r.owner)
+      .filter((id): id is string => id !== undefined),
+  );
+
+  return {
+    domain,
+    owner: lookup<Owner>(index, "owners", domain.owner),
+    systems,
+    services,
+    resources,
+    owners: catalog.owners.filter((o) => ownerIds.has(o.id)),
+  };
+}
+
+/**
+ * Resolve all relations for a resource, including every service that
+ * uses it and how.
+ */
+export function resolveResource(
+  resourceId: string,
+  catalog: CatalogData,
+): ResolvedResource | null {
+  const index = catalogIndex(catalog);
+  const resource = index.get<Resource>("resources", resourceId);
+  if (!resource) return null;
+
+  return {
+    resource,
+    owner: lookup<Owner>(index, "owners", resource.owner),
+    system: lookup<System>(index, "systems", resource.system),
+    users: catalog.services.flatMap((service) =>
+      (service.uses ?? [])
+        .filter((use) => use.resource === resourceId)
+        .map((use) => ({
+          service,
+          access: use.access,
+          description: use.description,
+        })),
+    ),
+  };
+}
+
+/**
+ * Resolve all relations for an API, including every service that
+ * consumes it.
+ */
+export function resolveApi(
+  apiId: string,
+  catalog: CatalogData,
+): ResolvedApi | null {
+  const index = catalogIndex(catalog);
+  const api = index.get<Api>("apis", apiId);
+  if (!api) return null;
+
+  const provider = lookup<Service>(index, "services", api.provider);
+  const owner = lookup<Owner>(index, "owners", api.owner);
+  const providerOwner = lookup<Owner>(index, "owners", provider?.owner);
+
+  return {
+    api,
+    provider,
+    owner,
+    consumers: catalog.services.flatMap((service) =>
+      (service.dependsOn ?? [])
+        .filter((dep) => dep.api === apiId)
+        .map((dep) => ({ service, description: dep.description })),
+    ),
+    responsible: owner
+      ? { owner, via: "api" }
+      : providerOwner
+        ? { owner: providerOwner, via: "provider" }
+        : null,
   };
 }
 
@@ -114,8 +423,11 @@ export function filterServices(
   filters: {
     systemId?: string;
     ownerId?: string;
+    recursive?: boolean; // with ownerId: include services of sub-teams
     lifecycle?: string;
+    tier?: number;
     tag?: string;
+    env?: string;
   },
 ): Service[] {
   let services = catalog.services;
@@ -123,13 +435,359 @@ export function filterServices(
     services = services.filter((s) => s.system === filters.systemId);
   }
   if (filters.ownerId) {
-    services = services.filter((s) => s.owner === filters.ownerId);
+    const ownerIds = new Set(
+      filters.recursive
+        ? resolveOwnerTree(filters.ownerId, catalog).map((r) => r.owner.id)
+        : [filters.ownerId],
+    );
+    services = services.filter((s) => s.owner && ownerIds.has(s.owner));
   }
   if (filters.lifecycle) {
     services = services.filter((s) => s.lifecycle === filters.lifecycle);
   }
+  if (filters.tier !== undefined) {
+    services = services.filter((s) => s.tier === filters.tier);
+  }
   if (filters.tag) {
     services = services.filter((s) => s.tags?.includes(filters.tag as string));
   }
+  if (filters.env) {
+    const env = filters.env.toLowerCase();
+    services = services.filter((s) =>
+      s.environments?.some((e) => e.name.toLowerCase() === env),
+    );
+  }
   return services;
 }
+
+export interface Reference {
+  kind: "service" | "system" | "resource" | "domain" | "owner" | "api";
+  id: string;
+  name: string;
+  field:
+    | "owner"
+    | "system"
+    | "domain"
+    | "api"
+    | "dependsOn"
+    | "uses"
+    | "parent"
+    | "members"
+    | "oncall";
+}
+
+/**
+ * Find every record that points at the given entity.
+ * Built on the resolve* functions so it sees exactly what `show` sees.
+ */
+export function findReferences(
+  collection: Collection,
+  id: string,
+  catalog: CatalogData,
+): Reference[] {
+  if (collection === "owners") {
+    const resolved = resolveOwner(id, catalog);
+    if (!resolved) return [];
+    return [
+      ...resolved.systems.map((s) => ({
+        kind: "system" as const,
+        id: s.id,
+        name: s.name,
+        field: "owner" as const,
+      })),
+      ...resolved.services.map((s) => ({
+        kind: "service" as const,
+        id: s.id,
+        name: s.name,
+        field: "owner" as const,
+      })),
+      ...resolved.resources.map((r) => ({
+        kind: "resource" as const,
+        id: r.id,
+        name: r.name,
+        field: "owner" as const,
+      })),
+      ...resolved.domains.map((d) => ({
+        kind: "domain" as const,
+        id: d.id,
+        name: d.name,
+        field: "owner" as const,
+      })),
+      ...resolved.apis.map((a) => ({
+        kind: "api" as const,
+        id: a.id,
+        name: a.name,
+        field: "owner" as const,
+      })),
+      ...resolved.children.map((o) => ({
+        kind: "owner" as const,
+        id: o.id,
+        name: o.name,
+        field: "parent" as const,
+      })),
+      ...resolved.teams.map((t) => ({
+        kind: "owner" as const,
+        id: t.team.id,
+        name: t.team.name,
+        field: "members" as const,
+      })),
+      ...resolved.onCallFor.map((o) => ({
+        kind: "owner" as const,
+        id: o.id,
+        name: o.name,
+        field: "oncall" as const,
+      })),
+    ];
+  }
+
+  if (collection === "domains") {
+    const resolved = resolveDomain(id, catalog);
+    if (!resolved) return [];
+    return resolved.systems.map((s) => ({
+      kind: "system" as const,
+      id: s.id,
+      name: s.name,
+      field: "domain" as const,
+    }));
+  }
+
+  if (collection === "systems") {
+    const resolved = resolveSystem(id, catalog);
+    if (!resolved) return [];
+    return [
+      ...resolved.services.map((s) => ({
+        kind: "service" as const,
+        id: s.id,
+        name: s.name,
+        field: "system" as const,
+      })),
+      ...resolved.resources.map((r) => ({
+        kind: "resource" as const,
+        id: r.id,
+        name: r.name,
+        field: "system" as const,
+      })),
+    ];
+  }
+
+  if (collection === "resources") {
+    const resolved = resolveResource(id, catalog);
+    if (!resolved) return [];
+    // A service listing the resource more than once is still one reference
+    const users = new Map(resolved.users.map((u) => [u.service.id, u.service]));
+    return [...users.values()].map((s) => ({
+      kind: "service" as const,
+      id: s.id,
+      name: s.name,
+      field: "uses" as const,
+    }));
+  }
+
+  if (collection === "apis") {
+    const resolved = resolveApi(id, catalog);
+    if (!resolved) return [];
+    const consumers = new Map(
+      resolved.consumers.map((c) => [c.service.id, c.service]),
+    );
+    return [...consumers.values()].map((s) => ({
+      kind: "service" as const,
+      id: s.id,
+      name: s.name,
+      field: "api" as const,
+    }));
+  }
+
+  // The APIs a service provides are part of it, not references to it
+  const resolved = resolveService(id, catalog);
+  if (!resolved) return [];
+  const dependents = new Map(
+    resolved.dependents
+      .filter((d) => d.service.id !== id)
+      .map((d) => [d.service.id, d.service]),
+  );
+  return [...dependents.values()].map((s) => ({
+    kind: "service" as const,
+    id: s.id,
+    name: s.name,
+    field: "dependsOn" as const,
+  }));
+}
+
+/**
+ * Point references at `toId`, or clear them when `toId` is omitted.
+ * Returns updated copies of the referencing records; nothing is written.
+ */
+export function rewriteReferences(
+  references: Reference[],
+  catalog: CatalogData,
+  fromId: string,
+  toId?: string,
+  now: string = new Date().toISOString(),
+): {
+  services: Service[];
+  systems: System[];
+  resources: Resource[];
+  domains: Domain[];
+  owners: Owner[];
+  apis: Api[];
+} {
+  const services = new Map<string, Service>();
+  const systems = new Map<string, System>();
+  const resources = new Map<string, Resource>();
+  const domains = new Map<string, Domain>();
+  const owners = new Map<string, Owner>();
+  const apis = new Map<string, Api>();
+
+  const index = catalogIndex(catalog);
+  for (const ref of references) {
+    if (ref.kind === "owner") {
+      const original = index.get<Owner>("owners", ref.id);
+      if (!original) continue;
+      const owner = owners.get(ref.id) ?? { ...original };
+      if (ref.field === "members") {
+        const members = owner.members ?? [];
+        if (toId && toId !== owner.id) {
+          // Repoint, dropping entries that now duplicate an existing member
+          const seen = new Set<string>();
+          owner.members = members
+            .map((m) => (m.person === fromId ? { ...m, person: toId } : m))
+            .filter((m) => {
+              if (seen.has(m.person)) return false;
+              seen.add(m.person);
+              return true;
+            });
+        } else {
+          owner.members = members.filter((m) => m.person !== fromId);
+        }
+      } else if (ref.field === "oncall") {
+        const oncall: OnCall = { ...owner.oncall };
+        const swap = (r: string) => (r === fromId ? toId : r);
+        const primary = oncall.primary && swap(oncall.primary);
+        if (primary) oncall.primary = primary;
+        else delete oncall.primary;
+        const escalation = (oncall.escalation ?? [])
+          .map(swap)
+          .filter((r): r is string => r !== undefined);
+        if (escalation.length > 0) oncall.escalation = [...new Set(escalation)];
+        else delete oncall.escalation;
+        owner.oncall = oncall;
+      } else if (toId && toId !== owner.id) {
+        owner.parent = toId;
+      } else {
+        delete owner.parent;
+      }
+      owner.updated = now;
+      owners.set(ref.id, owner);
+      continue;
+    }
+
+    if (ref.kind === "api") {
+      const original = index.get<Api>("apis", ref.id);
+      if (!original) continue;
+      const api = apis.get(ref.id) ?? { ...original };
+      if (toId) api.owner = toId;
+      else delete api.owner;
+      api.updated = now;
+      apis.set(ref.id, api);
+      continue;
+    }
+
+    if (ref.kind === "domain") {
+      const original = index.get<Domain>("domains", ref.id);
+      if (!original) continue;
+      const domain = domains.get(ref.id) ?? { ...original };
+      if (toId) domain.owner = toId;
+      else delete domain.owner;
+      domain.updated = now;
+      domains.set(ref.id, domain);
+      continue;
+    }
+
+    if (ref.kind === "resource") {
+      const original = index.get<Resource>("resources", ref.id);
+      if (!original) continue;
+      const resource = resources.get(ref.id) ?? { ...original };
+      if (ref.field === "owner" || ref.field === "system") {
+        if (toId) resource[ref.field] = toId;
+        else delete resource[ref.field];
+      }
+      resource.updated = now;
+      resources.set(ref.id, resource);
+      continue;
+    }
+
+    if (ref.kind === "system") {
+      const original = index.get<System>("systems", ref.id);
+      if (!original) continue;
+      const system = systems.get(ref.id) ?? { ...original };
+      const field = ref.field === "domain" ? "domain" : "owner";
+      if (toId) system[field] = toId;
+      else delete system[field];
+      system.updated = now;
+      systems.set(ref.id, system);
+      continue;
+    }
+
+    const original = index.get<Service>("services", ref.id);
+    if (!original) continue;
+    const service = services.get(ref.id) ?? { ...original };
+    if (ref.field === "dependsOn") {
+      const deps = service.dependsOn ?? [];
+      if (toId && toId !== service.id) {
+        // Repoint, dropping entries that now duplicate an existing dependency.
+        // An API named stays with the service that provides it.
+        const seen = new Set<string>();
+        service.dependsOn = deps
+          .map((d) => {
+            if (d.service !== fromId) return d;
+            const { api: _, ...rest } = d;
+            return { ...rest, service: toId };
+          })
+          .filter((d) => {
+            const key = `${d.service}:${d.api ?? ""}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          });
+      } else {
+        service.dependsOn = deps.filter((d) => d.service !== fromId);
+      }
+    } else if (ref.field === "api") {
+      service.dependsOn = (service.dependsOn ?? []).map((d) => {
+        if (d.api !== fromId) return d;
+        const { api: _, ...rest } = d;
+        return toId ? { ...rest, api: toId } : rest;
+      });
+    } else if (ref.field === "uses") {
+      const uses = service.uses ?? [];
+      if (toId) {
+        // Repoint, dropping entries that now duplicate an existing use
+        const seen = new Set<string>();
+        service.uses = uses
+          .map((u) => (u.resource === fromId ? { ...u, resource: toId } : u))
+          .filter((u) => {
+            const key = `${u.resource}:${u.access ?? ""}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          });
+      } else {
+        service.uses = uses.filter((u) => u.resource !== fromId);
+      }
+    } else if (ref.field === "owner" || ref.field === "system") {
+      if (toId) service[ref.field] = toId;
+      else delete service[ref.field];
+    }
+    service.updated = now;
+    services.set(ref.id, service);
+  }
+
+  return {
+    services: [...services.values()],
+    systems: [...systems.values()],
+    resources: [...resources.values()],
+    domains: [...domains.values()],
+    owners: [...owners.values()],
+    apis: [...apis.values()],
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { configSchema, recordSchema, validate } from "./schemas.js";
+
+const service = {
+  id: "s1",
+  name: "checkout",
+  created: "2026-01-01T00:00:00Z",
+  updated: "2026-01-01T00:00:00Z",
+};
+
+describe("validate", () => {
+  test("accepts a well-formed record and its $schema reference", () => {
+    const record = {
+      $schema: "../schemas/service.schema.json",
+      ...service,
+      lifecycle: "production",
+      tier: 1,
+      dependsOn: [{ service: "s2", api: "a1" }],
+      environments: [{ name: "prod", lifecycle: "production" }],
+      custom: { "cost-center": "42" },
+    };
+    expect(validate(record, recordSchema("services"))).toEqual([]);
+  });
+
+  test("reports bad enums, missing fields and wrong types with paths", () => {
+    const record = {
+      ...service,
+      lifecycle: "prod",
+      tier: "1",
+      dependsOn: [{ api: "a1" }],
+      tags: "critical",
+    };
+    expect(validate(record, recordSchema("services"))).toEqual([
+      {
+        path: "lifecycle",
+        message:
+          'lifecycle must be one of experimental, production, deprecated, decommissioned, got "prod"',
+      },
+      { path: "tier", message: "tier must be integer, got string" },
+      {
+        path: "dependsOn[0].service",
+        message: "dependsOn[0].service is required",
+      },
+      { path: "tags", message: "tags must be array, got string" },
+    ]);
+  });
+
+  test("reports unknown fields and non-string custom values", () => {
+    const record = { ...service, lifecyle: "production", custom: { n: 1 } };
+    expect(
+      validate(record, recordSchema("services")).map((v) => v.message),
+    ).toEqual([
+      "lifecyle is not a known field",
+      "custom.n must be string, got integer",
+    ]);
+  });
+
+  test("required fields differ by kind", () => {
+    const owner = { ...service, name: "platform" };
+    expect(validate(owner, recordSchema("owners"))).toEqual([
+      { path: "type", message: "type is required" },
+    ]);
+    expect(validate("nope", recordSchema("systems"))[0].message).toBe(
+      "(record) must be object, got string",
+    );
+  });
+
+  test("config.json", () => {
+    expect(validate({ version: 2 }, configSchema())).toEqual([]);
+    expect(
+      validate(
+        { version: 2, storage: { backend: "postgres" } },
+        configSchema(),
+      ).map((v) => v.path),
+    ).toEqual(["storage.backend"]);
+  });
+});
@@ -0,0 +1,418 @@
+import { existsSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic.js";
+import type {
+  Api,
+  Collection,
+  Config,
+  CustomFieldDef,
+  Dependency,
+  Domain,
+  Environment,
+  Link,
+  Member,
+  OnCall,
+  Owner,
+  Resource,
+  ResourceUse,
+  Service,
+  SourceConfig,
+  StorageBackend,
+  StorageConfig,
+  System,
+} from "./types.js";
+import {
+  ACCESS_MODES,
+  API_TYPES,
+  CUSTOM_FIELD_TYPES,
+  KIND_LABELS,
+  LIFECYCLES,
+  LINK_TYPES,
+  OWNER_TYPES,
+  RESOURCE_KINDS,
+  TIERS,
+} from "./types.js";
+
+/**
+ * JSON Schemas for records and config.json, written to
+ * .yellowpages/schemas/ for editors, and a validator for the subset of
+ * JSON Schema they use.
+ *
+ * Every interface in types.ts maps to an `object()` call typed against
+ * it, so adding a field there fails the type check until the schema
+ * describes it too.
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  enum?: readonly (string | number)[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+export const SCHEMA_DIR = "schemas";
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const string: JsonSchema = { type: "string" };
+const strings: JsonSchema = { type: "array", items: string };
+const oneOf = (values: readonly (string | number)[]): JsonSchema => ({
+  type: typeof values[0] === "number" ? "integer" : "string",
+  enum: values,
+});
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: "array", items });
+
+/**
+ * An object schema with exactly the keys of T. Keys listed in `required`
+ * must be present.
+ */
+function object<T>(
+  properties: Record<keyof T, JsonSchema>,
+  required: (keyof T & string)[],
+): JsonSchema {
+  return {
+    type: "object",
+    properties: properties as Record<string, JsonSchema>,
+    required,
+    additionalProperties: false,
+  };
+}
+
+const custom: JsonSchema = { type: "object", additionalProperties: string };
+
+const link = object<Link>(
+  { title: string, url: string, type: oneOf(LINK_TYPES) },
+  ["title", "url"],
+);
+
+const dependency = object<Dependency>(
+  { service: string, api: string, description: string },
+  ["service"],
+);
+
+const environment = object<Environment>(
+  {
+    name: string,
+    url: string,
+    region: string,
+    cluster: string,
+    health: string,
+    lifecycle: oneOf(LIFECYCLES),
+  },
+  ["name"],
+);
+
+const resourceUse = object<ResourceUse>(
+  { resource: string, access: oneOf(ACCESS_MODES), description: string },
+  ["resource"],
+);
+
+const member = object<Member>({ person: string, role: string }, ["person"]);
+
+const oncall = object<OnCall>(
+  {
+    primary: string,
+    escalation: strings,
+    pager: string,
+    hours: string,
+    timezone: string,
+  },
+  [],
+);
+
+const service = object<Service>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    description: string,
+    system: string,
+    owner: string,
+    lifecycle: oneOf(LIFECYCLES),
+    tier: oneOf(TIERS),
+    repo: string,
+    tags: strings,
+    environments: arrayOf(environment),
+    dependsOn: arrayOf(dependency),
+    uses: arrayOf(resourceUse),
+    links: arrayOf(link),
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "created", "updated"],
+);
+
+const system = object<System>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    description: string,
+    domain: string,
+    owner: string,
+    links: arrayOf(link),
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "created", "updated"],
+);
+
+const owner = object<Owner>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    type: oneOf(OWNER_TYPES),
+    email: string,
+    slack: string,
+    parent: string,
+    members: arrayOf(member),
+    oncall,
+    links: arrayOf(link),
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "type", "created", "updated"],
+);
+
+const resource = object<Resource>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    kind: oneOf(RESOURCE_KINDS),
+    description: string,
+    system: string,
+    owner: string,
+    lifecycle: oneOf(LIFECYCLES),
+    tags: strings,
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "kind", "created", "updated"],
+);
+
+const domain = object<Domain>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    description: string,
+    owner: string,
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "created", "updated"],
+);
+
+const api = object<Api>(
+  {
+    id: string,
+    name: string,
+    aliases: strings,
+    type: oneOf(API_TYPES),
+    provider: string,
+    owner: string,
+    lifecycle: oneOf(LIFECYCLES),
+    spec: string,
+    description: string,
+    custom,
+    created: string,
+    updated: string,
+  },
+  ["id", "name", "type", "created", "updated"],
+);
+
+const storage = object<StorageConfig>(
+  {
+    backend: oneOf(["file", "sqlite"] satisfies StorageBackend[]),
+    path: string,
+  },
+  ["backend"],
+);
+
+const customFieldDef = object<CustomFieldDef>(
+  {
+    key: string,
+    type: oneOf(CUSTOM_FIELD_TYPES),
+    description: string,
+    values: strings,
+    requiredFor: arrayOf(oneOf(Object.values(KIND_LABELS))),
+  },
+  ["key", "type"],
+);
+
+const source = object<SourceConfig>({ name: string, path: string }, ["path"]);
+
+const config = object<Config>(
+  {
+    version: { type: "integer" },
+    storage,
+    customFields: arrayOf(customFieldDef),
+    sources: arrayOf(source),
+  },
+  ["version"],
+);
+
+// Record files name their schema in `$schema`
+const withSchemaRef = (schema: JsonSchema): JsonSchema => ({
+  ...schema,
+  properties: { $schema: string, ...schema.properties },
+});
+
+const RECORD_SCHEMAS: Record<Collection, JsonSchema> = {
+  services: withSchemaRef(service),
+  systems: withSchemaRef(system),
+  owners: withSchemaRef(owner),
+  resources: withSchemaRef(resource),
+  domains: withSchemaRef(domain),
+  apis: withSchemaRef(api),
+};
+
+/**
+ * The schema for records of a collection.
+ */
+export function recordSchema(collection: Collection): JsonSchema {
+  return RECORD_SCHEMAS[collection];
+}
+
+/**
+ * The schema for config.json.
+ */
+export function configSchema(): JsonSchema {
+  return config;
+}
+
+/**
+ * File name of a collection's schema, or of config.json's.
+ */
+export function schemaFile(collection: Collection | "config"): string {
+  const name = collection === "config" ? "config" : KIND_LABELS[collection];
+  return `${name}.schema.json`;
+}
+
+/**
+ * Write every schema to .yellowpages/schemas/, replacing older copies.
+ */
+export function writeSchemas(root: string): void {
+  const dir = join(root, SCHEMA_DIR);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const entries: [Collection | "config", JsonSchema][] = [
+    ...(Object.entries(RECORD_SCHEMAS) as [Collection, JsonSchema][]),
+    ["config", config],
+  ];
+  for (const [name, schema] of entries) {
+    const title =
+      name === "config" ? "yellowpages config.json" : KIND_LABELS[name];
+    const document = {
+      $schema: DRAFT,
+      $id: schemaFile(name),
+      title,
+      ...schema,
+    };
+    writeFileAtomic(
+      join(dir, schemaFile(name)),
+      `${JSON.stringify(document, null, 2)}\n`,
+    );
+  }
+}
+
+// --- Validation ---
+
+export interface SchemaViolation {
+  path: string; // e.g. dependsOn[0].service; empty for the value itself
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Validate a value against a schema. Returns every violation found.
+ */
+export function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path = "",
+): SchemaViolation[] {
+  const where = path || "(record)";
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [
+      {
+        path,
+        message: `${where} must be ${schema.type}, got ${typeOf(value)}`,
+      },
+    ];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [
+      {
+        path,
+        message: `${where} must be one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}`,
+      },
+    ];
+  }
+
+  const violations: SchemaViolation[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      violations.push(
+        ...validate(item, schema.items as JsonSchema, childPath(path, i)),
+      );
+    });
+  }
+
+  if (typeOf(value) === "object") {
+    const fields = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (fields[key] === undefined) {
+        violations.push({
+          path: childPath(path, key),
+          message: `${childPath(path, key)} is required`,
+        });
+      }
+    }
+    for (const [key, field] of Object.entries(fields)) {
+      if (field === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) {
+        violations.push(...validate(field, property, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: childPath(path, key),
+          message: `${childPath(path, key)} is not a known field`,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(
+          ...validate(field, schema.additionalProperties, childPath(path, key)),
+        );
+      }
+    }
+  }
+
+  return violations;
+}
@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdirSync, rmSync } from "node:fs";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { getSearchIndex, parseDocId } from "./search-index";
 import { initStore, writeRecord } from "./store";
-import type { Owner, Service, System } from "./types";
+import type { Api, Owner, Service, System } from "./types";
 
 const TEST_DIR = join(import.meta.dir, "..", ".test-search-tmp");
 
@@ -51,6 +51,20 @@ describe("getSearchIndex", () => {
     expect(results[0].id).toBe("service:s1");
   });
 
+  test("indexes services by alias", () => {
+    const root = join(TEST_DIR, ".yellowpages");
+    writeRecord<Service>(root, "services", {
+      id: "s1",
+      name: "payments-gateway",
+      aliases: ["stripe-bridge"],
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    });
+
+    const results = getSearchIndex(root).search("stripe-bridge");
+    expect(results[0]?.id).toBe("service:s1");
+  });
+
   test("indexes services by description", () => {
     const root = join(TEST_DIR, ".yellowpages");
     writeRecord<Service>(root, "services", {
@@ -81,25 +95,87 @@ describe("getSearchIndex", () => {
     expect(results.length).toBe(1);
   });
 
-  test("indexes services by API names", () => {
+  test("indexes APIs and the services that provide them", () => {
     const root = join(TEST_DIR, ".yellowpages");
     writeRecord<Service>(root, "services", {
       id: "s1",
       name: "gateway",
-      apis: [
-        {
-          name: "Admin gRPC API",
-          type: "grpc",
-          description: "Internal admin endpoints",
-        },
-      ],
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    });
+    writeRecord<Api>(root, "apis", {
+      id: "a1",
+      name: "Admin gRPC API",
+      type: "grpc",
+      provider: "s1",
+      description: "Internal admin endpoints",
       created: "2026-01-01T00:00:00Z",
       updated: "2026-01-01T00:00:00Z",
     });
 
     const index = getSearchIndex(root);
     const results = index.search("grpc");
-    expect(results.length).toBe(1);
+    expect(results.map((r) => r.id).sort()).toEqual(["api:a1", "service:s1"]);
+  });
+
+  test("indexes the operations of local API specs", () => {
+    const root = join(TEST_DIR, ".yellowpages");
+    writeFileSync(
+      join(TEST_DIR, "openapi.yaml"),
+      [
+        "openapi: 3.0.3",
+        "info: { title: Payments, version: 1.0.0 }",
+        "paths:",
+        "  /v1/charges:",
+        "    post: { operationId: createCharge }",
+        "  /v1/refunds:",
+        "    post: { operationId: createRefund, summary: Refund a charge }",
+      ].join("\n"),
+    );
+    for (const [id, name] of [
+      ["s1", "payments"],
+      ["s2", "ledger"],
+    ]) {
+      writeRecord<Service>(root, "services", {
+        id,
+        name,
+        created: "2026-01-01T00:00:00Z",
+        updated: "2026-01-01T00:00:00Z",
+      });
+    }
+    writeRecord<Api>(root, "apis", {
+      id: "a1",
+      name: "Charges",
+      type: "rest",
+      provider: "s1",
+      spec: "openapi.yaml",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    });
+
+    const results = getSearchIndex(root).search("POST /v1/refunds");
+    expect(results.map((r) => r.id).sort()).toEqual(["api:a1", "service:s1"]);
+    expect(getSearchIndex(root).search("createRefund")).toHaveLength(2);
+  });
+
+  test("rebuilds when a spec changes", () => {
+    const root = join(TEST_DIR, ".yellowpages");
+    const specFile = join(TEST_DIR, "openapi.json");
+    const spec = (path: string) =>
+      JSON.stringify({ swagger: "2.0", paths: { [path]: { get: {} } } });
+    writeFileSync(specFile, spec("/invoices"));
+    writeRecord<Api>(root, "apis", {
+      id: "a1",
+      name: "Billing",
+      type: "rest",
+      spec: "openapi.json",
+      created: "2026-01-01T00:00:00Z",
+      updated: "2026-01-01T00:00:00Z",
+    });
+    expect(getSearchIndex(root).search("subscriptions")).toHaveLength(0);
+
+    writeFileSync(specFile, spec("/subscriptions/{id}"));
+    expect(getSearchIndex(root).search("subscriptions")).toHaveLength(1);
   });
 
   test("indexes systems", () => {
@@ -1,73 +1,91 @@
-import {
-  existsSync,
-  readdirSync,
-  readFileSync,
-  statSync,
-  writeFileSync,
-} from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import MiniSearch from "minisearch";
-import { readAll } from "./store.js";
-import type { Owner, Service, System } from "./types.js";
+import { withLock, writeFileAtomic } from "./atomic.js";
+import {
+  type ApiSpecSummary,
+  loadApiSpecs,
+  operationLabel,
+  specRevision,
+} from "./openapi.js";
+import { getStore, readAll } from "./store.js";
+import type { Api, Domain, Owner, Resource, Service, System } from "./types.js";
 
 const _INDEX_FILE = ".yellowpages/.search-index.json";
 const _HASH_FILE = ".yellowpages/.search-hash";
 
+// Bump when the indexed fields change, so cached indexes are rebuilt
+const INDEX_VERSION = 7;
+
 interface SearchDocument {
   id: string;
-  kind: "service" | "system" | "owner";
+  kind: "service" | "system" | "owner" | "resource" | "domain" | "api";
   name: string;
+  aliases: string;
   description: string;
   tags: string;
   apis: string;
+  operations: string;
   lifecycle: string;
   ownerType: string;
+  resourceKind: string;
+  links: string;
 }
 
 function createMiniSearch(): MiniSearch<SearchDocument> {
   return new MiniSearch<SearchDocument>({
-    fields: ["name", "description", "tags", "apis", "lifecycle", "ownerType"],
+    fields: [
+      "name",
+      "aliases",
+      "description",
+      "tags",
+      "apis",
+      "operations",
+      "lifecycle",
+      "ownerType",
+      "resourceKind",
+      "links",
+    ],
     storeFields: ["kind", "name", "description"],
     searchOptions: {
-      boost: { name: 3, description: 2, tags: 1.5 },
+      boost: { name: 3, aliases: 2.5, description: 2, tags: 1.5 },
       fuzzy: 0.2,
       prefix: true,
     },
   });
 }
 
-/**
- * Compute a hash of all catalog files' mtimes + sizes.
- * If this changes, the index needs rebuilding.
- */
-function computeCatalogHash(root: string): string {
-  const parts: string[] = [];
-  for (const collection of ["services", "systems", "owners"]) {
-    const dir = join(root, collection);
-    if (!existsSync(dir)) continue;
-    const files = readdirSync(dir)
-      .filter((f) => f.endsWith(".json"))
-      .sort();
-    for (const file of files) {
-      const stat = statSync(join(dir, file));
-      parts.push(`${collection}/${file}:${stat.mtimeMs}:${stat.size}`);
-    }
-  }
-  return parts.join("|");
+// Operations are matched as "POST /v1/refunds" plus their id and summary
+function operationsText(spec: ApiSpecSummary | undefined): string {
+  return (spec?.operations ?? [])
+    .map((op) =>
+      [operationLabel(op), op.operationId, op.summary]
+        .filter(Boolean)
+        .join(" "),
+    )
+    .join(" ");
 }
 
-function serviceToDoc(s: Service): SearchDocument {
+// A service is found by the names, descriptions and operations of the
+// APIs it provides
+function serviceToDoc(
+  s: Service,
+  provided: Api[],
+  specs: Map<string, ApiSpecSummary>,
+): SearchDocument {
   return {
     id: `service:${s.id}`,
     kind: "service",
     name: s.name,
+    aliases: (s.aliases ?? []).join(" "),
     description: s.description ?? "",
     tags: (s.tags ?? []).join(" "),
-    apis: (s.apis ?? [])
-      .map((a) => `${a.name} ${a.description ?? ""}`)
-      .join(" "),
+    apis: provided.map((a) => `${a.name} ${a.description ?? ""}`).join(" "),
+    operations: provided.map((a) => operationsText(specs.get(a.id))).join(" "),
     lifecycle: s.lifecycle ?? "",
     ownerType: "",
+    resourceKind: "",
+    links: (s.links ?? []).map((l) => l.title).join(" "),
   };
 }
 
@@ -76,11 +94,15 @@ function systemToDoc(s: System): SearchDocument {
     id: `system:${s.id}`,
     kind: "system",
     name: s.name,
+    aliases: (s.aliases ?? []).join(" "),
     description: s.description ?? "",
     tags: "",
     apis: "",
+    operations: "",
     lifecycle: "",
     ownerType: "",
+    resourceKind: "",
+    links: (s.links ?? []).map((l) => l.title).join(" "),
   };
 }
 
@@ -89,21 +111,78 @@ function ownerToDoc(o: Owner): SearchDocument {
     id: `owner:${o.id}`,
     kind: "owner",
     name: o.name,
+    aliases: (o.aliases ?? []).join(" "),
     description: "",
     tags: "",
     apis: "",
+    operations: "",
     lifecycle: "",
     ownerType: o.type,
+    resourceKind: "",
+    links: (o.links ?? []).map((l) => l.title).join(" "),
+  };
+}
+
+function resourceToDoc(r: Resource): SearchDocument {
+  return {
+    id: `resource:${r.id}`,
+    kind: "resource",
+    name: r.name,
+    aliases: (r.aliases ?? []).join(" "),
+    description: r.description ?? "",
+    tags: (r.tags ?? []).join(" "),
+    apis: "",
+    operations: "",
+    lifecycle: r.lifecycle ?? "",
+    ownerType: "",
+    resourceKind: r.kind,
+    links: "",
+  };
+}
+
+function domainToDoc(d: Domain): SearchDocument {
+  return {
+    id: `domain:${d.id}`,
+    kind: "domain",
+    name: d.name,
+    aliases: (d.aliases ?? []).join(" "),
+    description: d.description ?? "",
+    tags: "",
+    apis: "",
+    operations: "",
+    lifecycle: "",
+    ownerType: "",
+    resourceKind: "",
+    links: "",
+  };
+}
+
+function apiToDoc(a: Api, spec: ApiSpecSummary | undefined): SearchDocument {
+  return {
+    id: `api:${a.id}`,
+    kind: "api",
+    name: a.name,
+    aliases: (a.aliases ?? []).join(" "),
+    description: a.description ?? "",
+    tags: "",
+    apis: [a.type, spec?.title].filter(Boolean).join(" "),
+    operations: operationsText(spec),
+    lifecycle: a.lifecycle ?? "",
+    ownerType: "",
+    resourceKind: "",
+    links: "",
   };
 }
 
 /**
- * Get or rebuild the search index. Rebuilds only when catalog files change.
+ * Get or rebuild the search index. Rebuilds only when the catalog or a
+ * local API spec changes.
  */
 export function getSearchIndex(root: string): MiniSearch<SearchDocument> {
   const hashFile = join(root, ".search-hash");
   const indexFile = join(root, ".search-index.json");
-  const currentHash = computeCatalogHash(root);
+  const apis = readAll<Api>(root, "apis");
+  const currentHash = `v${INDEX_VERSION}:${getStore(root).revision()}:${specRevision(root, apis)}`;
 
   // Try loading cached index
   if (existsSync(hashFile) && existsSync(indexFile)) {
@@ -114,15 +193,19 @@ export function getSearchIndex(root: string): MiniSearch<SearchDocument> {
       return MiniSearch.loadJSON<SearchDocument>(JSON.stringify(data), {
         fields: [
           "name",
+          "aliases",
           "description",
           "tags",
           "apis",
+          "operations",
           "lifecycle",
           "ownerType",
+          "resourceKind",
+          "links",
         ],
         storeFields: ["kind", "name", "description"],
         searchOptions: {
-          boost: { name: 3, description: 2, tags: 1.5 },
+          boost: { name: 3, aliases: 2.5, description: 2, tags: 1.5 },
           fuzzy: 0.2,
           prefix: true,
         },
@@ -136,18 +219,33 @@ export function getSearchIndex(root: string): MiniSearch<SearchDocument> {
   const services = readAll<Service>(root, "services");
   const systems = readAll<System>(root, "systems");
   const owners = readAll<Owner>(root, "owners");
+  const resources = readAll<Resource>(root, "resources");
+  const domains = readAll<Domain>(root, "domains");
+  const specs = loadApiSpecs(root, apis);
 
   const docs: SearchDocument[] = [
-    ...services.map(serviceToDoc),
+    ...services.map((s) =>
+      serviceToDoc(
+        s,
+        apis.filter((a) => a.provider === s.id),
+        specs,
+      ),
+    ),
     ...systems.map(systemToDoc),
     ...owners.map(ownerToDoc),
+    ...resources.map(resourceToDoc),
+    ...domains.map(domainToDoc),
+    ...apis.map((a) => apiToDoc(a, specs.get(a.id))),
   ];
 
   index.addAll(docs);
 
-  // Cache to disk
-  writeFileSync(indexFile, JSON.stringify(index.toJSON()));
-  writeFileSync(hashFile, currentHash);
+  // Cache to disk. The hash goes last so a reader never pairs it with an
+  // index from another revision.
+  withLock(root, () => {
+    writeFileAtomic(indexFile, JSON.stringify(index.toJSON()));
+    writeFileAtomic(hashFile, currentHash);
+  });
 
   return index;
 }
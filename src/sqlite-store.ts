@@ -0,0 +1,162 @@
+import { createRequire } from "node:module";
+import type { CatalogStore, UnreadableRecord } from "./catalog-store.js";
+import type { Collection, HistoryEntry, TrashEntry } from "./types.js";
+
+// The subset of node:sqlite's DatabaseSync used here. Typed locally so the
+// module compiles on runtimes whose type definitions predate node:sqlite.
+interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+const require = createRequire(import.meta.url);
+
+function openDatabase(path: string): SqliteDatabase {
+  let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+  try {
+    sqlite = require("node:sqlite");
+  } catch {
+    throw new Error(
+      "The sqlite storage backend needs node:sqlite (Node.js 22.5+ or Bun)",
+    );
+  }
+  return new sqlite.DatabaseSync(path);
+}
+
+/**
+ * Single-file backend for large catalogs: every record is a JSON document
+ * in one `records` table, keyed by collection and id.
+ */
+export function createSqliteStore(path: string): CatalogStore {
+  const db = openDatabase(path);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS records (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (collection, id)
+    );
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+    INSERT OR IGNORE INTO meta (key, value) VALUES ('revision', '0');
+    CREATE TABLE IF NOT EXISTS history (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS history_record ON history (collection, id);
+    CREATE TABLE IF NOT EXISTS trash (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (collection, id)
+    );
+  `);
+
+  const selectAll = db.prepare(
+    "SELECT data FROM records WHERE collection = ? ORDER BY id",
+  );
+  const selectOne = db.prepare(
+    "SELECT data FROM records WHERE collection = ? AND id = ?",
+  );
+  const upsert = db.prepare(
+    "INSERT OR REPLACE INTO records (collection, id, data) VALUES (?, ?, ?)",
+  );
+  const remove = db.prepare(
+    "DELETE FROM records WHERE collection = ? AND id = ?",
+  );
+  const bumpRevision = db.prepare(
+    "UPDATE meta SET value = CAST(value AS INTEGER) + 1 WHERE key = 'revision'",
+  );
+  const insertHistory = db.prepare(
+    "INSERT INTO history (collection, id, data) VALUES (?, ?, ?)",
+  );
+  const selectHistory = db.prepare(
+    "SELECT data FROM history WHERE collection = ? AND id = ? ORDER BY seq",
+  );
+  const selectCollectionHistory = db.prepare(
+    "SELECT data FROM history WHERE collection = ? ORDER BY seq",
+  );
+  const upsertTrash = db.prepare(
+    "INSERT OR REPLACE INTO trash (collection, id, data) VALUES (?, ?, ?)",
+  );
+  const selectTrash = db.prepare(
+    "SELECT data FROM trash WHERE collection = ? ORDER BY id",
+  );
+  const removeTrash = db.prepare(
+    "DELETE FROM trash WHERE collection = ? AND id = ?",
+  );
+  const selectRevision = db.prepare(
+    "SELECT value FROM meta WHERE key = 'revision'",
+  );
+
+  return {
+    readAll<T>(collection: Collection): T[] {
+      return selectAll
+        .all(collection)
+        .map((row) => JSON.parse((row as { data: string }).data));
+    },
+
+    readOne<T>(collection: Collection, id: string): T | null {
+      const row = selectOne.get(collection, id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    write<T extends { id: string }>(collection: Collection, record: T): void {
+      upsert.run(collection, record.id, JSON.stringify(record));
+      bumpRevision.run();
+    },
+
+    delete(collection: Collection, id: string): boolean {
+      const { changes } = remove.run(collection, id);
+      if (Number(changes) === 0) return false;
+      bumpRevision.run();
+      return true;
+    },
+
+    appendHistory(collection: Collection, entry: HistoryEntry): void {
+      insertHistory.run(collection, entry.id, JSON.stringify(entry));
+    },
+
+    readHistory(collection: Collection, id?: string): HistoryEntry[] {
+      const rows =
+        id === undefined
+          ? selectCollectionHistory.all(collection)
+          : selectHistory.all(collection, id);
+      return rows.map((row) => JSON.parse((row as { data: string }).data));
+    },
+
+    writeTrash(entry: TrashEntry): void {
+      upsertTrash.run(entry.collection, entry.record.id, JSON.stringify(entry));
+    },
+
+    readTrash(collection: Collection): TrashEntry[] {
+      return selectTrash
+        .all(collection)
+        .map((row) => JSON.parse((row as { data: string }).data));
+    },
+
+    deleteTrash(collection: Collection, id: string): boolean {
+      return Number(removeTrash.run(collection, id).changes) > 0;
+    },
+
+    // Rows are written through this store only, never by hand
+    unreadable(): UnreadableRecord[] {
+      return [];
+    },
+
+    revision(): string {
+      const row = selectRevision.get() as { value: string } | undefined;
+      return `sqlite:${row?.value ?? "0"}`;
+    },
+  };
+}
@@ -2,26 +2,39 @@ import { afterEach, beforeEach, expect, test } from "bun:test";
 import {
   existsSync,
   mkdirSync,
+  readdirSync,
   readFileSync,
   rmSync,
   writeFileSync,
 } from "node:fs";
 import { join } from "node:path";
+import { createMemoryStore } from "./catalog-store";
 import {
+  CatalogVersionError,
   deleteRecord,
   ensureGitignore,
   findByName,
   findRoot,
+  getIndex,
+  getStore,
   initStore,
+  mutateRecord,
   newId,
+  purgeTrash,
   readAll,
   readConfig,
+  readHistory,
   readOne,
+  readTrash,
   resolveId,
+  restoreRecord,
+  trashRecord,
+  useStore,
   writeConfig,
   writeRecord,
 } from "./store";
 import type { Config, Owner, Service } from "./types";
+import { CATALOG_VERSION } from "./types";
 
 const TEST_DIR = join(import.meta.dir, "..", ".test-tmp");
 
@@ -63,7 +76,21 @@ test("findRoot returns null when no .yellowpages exists", () => {
 test("readConfig returns default config", () => {
   const root = initStore();
   const config = readConfig(root);
-  expect(config.version).toBe(1);
+  expect(config.version).toBe(CATALOG_VERSION);
+});
+
+test("writes are refused until an older catalog is migrated", () => {
+  const root = initStore();
+  writeConfig(root, { version: 1 });
+  const owner: Owner = {
+    id: "o1",
+    name: "platform",
+    type: "team",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  };
+  expect(() => writeRecord(root, "owners", owner)).toThrow(CatalogVersionError);
+  expect(() => deleteRecord(root, "owners", "o1")).toThrow(CatalogVersionError);
 });
 
 test("newId generates 8-char string", () => {
@@ -95,6 +122,122 @@ test("writeRecord and readOne roundtrip", () => {
   expect(result?.lifecycle).toBe("production");
 });
 
+test("writeRecord releases the catalog lock", () => {
+  const root = initStore();
+  writeRecord(root, "services", {
+    id: "s1",
+    name: "checkout",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  });
+  expect(existsSync(join(root, ".lock"))).toBe(false);
+  expect(readdirSync(join(root, "services"))).toEqual(["s1.json"]);
+});
+
+test("mutateRecord changes a record under the lock", () => {
+  const root = initStore();
+  writeRecord<Service>(root, "services", {
+    id: "s1",
+    name: "checkout",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  });
+
+  const changed = mutateRecord<Service>(root, "services", "s1", (s) => {
+    expect(existsSync(join(root, ".lock"))).toBe(true);
+    return { ...s, repo: "git@x" };
+  });
+  expect(changed?.repo).toBe("git@x");
+  expect(readOne<Service>(root, "services", "s1")?.repo).toBe("git@x");
+  expect(existsSync(join(root, ".lock"))).toBe(false);
+
+  // Returning null writes nothing
+  mutateRecord<Service>(root, "services", "s1", () => null);
+  expect(readHistory(root, "services", "s1")).toHaveLength(2);
+  expect(mutateRecord(root, "services", "missing", (s) => s)).toBeNull();
+});
+
+test("writeRecord and deleteRecord record history", () => {
+  const root = initStore();
+  const service: Service = {
+    id: "s1",
+    name: "checkout",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  };
+  writeRecord(root, "services", service);
+  writeRecord(root, "services", { ...service }); // no change, no entry
+  writeRecord(root, "services", { ...service, repo: "git@x" });
+  deleteRecord(root, "services", "s1");
+
+  const history = readHistory(root, "services", "s1");
+  expect(history.map((e) => e.action)).toEqual(["create", "update", "delete"]);
+  expect(history[1].changes).toEqual([{ field: "repo", to: "git@x" }]);
+});
+
+test("trashRecord and restoreRecord keep the original id", () => {
+  const root = initStore();
+  const service: Service = {
+    id: "s1",
+    name: "checkout",
+    dependsOn: [{ service: "s2" }],
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  };
+  writeRecord(root, "services", service);
+
+  const entry = trashRecord(root, "services", "s1");
+  expect(entry?.record).toEqual(service);
+  expect(readOne(root, "services", "s1")).toBeNull();
+  expect(readTrash(root)).toHaveLength(1);
+
+  expect(restoreRecord(root, "services", "s1")).toBe(true);
+  expect(readOne(root, "services", "s1")).toEqual(service);
+  expect(readTrash(root)).toHaveLength(0);
+  expect(readHistory(root, "services", "s1").map((e) => e.action)).toEqual([
+    "create",
+    "delete",
+    "restore",
+  ]);
+  expect(restoreRecord(root, "services", "s1")).toBe(false);
+});
+
+test("purgeTrash only removes entries older than the cutoff", () => {
+  const root = initStore();
+  writeRecord(root, "services", {
+    id: "s1",
+    name: "checkout",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  });
+  trashRecord(root, "services", "s1");
+
+  expect(purgeTrash(root, new Date(Date.now() - 60_000))).toHaveLength(0);
+  expect(purgeTrash(root, new Date(Date.now() + 1))).toHaveLength(1);
+  expect(readTrash(root)).toHaveLength(0);
+});
+
+test("resolveId falls back to aliases, names first", () => {
+  const root = initStore();
+  const now = new Date().toISOString();
+  writeRecord<Service>(root, "services", {
+    id: "s1",
+    name: "payments-gateway",
+    aliases: ["payment-api", "billing"],
+    created: now,
+    updated: now,
+  });
+  writeRecord<Service>(root, "services", {
+    id: "s2",
+    name: "billing",
+    created: now,
+    updated: now,
+  });
+  expect(resolveId(root, "services", "Payment-API")).toBe("s1");
+  expect(resolveId(root, "services", "billing")).toBe("s2");
+  expect(findByName(root, "services", "payment-api")?.id).toBe("s1");
+});
+
 test("readOne returns null for nonexistent ID", () => {
   const root = initStore();
   expect(readOne(root, "services", "nonexistent")).toBeNull();
@@ -204,6 +347,7 @@ test("ensureGitignore creates file with entries if missing", () => {
   const content = readFileSync(gitignorePath, "utf-8");
   expect(content).toContain(".search-index.json");
   expect(content).toContain(".search-hash");
+  expect(content).toContain(".lock");
 });
 
 test("ensureGitignore does not duplicate entries", () => {
@@ -269,3 +413,109 @@ test("collections are independent", () => {
   expect(svc?.name).toBe("svc");
   expect(owner?.name).toBe("owner");
 });
+
+test("initStore with sqlite storage records the backend in config", () => {
+  const root = initStore({ backend: "sqlite" });
+  expect(readConfig(root).storage).toEqual({ backend: "sqlite" });
+  expect(existsSync(join(root, "services"))).toBe(false);
+
+  writeRecord<Service>(root, "services", {
+    id: "s1",
+    name: "svc",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  });
+  expect(existsSync(join(root, "catalog.db"))).toBe(true);
+  expect(readOne<Service>(root, "services", "s1")?.name).toBe("svc");
+});
+
+test("writeConfig switches the backend for later calls", () => {
+  const root = initStore();
+  const fileStore = getStore(root);
+  writeConfig(root, { version: 1, storage: { backend: "sqlite" } });
+  expect(getStore(root)).not.toBe(fileStore);
+});
+
+test("unknown storage backend fails loudly", () => {
+  const root = initStore();
+  writeFileSync(
+    join(root, "config.json"),
+    JSON.stringify({ version: 1, storage: { backend: "mongo" } }),
+  );
+  useStore(root, null);
+  expect(() => readAll(root, "services")).toThrow("mongo");
+});
+
+test("useStore routes store functions to an in-memory backend", () => {
+  const root = "/virtual/.yellowpages";
+  useStore(root, createMemoryStore());
+  try {
+    writeRecord<Owner>(root, "owners", {
+      id: "o1",
+      name: "platform",
+      type: "team",
+      created: new Date().toISOString(),
+      updated: new Date().toISOString(),
+    });
+    expect(resolveId<Owner>(root, "owners", "platform")).toBe("o1");
+    expect(deleteRecord(root, "owners", "o1")).toBe(true);
+    expect(existsSync("/virtual")).toBe(false);
+  } finally {
+    useStore(root, null);
+  }
+});
+
+test("a write stands when the index cannot take it", () => {
+  const root = "/virtual/.yellowpages";
+  const store = createMemoryStore();
+  let loads = 0;
+  const { readAll: load } = store;
+  store.readAll = <T>(collection: Parameters<typeof load>[0]) => {
+    if (collection === "owners" && loads++ === 0) throw new Error("boom");
+    return load<T>(collection);
+  };
+  useStore(root, store);
+  try {
+    getIndex(root); // built now, loads owners on first use
+    writeRecord<Owner>(root, "owners", {
+      id: "o1",
+      name: "platform",
+      type: "team",
+      created: new Date().toISOString(),
+      updated: new Date().toISOString(),
+    });
+    expect(readOne<Owner>(root, "owners", "o1")?.name).toBe("platform");
+    expect(readHistory(root, "owners", "o1")).toHaveLength(1);
+    expect(resolveId<Owner>(root, "owners", "platform")).toBe("o1");
+  } finally {
+    useStore(root, null);
+  }
+});
+
+test("name lookups follow writes, renames and deletes", () => {
+  const root = initStore();
+  const owner = (name: string): Owner => ({
+    id: "o1",
+    name,
+    type: "team",
+    created: new Date().toISOString(),
+    updated: new Date().toISOString(),
+  });
+  expect(findByName<Owner>(root, "owners", "platform")).toBeNull();
+  writeRecord(root, "owners", owner("platform"));
+  expect(resolveId<Owner>(root, "owners", "Platform")).toBe("o1");
+
+  // Changing a found record does not change the index behind it
+  const found = findByName<Owner>(root, "owners", "platform");
+  if (found) found.name = "changed";
+  expect(findByName<Owner>(root, "owners", "platform")?.name).toBe("platform");
+
+  writeRecord(root, "owners", owner("infra"));
+  expect(findByName<Owner>(root, "owners", "platform")).toBeNull();
+  expect(findByName<Owner>(root, "owners", "infra")?.id).toBe("o1");
+
+  trashRecord(root, "owners", "o1");
+  expect(resolveId<Owner>(root, "owners", "infra")).toBe("infra");
+  restoreRecord(root, "owners", "o1");
+  expect(resolveId<Owner>(root, "owners", "infra")).toBe("o1");
+});
@@ -1,18 +1,38 @@
-import {
-  existsSync,
-  mkdirSync,
-  readdirSync,
-  readFileSync,
-  unlinkSync,
-  writeFileSync,
-} from "node:fs";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import { nanoid } from "nanoid";
-import type { Collection, Config } from "./types.js";
-import { COLLECTIONS, DEFAULT_CONFIG } from "./types.js";
+import { withLock, writeFileAtomic } from "./atomic.js";
+import { type CatalogIndex, createCatalogIndex } from "./catalog-index.js";
+import {
+  type CatalogStore,
+  createFileStore,
+  type UnreadableRecord,
+} from "./catalog-store.js";
+import { currentActor, historyEntry } from "./history.js";
+import { writeSchemas } from "./schemas.js";
+import { createSqliteStore } from "./sqlite-store.js";
+import type {
+  Collection,
+  Config,
+  HistoryEntry,
+  StorageConfig,
+  TrashEntry,
+} from "./types.js";
+import { CATALOG_VERSION, COLLECTIONS, DEFAULT_CONFIG } from "./types.js";
 
 const YELLOWPAGES_DIR = ".yellowpages";
-const GITIGNORE_ENTRIES = [".search-index.json", ".search-hash"];
+const GITIGNORE_ENTRIES = [
+  ".search-index.json",
+  ".search-hash",
+  ".lock",
+  "*.tmp",
+];
+const DEFAULT_SQLITE_PATH = "catalog.db";
+
+// Open backends, keyed by catalog root
+const stores = new Map<string, CatalogStore>();
+// Lookup indexes over what the backends hold, kept current on writes
+const indexes = new Map<string, CatalogIndex>();
 
 /**
  * Ensure .yellowpages/.gitignore contains required entries.
@@ -27,7 +47,7 @@ export function ensureGitignore(root: string): void {
   const missing = GITIGNORE_ENTRIES.filter((e) => !lines.includes(e));
   if (missing.length === 0) return;
   const append = `${missing.join("\n")}\n`;
-  writeFileSync(
+  writeFileAtomic(
     gitignorePath,
     existing ? `${existing.trimEnd()}\n${append}` : append,
   );
@@ -60,19 +80,22 @@ export function requireRoot(): string {
 /**
  * Initialize a new .yellowpages directory.
  */
-export function initStore(): string {
+export function initStore(storage?: StorageConfig): string {
   const root = join(process.cwd(), YELLOWPAGES_DIR);
   if (existsSync(root)) {
     return root;
   }
   mkdirSync(root, { recursive: true });
-  for (const col of COLLECTIONS) {
-    mkdirSync(join(root, col), { recursive: true });
+  const config: Config = storage
+    ? { ...DEFAULT_CONFIG, storage }
+    : { ...DEFAULT_CONFIG };
+  if (!storage || storage.backend === "file") {
+    for (const col of COLLECTIONS) {
+      mkdirSync(join(root, col), { recursive: true });
+    }
   }
-  writeFileSync(
-    join(root, "config.json"),
-    `${JSON.stringify(DEFAULT_CONFIG, null, 2)}\n`,
-  );
+  writeConfig(root, config);
+  writeSchemas(root);
   ensureGitignore(root);
   return root;
 }
@@ -90,10 +113,112 @@ export function readConfig(root: string): Config {
  * Write config.
  */
 export function writeConfig(root: string, config: Config): void {
-  writeFileSync(
-    join(root, "config.json"),
-    `${JSON.stringify(config, null, 2)}\n`,
+  withLock(root, () =>
+    writeFileAtomic(
+      join(root, "config.json"),
+      `${JSON.stringify(config, null, 2)}\n`,
+    ),
   );
+  stores.delete(root); // storage settings may have changed
+  indexes.delete(root);
+}
+
+// --- Storage backends ---
+
+/**
+ * Open the backend named in config.json (default: one JSON file per record).
+ */
+export function openStore(root: string): CatalogStore {
+  const storage = readConfig(root).storage ?? { backend: "file" };
+  switch (storage.backend) {
+    case "file":
+      return createFileStore(root);
+    case "sqlite":
+      return createSqliteStore(join(root, storage.path ?? DEFAULT_SQLITE_PATH));
+    default:
+      throw new Error(
+        `Unknown storage backend "${(storage as StorageConfig).backend}" in config.json`,
+      );
+  }
+}
+
+/**
+ * Get the backend for a catalog root, opening it on first use.
+ */
+export function getStore(root: string): CatalogStore {
+  let store = stores.get(root);
+  if (!store) {
+    store = openStore(root);
+    stores.set(root, store);
+  }
+  return store;
+}
+
+/**
+ * Use a specific backend for a catalog root, e.g. an in-memory store in
+ * tests. Pass null to go back to the backend named in config.json.
+ */
+export function useStore(root: string, store: CatalogStore | null): void {
+  if (store) stores.set(root, store);
+  else stores.delete(root);
+  indexes.delete(root);
+}
+
+/**
+ * Index of a catalog root, built on first use and kept current by the
+ * write functions below. Its records are shared: read them, don't change
+ * them.
+ */
+export function getIndex(root: string): CatalogIndex {
+  let index = indexes.get(root);
+  if (!index) {
+    index = createCatalogIndex((collection) => readAll(root, collection));
+    indexes.set(root, index);
+  }
+  return index;
+}
+
+/**
+ * Bring a built index up to date after a write. The write has happened
+ * by then, so an index that cannot take it is dropped, to be rebuilt
+ * from the backend on next use, rather than failing the write.
+ */
+function updateIndex(root: string, update: (index: CatalogIndex) => void) {
+  const index = indexes.get(root);
+  if (!index) return;
+  try {
+    update(index);
+  } catch {
+    indexes.delete(root);
+  }
+}
+
+/**
+ * Schema version of the catalog on disk. Catalogs written before
+ * versioning was enforced count as version 1.
+ */
+export function catalogVersion(root: string): number {
+  return readConfig(root).version ?? 1;
+}
+
+/**
+ * Thrown when writing to a catalog whose schema version differs from
+ * the one this CLI writes.
+ */
+export class CatalogVersionError extends Error {
+  constructor(readonly version: number) {
+    super(
+      version < CATALOG_VERSION
+        ? `Catalog is at version ${version}, this yp writes version ${CATALOG_VERSION}. Run: yp migrate`
+        : `Catalog is at version ${version}, newer than this yp supports (${CATALOG_VERSION}). Upgrade yellowpages-cli`,
+    );
+    this.name = "CatalogVersionError";
+  }
+}
+
+function assertWritable(root: string): void {
+  const version = catalogVersion(root);
+  if (version !== CATALOG_VERSION) throw new CatalogVersionError(version);
 }
 
 /**
@@ -107,10 +232,16 @@ export function newId(): string {
  * Read all records from a collection.
  */
 export function readAll<T>(root: string, collection: Collection): T[] {
-  const dir = join(root, collection);
-  if (!existsSync(dir)) return [];
-  const files = readdirSync(dir).filter((f) => f.endsWith(".json"));
-  return files.map((f) => JSON.parse(readFileSync(join(dir, f), "utf-8")));
+  return getStore(root).readAll<T>(collection);
+}
+
+/**
+ * Record files of every collection that reads leave out because they
+ * cannot be used, e.g. truncated by a bad merge.
+ */
+export function readUnreadable(root: string): UnreadableRecord[] {
+  const store = getStore(root);
+  return COLLECTIONS.flatMap((c) => store.unreadable(c));
 }
 
 /**
@@ -121,69 +252,212 @@ export function readOne<T>(
   collection: Collection,
   id: string,
 ): T | null {
-  const filePath = join(root, collection, `${id}.json`);
-  if (!existsSync(filePath)) return null;
-  return JSON.parse(readFileSync(filePath, "utf-8"));
+  return getStore(root).readOne<T>(collection, id);
 }
 
 /**
- * Find a record by name (case-insensitive).
+ * Find a record by name (case-insensitive), falling back to aliases.
  */
-export function findByName<T extends { id: string; name: string }>(
-  root: string,
-  collection: Collection,
-  name: string,
-): T | null {
-  const all = readAll<T>(root, collection);
-  return all.find((r) => r.name.toLowerCase() === name.toLowerCase()) ?? null;
+export function findByName<
+  T extends { id: string; name: string; aliases?: string[] },
+>(root: string, collection: Collection, name: string): T | null {
+  const match = getIndex(root).findByName<T>(collection, name);
+  return match ? structuredClone(match) : null;
 }
 
 /**
- * Resolve an ID-or-name to an ID. Returns the input if it looks like an ID,
- * otherwise searches by name.
+ * Resolve an ID-or-name to an ID: an exact ID, a name or alias, or a
+ * unique ID prefix. Returns the input when nothing matches, and throws
+ * AmbiguousIdError when it matches several records.
  */
-export function resolveId<T extends { id: string; name: string }>(
-  root: string,
-  collection: Collection,
-  idOrName: string,
-): string {
+export function resolveId<
+  T extends { id: string; name: string; aliases?: string[] },
+>(root: string, collection: Collection, idOrName: string): string {
+  const index = getIndex(root);
   // If a record with this exact ID exists, use it
-  const byId = readOne<T>(root, collection, idOrName);
-  if (byId) return idOrName;
+  if (index.get<T>(collection, idOrName)) return idOrName;
 
-  // Otherwise, search by name
-  const byName = findByName<T>(root, collection, idOrName);
-  if (byName) return byName.id;
-
-  return idOrName; // Return as-is, let caller handle missing
+  // Otherwise, search by name, alias and ID prefix
+  return index.resolve(collection, idOrName) ?? idOrName; // Let caller handle missing
 }
 
+type AnyRecord = { id: string } & Record<string, unknown>;
+
 /**
- * Write a record to a collection.
+ * Write a record to a collection, recording what changed in its history.
  */
 export function writeRecord<T extends { id: string }>(
   root: string,
   collection: Collection,
   record: T,
 ): void {
-  const dir = join(root, collection);
-  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  writeFileSync(
-    join(dir, `${record.id}.json`),
-    `${JSON.stringify(record, null, 2)}\n`,
-  );
+  assertWritable(root);
+  withLock(root, () => {
+    const store = getStore(root);
+    const before = store.readOne<AnyRecord>(collection, record.id);
+    store.write(collection, record);
+    const entry = historyEntry(before, record as unknown as AnyRecord);
+    if (entry) store.appendHistory(collection, entry);
+    updateIndex(root, (index) =>
+      index.put(collection, structuredClone(record)),
+    );
+  });
 }
 
 /**
- * Delete a record by ID.
+ * Read a record, change it and write it back while holding the catalog
+ * lock, so a concurrent writer cannot slip in between and lose an update.
+ * `change` gets a fresh copy and returns the record to write, or null to
+ * leave it as it is. Returns the record as it now stands, or null when no
+ * record has the id.
+ */
+export function mutateRecord<T extends { id: string }>(
+  root: string,
+  collection: Collection,
+  id: string,
+  change: (record: T) => T | null,
+): T | null {
+  assertWritable(root);
+  return withLock(root, () => {
+    const record = getStore(root).readOne<T>(collection, id);
+    if (!record) return null;
+    const next = change(record);
+    if (!next) return record;
+    writeRecord(root, collection, next);
+    return next;
+  });
+}
+
+/**
+ * Delete a record by ID. Its history is kept.
  */
 export function deleteRecord(
   root: string,
   collection: Collection,
   id: string,
 ): boolean {
-  const filePath = join(root, collection, `${id}.json`);
-  if (!existsSync(filePath)) return false;
-  unlinkSync(filePath);
-  return true;
+  assertWritable(root);
+  return withLock(root, () => {
+    const store = getStore(root);
+    const before = store.readOne<AnyRecord>(collection, id);
+    if (!store.delete(collection, id)) return false;
+    const entry = historyEntry(before, null);
+    if (entry) store.appendHistory(collection, entry);
+    updateIndex(root, (index) => index.remove(collection, id));
+    return true;
+  });
+}
+
+/**
+ * Change history of a record, oldest first. Deleted records keep theirs.
+ */
+export function readHistory(
+  root: string,
+  collection: Collection,
+  id?: string,
+): HistoryEntry[] {
+  return getStore(root).readHistory(collection, id);
+}
+
+// --- Trash ---
+
+/**
+ * Soft-delete: move a record to the trash, from where it can be restored.
+ * A service takes the APIs it provides with it. Returns the trash entry,
+ * or null if there is no such record.
+ */
+export function trashRecord(
+  root: string,
+  collection: Collection,
+  id: string,
+  trashedWith?: string,
+): TrashEntry | null {
+  assertWritable(root);
+  return withLock(root, () => {
+    const store = getStore(root);
+    const record = store.readOne<TrashEntry["record"]>(collection, id);
+    if (!record) return null;
+    const entry: TrashEntry = {
+      collection,
+      record,
+      deletedAt: new Date().toISOString(),
+      deletedBy: currentActor(),
+      ...(trashedWith ? { trashedWith } : {}),
+    };
+    store.writeTrash(entry);
+    deleteRecord(root, collection, id);
+    if (collection === "services") {
+      for (const api of getIndex(root).providedBy(id)) {
+        trashRecord(root, "apis", api.id, id);
+      }
+    }
+    return entry;
+  });
+}
+
+/**
+ * Trashed records, oldest deletion first.
+ */
+export function readTrash(
+  root: string,
+  collections: readonly Collection[] = COLLECTIONS,
+): TrashEntry[] {
+  const store = getStore(root);
+  return collections
+    .flatMap((c) => store.readTrash(c))
+    .sort((a, b) => a.deletedAt.localeCompare(b.deletedAt));
+}
+
+/**
+ * Trash entries of the records removed along with a record, such as the
+ * APIs of a service.
+ */
+export function readTrashedWith(root: string, id: string): TrashEntry[] {
+  return readTrash(root).filter((e) => e.trashedWith === id);
+}
+
+/**
+ * Put a trashed record back under its original id, along with the
+ * records removed with it. Returns false if it is not in the trash.
+ */
+export function restoreRecord(
+  root: string,
+  collection: Collection,
+  id: string,
+): boolean {
+  assertWritable(root);
+  return withLock(root, () => {
+    const store = getStore(root);
+    const entry = store.readTrash(collection).find((e) => e.record.id === id);
+    if (!entry) return false;
+    store.write(collection, entry.record);
+    const history = historyEntry(null, entry.record);
+    if (history) {
+      store.appendHistory(collection, { ...history, action: "restore" });
+    }
+    store.deleteTrash(collection, id);
+    updateIndex(root, (index) =>
+      index.put(collection, structuredClone(entry.record)),
+    );
+    for (const e of readTrashedWith(root, id)) {
+      restoreRecord(root, e.collection, e.record.id);
+    }
+    return true;
+  });
+}
+
+/**
+ * Permanently delete trashed records removed before the given time.
+ * Returns the purged entries.
+ */
+export function purgeTrash(root: string, before: Date): TrashEntry[] {
+  assertWritable(root);
+  return withLock(root, () => {
+    const store = getStore(root);
+    const purged = readTrash(root).filter(
+      (e) => new Date(e.deletedAt) < before,
+    );
+    for (const e of purged) store.deleteTrash(e.collection, e.record.id);
+    return purged;
+  });
 }
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { closestNames, editDistance } from "./suggest.js";
+
+describe("editDistance", () => {
+  test("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("platfrom", "platform")).toBe(2);
+    expect(editDistance("same", "same")).toBe(0);
+  });
+});
+
+describe("closestNames", () => {
+  const names = ["platform-team", "payments-team", "Platform-Team", "search"];
+
+  test("suggests the nearest names first, once each", () => {
+    expect(closestNames("platfrom-team", names)).toEqual(["platform-team"]);
+    expect(closestNames("PAYMENT-TEAM", names)).toEqual(["payments-team"]);
+  });
+
+  test("suggests nothing far off", () => {
+    expect(closestNames("ops", names)).toEqual([]);
+  });
+
+  test("keeps at most `limit` names", () => {
+    expect(closestNames("cat", ["bat", "hat", "mat", "rat"], 2)).toEqual([
+      "bat",
+      "hat",
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Levenshtein distance: the number of single-character insertions,
+ * deletions and substitutions that turn one string into the other.
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The names closest to a mistyped input (case-insensitive), nearest
+ * first. Names further off than a third of the input's length, or two
+ * edits for short inputs, are not suggested.
+ */
+export function closestNames(
+  input: string,
+  names: string[],
+  limit = 3,
+): string[] {
+  const lower = input.toLowerCase();
+  const maxDistance = Math.max(2, Math.ceil(lower.length / 3));
+  const seen = new Set<string>();
+  return names
+    .filter((name) => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((name) => ({
+      name,
+      distance: editDistance(lower, name.toLowerCase()),
+    }))
+    .filter((c) => c.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map((c) => c.name);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { missingTierMetadata, parseTier } from "./tiers.js";
+import type { Service } from "./types.js";
+
+function makeService(overrides: Partial<Service>): Service {
+  return {
+    id: "s1",
+    name: "checkout",
+    created: "2026-01-01T00:00:00Z",
+    updated: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("parseTier", () => {
+  test("accepts 1 to 4", () => {
+    expect(parseTier("1")).toBe(1);
+    expect(parseTier("4")).toBe(4);
+  });
+
+  test("rejects anything else", () => {
+    expect(parseTier("0")).toBeUndefined();
+    expect(parseTier("5")).toBeUndefined();
+    expect(parseTier("1.5")).toBeUndefined();
+    expect(parseTier("gold")).toBeUndefined();
+  });
+});
+
+describe("missingTierMetadata", () => {
+  test("tier 1 needs an owner and a runbook", () => {
+    expect(missingTierMetadata(makeService({ tier: 1 }))).toEqual([
+      "owner",
+      "runbook",
+    ]);
+    expect(
+      missingTierMetadata(
+        makeService({
+          tier: 1,
+          owner: "o1",
+          links: [{ title: "On-call runbook", url: "https://wiki/rb" }],
+        }),
+      ),
+    ).toEqual([]);
+  });
+
+  test("lower tiers need less", () => {
+    expect(missingTierMetadata(makeService({ tier: 2 }))).toEqual(["owner"]);
+    expect(missingTierMetadata(makeService({ tier: 4 }))).toEqual([]);
+    expect(missingTierMetadata(makeService({}))).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import type { Service, Tier } from "./types.js";
+import { TIERS } from "./types.js";
+
+/**
+ * Service tiers: parsing and the metadata each tier must carry.
+ */
+
+export type TierRequirement = "owner" | "runbook";
+
+// Tiers without an entry have no requirements
+export const TIER_REQUIREMENTS: Partial<Record<Tier, TierRequirement[]>> = {
+  1: ["owner", "runbook"],
+  2: ["owner"],
+};
+
+/**
+ * Parse a `--tier` value. Returns undefined unless it is one of 1-4.
+ */
+export function parseTier(value: string): Tier | undefined {
+  const tier = Number(value);
+  return TIERS.find((t) => t === tier);
+}
+
+/**
+ * A runbook is a link of type runbook, or one titled like one.
+ */
+export function hasRunbook(service: Service): boolean {
+  return (service.links ?? []).some(
+    (l) => l.type === "runbook" || /runbook/i.test(l.title),
+  );
+}
+
+/**
+ * The requirements of the service's tier that it does not meet.
+ */
+export function missingTierMetadata(service: Service): TierRequirement[] {
+  if (service.tier === undefined) return [];
+  const checks: Record<TierRequirement, boolean> = {
+    owner: !!service.owner,
+    runbook: hasRunbook(service),
+  };
+  return (TIER_REQUIREMENTS[service.tier] ?? []).filter((req) => !checks[req]);
+}
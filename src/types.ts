@@ -3,14 +3,18 @@
 export interface Service {
   id: string;
   name: string;
+  aliases?: string[]; // former or alternative names, still resolvable
   description?: string;
   system?: string; // system id
   owner?: string; // owner id
   lifecycle?: Lifecycle;
+  tier?: Tier; // 1 = most critical
   repo?: string;
   tags?: string[];
-  apis?: Api[];
+  environments?: Environment[];
   dependsOn?: Dependency[];
+  uses?: ResourceUse[];
+  links?: Link[];
   custom?: Record<string, string>;
   created: string;
   updated: string;
@@ -19,6 +23,20 @@ export interface Service {
 export interface System {
   id: string;
   name: string;
+  aliases?: string[]; // former or alternative names, still resolvable
+  description?: string;
+  domain?: string; // domain id
+  owner?: string; // owner id
+  links?: Link[];
+  custom?: Record<string, string>;
+  created: string;
+  updated: string;
+}
+
+export interface Domain {
+  id: string;
+  name: string;
+  aliases?: string[]; // former or alternative names, still resolvable
   description?: string;
   owner?: string; // owner id
   custom?: Record<string, string>;
@@ -29,52 +47,225 @@ export interface System {
 export interface Owner {
   id: string;
   name: string;
+  aliases?: string[]; // former or alternative names, still resolvable
   type: OwnerType;
   email?: string;
   slack?: string;
+  parent?: string; // owner id of the parent team
+  members?: Member[]; // teams only
+  oncall?: OnCall;
+  links?: Link[];
   custom?: Record<string, string>;
   created: string;
   updated: string;
 }
 
-// --- Embedded types ---
-
 export interface Api {
-  name: string;
+  id: string;
+  name: string; // e.g. "Checkout REST API v2"
+  aliases?: string[]; // former or alternative names, still resolvable
   type: ApiType;
+  provider?: string; // service id; unset for third-party APIs
+  owner?: string; // owner id, when it differs from the provider's
+  lifecycle?: Lifecycle;
   spec?: string; // path to OpenAPI/proto/GraphQL schema
   description?: string;
+  custom?: Record<string, string>;
+  created: string;
+  updated: string;
 }
 
+export interface Resource {
+  id: string;
+  name: string;
+  aliases?: string[]; // former or alternative names, still resolvable
+  kind: ResourceKind;
+  description?: string;
+  system?: string; // system id
+  owner?: string; // owner id
+  lifecycle?: Lifecycle;
+  tags?: string[];
+  custom?: Record<string, string>;
+  created: string;
+  updated: string;
+}
+
+// --- Embedded types ---
+
 export interface Dependency {
   service: string; // service id or name
-  api?: string; // optional: which API it consumes
+  api?: string; // optional: id of the API it consumes
   description?: string;
 }
 
+export interface Member {
+  person: string; // owner id of a person
+  role?: string; // e.g. lead, engineer, manager
+}
+
+export interface OnCall {
+  primary?: string; // person owner id, or an email or handle
+  escalation?: string[]; // in order; same forms as primary
+  pager?: string; // pager service or rotation id
+  hours?: string; // working hours, e.g. "09:00-17:00"
+  timezone?: string; // IANA time zone of the hours, e.g. Europe/Berlin
+}
+
+export interface Link {
+  title: string;
+  url: string;
+  type?: LinkType;
+}
+
+export interface Environment {
+  name: string; // e.g. production, staging
+  url?: string;
+  region?: string;
+  cluster?: string;
+  health?: string; // health check endpoint
+  lifecycle?: Lifecycle; // stage of this deployment, if it differs
+}
+
+export interface ResourceUse {
+  resource: string; // resource id
+  access?: Access; // how the service touches it
+  description?: string;
+}
+
+// --- History ---
+
+export type HistoryAction = "create" | "update" | "delete" | "restore";
+
+export interface FieldChange {
+  field: string;
+  from?: unknown; // absent when the field was unset
+  to?: unknown; // absent when the field was cleared
+}
+
+export interface HistoryEntry {
+  at: string;
+  actor: string;
+  action: HistoryAction;
+  id: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+// --- Trash ---
+
+export interface TrashEntry {
+  collection: Collection;
+  record: { id: string; name: string } & Record<string, unknown>;
+  deletedAt: string;
+  deletedBy: string;
+  trashedWith?: string; // id of the record it was removed along with
+}
+
 // --- Enums ---
 
-export type Lifecycle =
-  | "experimental"
-  | "production"
-  | "deprecated"
-  | "decommissioned";
+export const LIFECYCLES = [
+  "experimental",
+  "production",
+  "deprecated",
+  "decommissioned",
+] as const;
+export type Lifecycle = (typeof LIFECYCLES)[number];
+
+export const OWNER_TYPES = ["team", "person"] as const;
+export type OwnerType = (typeof OWNER_TYPES)[number];
+
+// 1: customer facing, critical · 2: important · 3: internal · 4: tooling, best effort
+export const TIERS = [1, 2, 3, 4] as const;
+export type Tier = (typeof TIERS)[number];
+
+export const API_TYPES = ["rest", "grpc", "graphql", "event", "other"] as const;
+export type ApiType = (typeof API_TYPES)[number];
+
+export const RESOURCE_KINDS = [
+  "database",
+  "queue",
+  "topic",
+  "bucket",
+  "cache",
+  "other",
+] as const;
+export type ResourceKind = (typeof RESOURCE_KINDS)[number];
 
-export type OwnerType = "team" | "person";
+export const ACCESS_MODES = ["read", "write", "readwrite"] as const;
+export type Access = (typeof ACCESS_MODES)[number];
 
-export type ApiType = "rest" | "grpc" | "graphql" | "event" | "other";
+export const LINK_TYPES = [
+  "runbook",
+  "dashboard",
+  "docs",
+  "chat",
+  "other",
+] as const;
+export type LinkType = (typeof LINK_TYPES)[number];
 
 // --- Config ---
 
+// Schema version of the records this CLI reads and writes.
+// Bump it together with a new entry in MIGRATIONS (migrate.ts).
+export const CATALOG_VERSION = 3;
+
 export interface Config {
   version: number;
+  storage?: StorageConfig;
+  customFields?: CustomFieldDef[];
+  sources?: SourceConfig[];
+}
+
+export interface SourceConfig {
+  name?: string; // defaults to the last segment of path
+  path: string; // relative to the directory holding .yellowpages
+}
+
+export const CUSTOM_FIELD_TYPES = [
+  "string",
+  "enum",
+  "number",
+  "url",
+  "date",
+] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export interface CustomFieldDef {
+  key: string;
+  type: CustomFieldType;
+  description?: string;
+  values?: string[]; // enum: the allowed values
+  requiredFor?: string[]; // kinds that must set it, e.g. ["service"]
+}
+
+export type StorageBackend = "file" | "sqlite";
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  path?: string; // sqlite: database file, relative to .yellowpages/
 }
 
 export const DEFAULT_CONFIG: Config = {
-  version: 1,
+  version: CATALOG_VERSION,
 };
 
 // --- Collections ---
 
-export const COLLECTIONS = ["services", "systems", "owners"] as const;
+export const COLLECTIONS = [
+  "services",
+  "systems",
+  "owners",
+  "resources",
+  "domains",
+  "apis",
+] as const;
 export type Collection = (typeof COLLECTIONS)[number];
+
+export const KIND_LABELS: Record<Collection, string> = {
+  services: "service",
+  systems: "system",
+  owners: "owner",
+  resources: "resource",
+  domains: "domain",
+  apis: "api",
+};
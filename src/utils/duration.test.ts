@@ -0,0 +1,17 @@
+import { expect, test } from "bun:test";
+import { parseDuration } from "./duration";
+
+test("parses minutes, hours, days and weeks", () => {
+  expect(parseDuration("90m")).toBe(90 * 60_000);
+  expect(parseDuration("12h")).toBe(12 * 3_600_000);
+  expect(parseDuration("30d")).toBe(30 * 86_400_000);
+  expect(parseDuration("2w")).toBe(14 * 86_400_000);
+  expect(parseDuration("0d")).toBe(0);
+});
+
+test("rejects anything else", () => {
+  expect(parseDuration("30")).toBeNull();
+  expect(parseDuration("d")).toBeNull();
+  expect(parseDuration("1.5d")).toBeNull();
+  expect(parseDuration("3 days")).toBeNull();
+});
@@ -0,0 +1,16 @@
+const UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a duration such as "30d", "12h", "2w" or "90m" into milliseconds.
+ * Returns null if the input is not a duration.
+ */
+export function parseDuration(input: string): number | null {
+  const match = /^(\d+)([mhdw])$/.exec(input.trim());
+  if (!match) return null;
+  return Number(match[1]) * UNITS[match[2]];
+}